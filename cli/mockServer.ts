@@ -0,0 +1,88 @@
+import { createHash } from 'node:crypto';
+import { readFile, stat } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { extname, resolve, sep } from 'node:path';
+
+export interface MockServerOptions {
+  // Fixture directory, e.g. public/fixtures/default
+  dir: string;
+  port: number;
+  // Answer the first N webhook posts with 503, to exercise the retries
+  failWebhooks: number;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.xml': 'application/xml; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.jpg': 'image/jpeg',
+  '.png': 'image/png'
+};
+
+const readBody = (request: IncomingMessage) => new Promise<string>((resolveBody, reject) => {
+  const chunks: Buffer[] = [];
+  request.on('data', (chunk: Buffer) => chunks.push(chunk));
+  request.on('end', () => resolveBody(Buffer.concat(chunks).toString('utf8')));
+  request.on('error', reject);
+});
+
+// Stands in for data.bmkg.go.id: serves a fixture directory with ETag and
+// Last-Modified so conditional requests get their 304s, and accepts webhook
+// posts on any path, printing each one.
+export const startMockServer = ({ dir, port, failWebhooks }: MockServerOptions) => {
+  const root = resolve(dir);
+  let webhookPosts = 0;
+
+  const serveFile = async (request: IncomingMessage, response: ServerResponse) => {
+    const path = resolve(root, `.${decodeURIComponent(new URL(request.url || '/', 'http://localhost').pathname)}`);
+    if (!path.startsWith(root + sep)) {
+      response.writeHead(403).end();
+      return;
+    }
+    try {
+      const [content, info] = await Promise.all([readFile(path), stat(path)]);
+      const etag = `"${createHash('sha1').update(content).digest('hex')}"`;
+      const headers = {
+        ETag: etag,
+        'Last-Modified': info.mtime.toUTCString(),
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'If-None-Match, If-Modified-Since',
+        'Access-Control-Expose-Headers': 'ETag, Last-Modified'
+      };
+      if (request.headers['if-none-match'] === etag) {
+        response.writeHead(304, headers).end();
+        return;
+      }
+      response.writeHead(200, { ...headers, 'Content-Type': CONTENT_TYPES[extname(path)] || 'application/octet-stream' });
+      response.end(content);
+    } catch {
+      response.writeHead(404).end();
+    }
+  };
+
+  const server = createServer((request, response) => {
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'If-None-Match, If-Modified-Since, Content-Type'
+      }).end();
+      return;
+    }
+    if (request.method === 'POST') {
+      readBody(request).then(body => {
+        webhookPosts++;
+        const failing = webhookPosts <= failWebhooks;
+        console.log(`${new Date().toISOString()} POST ${request.url} -> ${failing ? 503 : 204} ${body}`);
+        response.writeHead(failing ? 503 : 204).end();
+      });
+      return;
+    }
+    console.log(`${new Date().toISOString()} ${request.method} ${request.url}`);
+    serveFile(request, response);
+  });
+
+  server.listen(port, () => {
+    console.error(`Serving ${root} on http://localhost:${port}`);
+  });
+  return server;
+};
@@ -0,0 +1,67 @@
+import { EMPTY_FILTERS } from '../src/lib/filters';
+import type { QuakeFilters } from '../src/lib/filters';
+import { createBmkgProvider, createFixtureProvider } from '../src/lib/providers';
+import type { QuakeProvider } from '../src/lib/providers';
+
+// Options every subcommand that reads the feeds understands, in the shape
+// node:util parseArgs expects
+export const FEED_OPTIONS = {
+  'base-url': { type: 'string' },
+  fixture: { type: 'string' },
+  'min-magnitude': { type: 'string' },
+  region: { type: 'string' },
+  tsunami: { type: 'boolean', default: false },
+  format: { type: 'string' },
+  help: { type: 'boolean', short: 'h', default: false }
+} as const;
+
+export interface FeedOptionValues {
+  'base-url'?: string;
+  fixture?: string;
+  'min-magnitude'?: string;
+  region?: string;
+  tsunami?: boolean;
+}
+
+// Wrong flags or values; the entry point prints the message and exits with 2
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+// --fixture takes a fixture directory served over HTTP (see `quakemon mock`)
+// and replays its manifest.json; --base-url points at anything that serves
+// the BMKG files under their usual names
+export const createProvider = (values: FeedOptionValues, env: NodeJS.ProcessEnv = process.env): QuakeProvider => {
+  if (values.fixture) return createFixtureProvider(values.fixture.replace(/\/$/, ''));
+  const baseUrl = values['base-url'] || env.QUAKEMON_BMKG_URL;
+  return baseUrl ? createBmkgProvider(baseUrl.replace(/\/$/, '')) : createBmkgProvider();
+};
+
+export const parseNumberOption = (name: string, value: string | undefined, min = -Infinity): number | null => {
+  if (value === undefined) return null;
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number) || number < min) {
+    throw new UsageError(`--${name} must be a number${min > -Infinity ? ` of at least ${min}` : ''}, got "${value}"`);
+  }
+  return number;
+};
+
+export const parseChoice = <T extends string>(name: string, value: string | undefined, choices: readonly T[], fallback: T): T => {
+  if (value === undefined) return fallback;
+  if (!choices.includes(value as T)) {
+    throw new UsageError(`--${name} must be one of ${choices.join(', ')}, got "${value}"`);
+  }
+  return value as T;
+};
+
+// The same filters as the app's filter bar, so a region or magnitude means
+// the same thing in both
+export const createFilters = (values: FeedOptionValues): QuakeFilters => ({
+  ...EMPTY_FILTERS,
+  minMagnitude: parseNumberOption('min-magnitude', values['min-magnitude']),
+  search: values.region || '',
+  tsunamiOnly: Boolean(values.tsunami)
+});
@@ -0,0 +1,53 @@
+import { toCsv, toGeoJson } from '../src/lib/export';
+import { formatDepth, formatEventTime, formatMagnitude } from '../src/lib/format';
+import type { Quake } from '../src/types';
+
+export type OutputFormat = 'table' | 'jsonl' | 'json' | 'csv' | 'geojson';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['table', 'jsonl', 'json', 'csv', 'geojson'];
+
+// A stream of events (watch) can only be printed line by line
+export const STREAM_FORMATS: OutputFormat[] = ['table', 'jsonl'];
+
+interface Column {
+  title: string;
+  width: number;
+  value: (quake: Quake) => string;
+}
+
+// Region goes last and is never cut, so it's the only column without a width
+const COLUMNS: Column[] = [
+  { title: 'TIME', width: 26, value: quake => formatEventTime(quake, 'epicenter', 'en').primary },
+  { title: 'MAG', width: 4, value: quake => formatMagnitude(quake.magnitude, 'en') },
+  { title: 'DEPTH', width: 7, value: quake => formatDepth(quake.depthKm, 'en') },
+  { title: 'LAT', width: 7, value: quake => quake.lat.toFixed(2) },
+  { title: 'LON', width: 7, value: quake => quake.lon.toFixed(2) },
+  { title: 'TSUNAMI', width: 9, value: quake => quake.tsunami },
+  { title: 'REGION', width: 0, value: quake => quake.region }
+];
+
+const formatRow = (cells: string[]) =>
+  cells.map((cell, i) => (COLUMNS[i].width ? cell.padEnd(COLUMNS[i].width) : cell)).join('  ').trimEnd();
+
+export const formatTableHeader = () => formatRow(COLUMNS.map(column => column.title));
+
+export const formatTableRow = (quake: Quake) => formatRow(COLUMNS.map(column => column.value(quake)));
+
+// Dates serialize as ISO strings; the source is spelled out like in the exports
+export const toJsonRecord = (quake: Quake) => ({ ...quake, source: quake.source || 'bmkg' });
+
+export const formatQuakes = (quakes: Quake[], format: OutputFormat) => {
+  switch (format) {
+    case 'jsonl':
+      return quakes.map(quake => JSON.stringify(toJsonRecord(quake))).join('\n');
+    case 'json':
+      return JSON.stringify(quakes.map(toJsonRecord), null, 2);
+    case 'csv':
+      return toCsv(quakes).trimEnd();
+    case 'geojson':
+      return toGeoJson(quakes);
+    case 'table':
+    default:
+      return [formatTableHeader(), ...quakes.map(formatTableRow)].join('\n');
+  }
+};
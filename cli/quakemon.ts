@@ -0,0 +1,192 @@
+import { parseArgs } from 'node:util';
+import { FEED_NAMES } from '../src/lib/feeds';
+import { applyFilters } from '../src/lib/filters';
+import type { FeedName } from '../src/lib/providers';
+import { startMockServer } from './mockServer';
+import { FEED_OPTIONS, UsageError, createFilters, createProvider, parseChoice, parseNumberOption } from './options';
+import { OUTPUT_FORMATS, STREAM_FORMATS, formatQuakes } from './output';
+import { fetchQuakes, watchFeeds } from './watch';
+import { DEFAULT_WEBHOOK_OPTIONS, createWebhookDispatcher } from './webhooks';
+
+const HELP = `Usage: quakemon <command> [options]
+
+Commands:
+  latest                 Print the event in autogempa.xml
+  list [--felt]          Print gempaterkini.json (M5+), or gempadirasakan.json with --felt
+  watch                  Poll the feeds and print new events as they appear
+  mock [--dir <path>]    Serve a fixture directory as a local BMKG stand-in
+
+Feed options (latest, list, watch):
+  --base-url <url>       Where the BMKG files are served (default: data.bmkg.go.id,
+                         or $QUAKEMON_BMKG_URL)
+  --fixture <url>        A fixture directory served over HTTP, replaying its manifest.json
+  --min-magnitude <m>    Skip smaller events
+  --region <text>        Only events whose region contains the text
+  --tsunami              Only events with tsunami potential or a warning
+  --format <format>      table, jsonl, json, csv or geojson (watch: table or jsonl)
+
+Watch options:
+  --interval <seconds>   Time between polls (default 60, at least 10)
+  --feeds <list>         Comma-separated feeds to watch (default latest,recent,felt)
+  --webhook <url>        POST every new event as JSON; repeat for more receivers,
+                         or set $QUAKEMON_WEBHOOKS to a comma-separated list
+  --webhook-retries <n>  Retries per delivery (default ${DEFAULT_WEBHOOK_OPTIONS.retries})
+  --emit-existing        Also print the events already in the feeds at start
+
+Mock options:
+  --dir <path>           Fixture directory (default public/fixtures/default)
+  --port <port>          Port to listen on (default 8787)
+  --fail-webhooks <n>    Answer the first n webhook posts with 503
+
+Exit status: 0 on success, 1 when a feed could not be loaded, 2 on bad usage.
+`;
+
+const DEFAULT_INTERVAL_SECONDS = 60;
+const MIN_INTERVAL_SECONDS = 10;
+
+const runOnce = async (args: string[], feed: FeedName) => {
+  const { values } = parseArgs({
+    args,
+    options: { ...FEED_OPTIONS, felt: { type: 'boolean', default: false } },
+    strict: true
+  });
+  if (values.help) {
+    console.log(HELP);
+    return 0;
+  }
+  if (feed === 'latest' && values.felt) {
+    throw new UsageError('--felt only applies to list');
+  }
+  const listFeed: FeedName = feed === 'latest' ? 'latest' : values.felt ? 'felt' : 'recent';
+  const format = parseChoice('format', values.format, OUTPUT_FORMATS, 'table');
+  const filters = createFilters(values);
+  const { quakes, failed } = await fetchQuakes(createProvider(values), [listFeed]);
+  if (failed.length > 0) return 1;
+  const output = formatQuakes(applyFilters(quakes, filters), format);
+  if (output) console.log(output);
+  return 0;
+};
+
+const parseFeeds = (value: string | undefined): FeedName[] => {
+  if (value === undefined) return FEED_NAMES;
+  const feeds = value.split(',').map(feed => feed.trim()).filter(Boolean);
+  const unknown = feeds.filter(feed => !FEED_NAMES.includes(feed as FeedName));
+  if (feeds.length === 0 || unknown.length > 0) {
+    throw new UsageError(`--feeds takes a comma-separated list of ${FEED_NAMES.join(', ')}, got "${value}"`);
+  }
+  return feeds as FeedName[];
+};
+
+const runWatch = (args: string[]) => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      ...FEED_OPTIONS,
+      interval: { type: 'string' },
+      feeds: { type: 'string' },
+      webhook: { type: 'string', multiple: true },
+      'webhook-retries': { type: 'string' },
+      'emit-existing': { type: 'boolean', default: false }
+    },
+    strict: true
+  });
+  if (values.help) {
+    console.log(HELP);
+    return Promise.resolve(0);
+  }
+
+  const intervalSeconds = parseNumberOption('interval', values.interval, MIN_INTERVAL_SECONDS) ?? DEFAULT_INTERVAL_SECONDS;
+  const retries = parseNumberOption('webhook-retries', values['webhook-retries'], 0) ?? DEFAULT_WEBHOOK_OPTIONS.retries;
+  const webhooks = [
+    ...(values.webhook || []),
+    ...(process.env.QUAKEMON_WEBHOOKS || '').split(',').map(url => url.trim()).filter(Boolean)
+  ];
+  webhooks.forEach(url => {
+    try {
+      new URL(url);
+    } catch {
+      throw new UsageError(`--webhook must be a URL, got "${url}"`);
+    }
+  });
+  const dispatcher = createWebhookDispatcher(webhooks, { ...DEFAULT_WEBHOOK_OPTIONS, retries: Math.floor(retries) });
+
+  const watcher = watchFeeds({
+    provider: createProvider(values),
+    feeds: parseFeeds(values.feeds),
+    filters: createFilters(values),
+    intervalMs: intervalSeconds * 1000,
+    format: parseChoice('format', values.format, STREAM_FORMATS, 'table'),
+    emitExisting: values['emit-existing'],
+    onEvent: dispatcher.send
+  });
+
+  // Deliveries already queued still go out on Ctrl+C; a second one exits at once
+  return new Promise<number>(resolveExit => {
+    const shutdown = () => {
+      watcher.stop();
+      process.once('SIGINT', () => resolveExit(130));
+      dispatcher.drain().then(() => resolveExit(0));
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+  });
+};
+
+const runMock = (args: string[]) => {
+  const { values } = parseArgs({
+    args,
+    options: {
+      dir: { type: 'string', default: 'public/fixtures/default' },
+      port: { type: 'string', default: '8787' },
+      'fail-webhooks': { type: 'string', default: '0' },
+      help: { type: 'boolean', short: 'h', default: false }
+    },
+    strict: true
+  });
+  if (values.help) {
+    console.log(HELP);
+    return Promise.resolve(0);
+  }
+  const server = startMockServer({
+    dir: values.dir,
+    port: parseNumberOption('port', values.port, 0) ?? 8787,
+    failWebhooks: parseNumberOption('fail-webhooks', values['fail-webhooks'], 0) ?? 0
+  });
+  return new Promise<number>(resolveExit => {
+    const shutdown = () => server.close(() => resolveExit(0));
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+  });
+};
+
+const main = async ([command, ...args]: string[]) => {
+  switch (command) {
+    case 'latest':
+      return runOnce(args, 'latest');
+    case 'list':
+      return runOnce(args, 'recent');
+    case 'watch':
+      return runWatch(args);
+    case 'mock':
+      return runMock(args);
+    case undefined:
+    case 'help':
+    case '--help':
+    case '-h':
+      console.log(HELP);
+      return 0;
+    default:
+      throw new UsageError(`Unknown command "${command}"`);
+  }
+};
+
+main(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(err => {
+    if (err instanceof UsageError || (err as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+      console.error(`${err.message}\n\nRun "quakemon help" for usage.`);
+      process.exit(2);
+    }
+    console.error(err);
+    process.exit(1);
+  });
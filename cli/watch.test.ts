@@ -0,0 +1,125 @@
+import { once } from 'node:events';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RetryOptions } from '../src/lib/feeds';
+import { EMPTY_FILTERS } from '../src/lib/filters';
+import { createFixtureProvider } from '../src/lib/providers';
+import type { Quake } from '../src/types';
+import { startMockServer } from './mockServer';
+import { watchFeeds } from './watch';
+import { createWebhookDispatcher, createWebhookPayload, postWebhook } from './webhooks';
+
+const FAST_RETRIES: RetryOptions = { timeoutMs: 1000, retries: 2, baseDelayMs: 1, maxDelayMs: 5 };
+
+describe('watchFeeds against the mock server', () => {
+  let server: Server | undefined;
+  let stdout: string[];
+  let stderr: string[];
+
+  const serve = async (failWebhooks = 0) => {
+    server = startMockServer({ dir: 'public/fixtures/replay', port: 0, failWebhooks });
+    await once(server, 'listening');
+    return `http://localhost:${(server.address() as AddressInfo).port}`;
+  };
+
+  // Both the server and the watcher print to the console
+  beforeEach(() => {
+    stdout = [];
+    stderr = [];
+    vi.spyOn(console, 'log').mockImplementation((line: string) => {
+      stdout.push(line);
+    });
+    vi.spyOn(console, 'error').mockImplementation((line: string) => {
+      stderr.push(line);
+    });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    if (server) {
+      server.close();
+      await once(server, 'close');
+      server = undefined;
+    }
+  });
+
+  it('posts events that show up after the first poll, retrying after a 503', async () => {
+    const baseUrl = await serve(1);
+    // The replay brings in an M6.4 Poso event one minute in
+    let seconds = 0;
+    const webhooks = createWebhookDispatcher([`${baseUrl}/hook`], FAST_RETRIES);
+    const events: Quake[] = [];
+    const watcher = watchFeeds({
+      provider: createFixtureProvider(baseUrl, () => seconds * 1000),
+      feeds: ['latest', 'recent', 'felt'],
+      filters: EMPTY_FILTERS,
+      intervalMs: 20,
+      format: 'jsonl',
+      emitExisting: false,
+      onEvent: quake => {
+        events.push(quake);
+        webhooks.send(quake);
+      }
+    });
+
+    // Later polls of the unchanged feeds get 304s and print nothing
+    await vi.waitFor(() => expect(stdout.filter(line => line.includes('GET /autogempa-1.xml')).length).toBeGreaterThanOrEqual(3));
+    expect(events).toEqual([]);
+
+    seconds = 61;
+    await vi.waitFor(() => expect(events).toHaveLength(1));
+    watcher.stop();
+    await webhooks.drain();
+
+    // All three feeds list it; the copy from autogempa.xml with the shakemap wins
+    expect(events[0]).toMatchObject({ id: '20250719063021', magnitude: 6.4, shakemap: '20250719133021.mmi.jpg' });
+    expect(stdout.filter(line => line.startsWith('{')).map(line => JSON.parse(line))).toEqual([
+      expect.objectContaining({ id: '20250719063021', source: 'bmkg' })
+    ]);
+    const posts = stdout.filter(line => line.includes('POST /hook'));
+    expect(posts.map(line => line.match(/-> (\d+)/)?.[1])).toEqual(['503', '204']);
+    expect(JSON.parse(posts[1].slice(posts[1].indexOf('{')))).toMatchObject({ type: 'quake', quake: { id: '20250719063021' } });
+    expect(stderr.filter(line => line.startsWith('Webhook'))).toEqual([]);
+  });
+
+  it('prints the matching events already in the feeds with emitExisting, oldest first', async () => {
+    const baseUrl = await serve();
+    const events: Quake[] = [];
+    const watcher = watchFeeds({
+      provider: createFixtureProvider(baseUrl, () => 0),
+      feeds: ['recent'],
+      filters: { ...EMPTY_FILTERS, minMagnitude: 5 },
+      intervalMs: 20,
+      format: 'table',
+      emitExisting: true,
+      onEvent: quake => events.push(quake)
+    });
+    await vi.waitFor(() => expect(events.length).toBeGreaterThan(0));
+    watcher.stop();
+
+    expect(events.every(quake => quake.magnitude >= 5)).toBe(true);
+    const times = events.map(quake => quake.time.getTime());
+    expect(times).toEqual([...times].sort((a, b) => a - b));
+    expect(stdout.filter(line => line.startsWith('TIME'))).toHaveLength(1);
+  });
+
+  it('gives up on a webhook once the retries run out', async () => {
+    const baseUrl = await serve(10);
+    const payload = createWebhookPayload({
+      id: '20250719063021',
+      time: new Date('2025-07-19T06:30:21Z'),
+      magnitude: 6.4,
+      depthKm: 10,
+      lat: -1.82,
+      lon: 120.14,
+      region: 'Pusat gempa berada di darat 18 km BaratLaut Poso',
+      tsunami: 'none',
+      potensi: 'Tidak berpotensi tsunami',
+      felt: null,
+      shakemap: null
+    });
+    expect(await postWebhook(`${baseUrl}/hook`, payload, FAST_RETRIES)).toEqual({ ok: false, error: 'HTTP 503' });
+    expect(stdout.filter(line => line.includes('POST /hook'))).toHaveLength(3);
+  });
+});
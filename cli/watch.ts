@@ -0,0 +1,108 @@
+import { FEED_PARSERS } from '../src/lib/bmkg';
+import { fetchFeedWithRetry } from '../src/lib/feeds';
+import { applyFilters } from '../src/lib/filters';
+import type { QuakeFilters } from '../src/lib/filters';
+import type { FeedName, QuakeProvider } from '../src/lib/providers';
+import type { Quake } from '../src/types';
+import { formatTableHeader, formatTableRow, toJsonRecord } from './output';
+import type { OutputFormat } from './output';
+
+export interface WatchOptions {
+  provider: QuakeProvider;
+  feeds: FeedName[];
+  filters: QuakeFilters;
+  intervalMs: number;
+  format: OutputFormat;
+  // Print the events already in the feeds on the first poll instead of
+  // treating them as seen
+  emitExisting: boolean;
+  onEvent: (quake: Quake) => void;
+}
+
+// Fetches the given feeds in parallel; failed feeds and skipped records are
+// reported on stderr, and failed feeds are left out.
+// An event in several feeds keeps the first copy, since gempadirasakan.json
+// has no Potensi to read the tsunami status from.
+export const fetchQuakes = async (provider: QuakeProvider, feeds: FeedName[]) => {
+  const results = await Promise.all(feeds.map(feed => fetchFeedWithRetry(provider, feed, FEED_PARSERS[feed])));
+  const quakes = new Map<string, Quake>();
+  const failed: FeedName[] = [];
+  results.forEach((result, i) => {
+    if (!result.ok) {
+      failed.push(feeds[i]);
+      console.error(`${result.health.file}: ${result.health.error}`);
+      return;
+    }
+    if (!result.notModified && result.data.malformed.length > 0) {
+      const errors = result.data.malformed.flatMap(record => record.errors.map(error => error.message));
+      console.error(`${result.health.file}: skipped ${result.data.malformed.length} malformed record(s): ${errors.join('; ')}`);
+    }
+    result.data.quakes.forEach(quake => {
+      if (!quakes.has(quake.id)) quakes.set(quake.id, quake);
+    });
+  });
+  return { quakes: Array.from(quakes.values()), failed };
+};
+
+// Polls until stop() is called. An event is new the first time its id shows
+// up in any feed; revisions of events already printed are not repeated.
+export const watchFeeds = (options: WatchOptions) => {
+  const seen = new Set<string>();
+  let firstPoll = true;
+  let headerPrinted = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  const print = (quake: Quake) => {
+    if (options.format === 'jsonl') {
+      console.log(JSON.stringify(toJsonRecord(quake)));
+      return;
+    }
+    if (!headerPrinted) {
+      console.log(formatTableHeader());
+      headerPrinted = true;
+    }
+    console.log(formatTableRow(quake));
+  };
+
+  const poll = async () => {
+    const { quakes, failed } = await fetchQuakes(options.provider, options.feeds);
+    // Nothing to compare against until every feed has answered once
+    if (firstPoll && failed.length > 0) {
+      console.error('Waiting for every feed to load before watching');
+      return;
+    }
+
+    const fresh = quakes.filter(quake => !seen.has(quake.id));
+    fresh.forEach(quake => seen.add(quake.id));
+    const matching = applyFilters(fresh, options.filters).sort((a, b) => a.time.getTime() - b.time.getTime());
+
+    if (firstPoll && !options.emitExisting) {
+      console.error(`Watching ${options.feeds.join(', ')}; ${matching.length} matching events already in the feeds`);
+    } else {
+      matching.forEach(quake => {
+        print(quake);
+        options.onEvent(quake);
+      });
+    }
+    firstPoll = false;
+  };
+
+  const run = async () => {
+    try {
+      await poll();
+    } catch (err) {
+      console.error('Poll failed:', err instanceof Error ? err.message : err);
+    }
+    if (!stopped) timer = setTimeout(run, options.intervalMs);
+  };
+
+  run();
+
+  return {
+    stop: () => {
+      stopped = true;
+      clearTimeout(timer);
+    }
+  };
+};
@@ -0,0 +1,77 @@
+import { backoffDelay } from '../src/lib/feeds';
+import type { RetryOptions } from '../src/lib/feeds';
+import type { Quake } from '../src/types';
+import { toJsonRecord } from './output';
+
+export interface WebhookPayload {
+  type: 'quake';
+  // When the watcher saw the event first, which can lag the origin time
+  detectedAt: string;
+  quake: ReturnType<typeof toJsonRecord>;
+}
+
+export const DEFAULT_WEBHOOK_OPTIONS: RetryOptions = {
+  timeoutMs: 10000,
+  retries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const createWebhookPayload = (quake: Quake, detectedAt: Date = new Date()): WebhookPayload => ({
+  type: 'quake',
+  detectedAt: detectedAt.toISOString(),
+  quake: toJsonRecord(quake)
+});
+
+// Network errors, timeouts, 5xx and 429 are retried with the same backoff
+// as the feeds; any other status means the receiver won't take it
+export const postWebhook = async (url: string, payload: WebhookPayload, options: RetryOptions = DEFAULT_WEBHOOK_OPTIONS) => {
+  let lastError = '';
+  for (let attempt = 0; attempt <= options.retries; attempt++) {
+    if (attempt > 0) {
+      await sleep(backoffDelay(attempt - 1, options));
+    }
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), options.timeoutMs);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'User-Agent': 'quakemon-cli' },
+        body: JSON.stringify(payload),
+        signal: controller.signal
+      });
+      if (response.ok) return { ok: true as const, attempts: attempt + 1 };
+      lastError = `HTTP ${response.status}`;
+      if (response.status < 500 && response.status !== 429) break;
+    } catch (err) {
+      lastError = controller.signal.aborted ? `Timed out after ${options.timeoutMs} ms` : err instanceof Error ? err.message : String(err);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+  return { ok: false as const, error: lastError };
+};
+
+// One queue per webhook, so a slow or failing receiver neither holds up the
+// polling nor gets its events out of order
+export const createWebhookDispatcher = (urls: string[], options: RetryOptions = DEFAULT_WEBHOOK_OPTIONS) => {
+  const queues = new Map<string, Promise<void>>(urls.map(url => [url, Promise.resolve()]));
+
+  const send = (quake: Quake) => {
+    const payload = createWebhookPayload(quake);
+    queues.forEach((queue, url) => {
+      queues.set(url, queue.then(async () => {
+        const result = await postWebhook(url, payload, options);
+        if (!result.ok) {
+          console.error(`Webhook ${url} failed for ${quake.id}: ${result.error}`);
+        }
+      }));
+    });
+  };
+
+  const drain = () => Promise.all(queues.values()).then(() => undefined);
+
+  return { send, drain };
+};
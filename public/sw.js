@@ -0,0 +1,173 @@
+// Quakemon service worker: caches the app shell, the last good BMKG payloads
+// and recently viewed shakemaps so the dashboard still renders offline.
+// Filled in by the precache plugin in vite.config.ts with the hashed JS and
+// CSS of the build, so the shell cache follows each deploy. Left as is in
+// dev, where the worker isn't registered.
+const BUILD_ID = 'dev';
+const BUILD_ASSETS = [];
+
+const SHELL_CACHE = `quakemon-shell-${BUILD_ID}`;
+const DATA_CACHE = 'quakemon-data-v1';
+const SHAKEMAP_CACHE = 'quakemon-shakemaps-v1';
+const CACHES = [SHELL_CACHE, DATA_CACHE, SHAKEMAP_CACHE];
+
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg', ...BUILD_ASSETS];
+const FEED_PATTERN = /(autogempa[^/]*\.xml|gempaterkini[^/]*\.json|gempadirasakan[^/]*\.json)$/;
+const SHAKEMAP_PATTERN = /\.mmi\.jpg$/;
+const FEEDS_CONFIG_URL = '/__quakemon/feeds';
+const MAX_SHAKEMAPS = 30;
+
+// Set on cached feed responses so the app can show how old the data is
+const CACHED_AT_HEADER = 'X-Quakemon-Cached-At';
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys
+        .filter(key => key.startsWith('quakemon-') && !CACHES.includes(key))
+        .map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const stampResponse = async response => {
+  const headers = new Headers(response.headers);
+  headers.set(CACHED_AT_HEADER, new Date().toISOString());
+  return new Response(await response.blob(), {
+    status: response.status,
+    statusText: response.statusText,
+    headers
+  });
+};
+
+// Network first; on success the payload is stored, on failure the last good
+// copy is served with its timestamp header
+const handleFeed = async request => {
+  const cache = await caches.open(DATA_CACHE);
+  const cacheKey = request.url;
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(cacheKey, await stampResponse(response.clone()));
+    }
+    return response;
+  } catch (err) {
+    const cached = await cache.match(cacheKey);
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+const trimCache = async (cacheName, maxEntries) => {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)));
+};
+
+const handleShakemap = async request => {
+  const cache = await caches.open(SHAKEMAP_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  // Opaque responses from <img> requests are cacheable too
+  if (response.ok || response.type === 'opaque') {
+    await cache.put(request, response.clone());
+    trimCache(SHAKEMAP_CACHE, MAX_SHAKEMAPS);
+  }
+  return response;
+};
+
+const handleShell = async request => {
+  const cache = await caches.open(SHELL_CACHE);
+  if (request.mode === 'navigate') {
+    try {
+      const response = await fetch(request);
+      // Don't let a 404 or a proxy's error page replace the offline shell
+      if (response.ok) {
+        cache.put('/index.html', response.clone());
+      }
+      return response;
+    } catch {
+      return (await cache.match('/index.html')) || Response.error();
+    }
+  }
+  // The precached shell is renewed with each deploy and /assets/ names are
+  // hashed, so both come from the cache. Anything else (fixture manifests,
+  // usgs.json, emsc.json) can change at any time: network first, the cache
+  // only offline.
+  const url = new URL(request.url);
+  if (url.pathname.startsWith('/assets/') || SHELL_URLS.includes(url.pathname)) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  }
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (FEED_PATTERN.test(url.pathname)) {
+    event.respondWith(handleFeed(request));
+  } else if (SHAKEMAP_PATTERN.test(url.pathname)) {
+    event.respondWith(handleShakemap(request));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(handleShell(request));
+  }
+});
+
+// The page tells us which feed URLs its provider uses, so background refresh
+// hits the same endpoints
+self.addEventListener('message', event => {
+  if (event.data?.type === 'feeds' && Array.isArray(event.data.urls)) {
+    event.waitUntil(
+      caches.open(DATA_CACHE).then(cache => cache.put(FEEDS_CONFIG_URL, new Response(JSON.stringify(event.data.urls))))
+    );
+  }
+});
+
+const refreshFeeds = async () => {
+  const cache = await caches.open(DATA_CACHE);
+  const config = await cache.match(FEEDS_CONFIG_URL);
+  if (!config) return;
+  const urls = await config.json();
+  await Promise.all(urls.map(url => handleFeed(new Request(url, { cache: 'no-cache' })).catch(() => null)));
+  const clients = await self.clients.matchAll({ type: 'window' });
+  clients.forEach(client => client.postMessage({ type: 'feeds-updated' }));
+};
+
+self.addEventListener('periodicsync', event => {
+  if (event.tag === 'quakemon-refresh') {
+    event.waitUntil(refreshFeeds());
+  }
+});
+
+self.addEventListener('sync', event => {
+  if (event.tag === 'quakemon-refresh') {
+    event.waitUntil(refreshFeeds());
+  }
+});
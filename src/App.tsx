@@ -1,57 +1,141 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { AlertTriangle, MapPin, Clock, Activity, Layers, Globe, Camera, RefreshCw, Wifi, WifiOff, Users, List, TrendingUp, Heart, Moon, Sun, Bell, BellOff, Zap } from 'lucide-react';
-
-interface EarthquakeData {
-  Tanggal: string;
-  Jam: string;
-  DateTime: string;
-  coordinates: string;
-  Lintang: string;
-  Bujur: string;
-  Magnitude: string;
-  Kedalaman: string;
-  Wilayah: string;
-  Potensi: string;
-  Dirasakan: string;
-  Shakemap: string;
-}
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { MouseEvent } from 'react';
+import { AlertTriangle, MapPin, Clock, Activity, Layers, Globe, Camera, RefreshCw, Wifi, WifiOff, Users, List, TrendingUp, Heart, Moon, Sun, Bell, BellOff, Zap, Map as MapIcon, History, Navigation, BellRing, CloudOff, ExternalLink, Languages, BarChart3, Timer, Scale, Waves, GitBranch, Film } from 'lucide-react';
+import AlertRulesPanel from './components/AlertRulesPanel';
+import AgencyComparison from './components/AgencyComparison';
+import ChangeLog from './components/ChangeLog';
+import EarthquakeMap from './components/EarthquakeMap';
+import type { MapEvent } from './components/EarthquakeMap';
+import EventDetail from './components/EventDetail';
+import ExportMenu from './components/ExportMenu';
+import FeedHealthPanel from './components/FeedHealthPanel';
+import FeltReportTable from './components/FeltReportTable';
+import FilterBar from './components/FilterBar';
+import IntensityBadge from './components/IntensityBadge';
+import HistoryPanel from './components/HistoryPanel';
+import LocationManager from './components/LocationManager';
+import SequenceGroup from './components/SequenceGroup';
+import ShakemapGallery from './components/ShakemapGallery';
+import ShakemapViewer from './components/ShakemapViewer';
+import SourceBadges from './components/SourceBadges';
+import StatisticsPanel from './components/StatisticsPanel';
+import TsunamiBanner from './components/TsunamiBanner';
+import TsunamiPanel from './components/TsunamiPanel';
+import PlaybackPanel from './components/PlaybackPanel';
+import { clearAlertLog, loadAlertLog, loadRules, processAlerts, saveRules } from './lib/alerts';
+import type { AlertLogEntry, AlertRule } from './lib/alerts';
+import { archiveQuakes } from './lib/archive';
+import { getUnseenKind, loadChangelog, loadSeen, markSeen, recordChanges, saveSeen } from './lib/changes';
+import type { ChangeKind, QuakeChange, SeenQuakes } from './lib/changes';
+import { applyFilters, sortQuakes } from './lib/filters';
+import type { QuakeFilters, QuakeSort } from './lib/filters';
+import { bearingDeg, distanceKm } from './lib/geo';
+import { LANGUAGES, LANGUAGE_NAMES, createTranslator, loadLanguage, saveLanguage } from './lib/i18n';
+import type { Language, MessageKey } from './lib/i18n';
+import { loadActiveLocationId, loadLocations, saveActiveLocationId, saveLocations } from './lib/locations';
+import type { SavedLocation } from './lib/locations';
+import { readQueryState, writeQueryState } from './lib/queryState';
+import { eventPath, navigate, useRoute } from './lib/router';
+import type { TabId } from './lib/queryState';
+import { fetchAgencySolutions, loadAgencies, mergeAgencySolutions, saveAgencies } from './lib/agencies';
+import type { AgencyResult, ExternalAgency } from './lib/agencies';
+import { FEED_PARSERS } from './lib/bmkg';
+import type { ParsedFeed } from './lib/bmkg';
+import { getQuakeProvider } from './lib/providers';
+import type { FeedName } from './lib/providers';
+import { fetchFeedWithRetry, loadFeedHealth, mergeFeedHealth, saveFeedHealth } from './lib/feeds';
+import type { FeedHealth, FeedResult } from './lib/feeds';
+import { POLL_INTERVALS_MS, isSignificantQuake, loadPollInterval, savePollInterval, usePolling } from './lib/polling';
+import { parseRegionName } from './lib/statistics';
+import { detectSequences, getSequenceRole, groupBySequence, loadGroupSequences, saveGroupSequences } from './lib/sequences';
+import type { QuakeListItem } from './lib/sequences';
+import { getCachedAt, registerServiceWorker, requestBackgroundRefresh } from './lib/serviceWorker';
+import { isTsunamiThreat, loadDismissedTsunamis, loadTsunamiSettings, processTsunamiNotices, saveDismissedTsunamis, saveTsunamiSettings, tsunamiNoticeKey } from './lib/tsunami';
+import type { TsunamiSettings } from './lib/tsunami';
+import { getMagnitudeInfo, getTsunamiBadgeClass } from './lib/classification';
+import { formatClock, formatCoordinates, formatDepth, formatDirection, formatDistance, formatEventTime, formatLatitude, formatLongitude, formatMagnitude, formatRelativeTime, formatTimestamp } from './lib/format';
+import { TIME_ZONE_PREFERENCES, loadTimeZonePreference, saveTimeZonePreference } from './lib/timezones';
+import type { TimeZonePreference } from './lib/timezones';
+import type { Quake } from './types';
 
-interface RecentEarthquake {
-  Tanggal: string;
-  Jam: string;
-  DateTime: string;
-  Coordinates: string;
-  Lintang: string;
-  Bujur: string;
-  Magnitude: string;
-  Kedalaman: string;
-  Wilayah: string;
-  Potensi: string;
-  Dirasakan?: string;
-}
+const quakeProvider = getQuakeProvider();
 
-interface RecentEarthquakeData {
-  Infogempa: {
-    gempa: RecentEarthquake[];
-  };
-}
+// The feed only has one event, so an invalid one fails the whole feed
+const withMalformed = (result: FeedResult<ParsedFeed>): FeedHealth =>
+  result.ok ? { ...result.health, malformed: result.data.malformed } : result.health;
+
+// The feed status panel shows the same; this keeps the details in the console.
+// An unchanged feed reuses the last payload, whose skipped records were
+// logged already.
+const logFeedResult = (result: FeedResult<ParsedFeed>) => {
+  if (!result.ok) {
+    console.warn(`Failed to fetch ${result.health.file}:`, result.health.error);
+  } else if (!result.notModified && result.data.malformed.length > 0) {
+    console.warn(`Skipped ${result.data.malformed.length} malformed BMKG record(s) in the ${result.health.feed} feed:`, result.data.malformed);
+  }
+};
+
+const TIME_ZONE_LABELS: Record<TimeZonePreference, MessageKey> = {
+  epicenter: 'time.zoneEpicenter',
+  local: 'time.zoneLocal',
+  utc: 'time.zoneUtc'
+};
+const initialQueryState = readQueryState();
 
 function App() {
-  const [latestEarthquake, setLatestEarthquake] = useState<EarthquakeData | null>(null);
-  const [recentEarthquakes, setRecentEarthquakes] = useState<RecentEarthquake[]>([]);
-  const [feltEarthquakes, setFeltEarthquakes] = useState<RecentEarthquake[]>([]);
+  // As BMKG publishes them; the other agencies are merged in below
+  const [bmkgLatest, setLatestEarthquake] = useState<Quake | null>(null);
+  const [bmkgRecent, setRecentEarthquakes] = useState<Quake[]>([]);
+  const [bmkgFelt, setFeltEarthquakes] = useState<Quake[]>([]);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  // Set when the feeds came from the service worker cache instead of the network
+  const [dataAsOf, setDataAsOf] = useState<Date | null>(null);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
-  const [activeTab, setActiveTab] = useState<'latest' | 'recent' | 'felt'>('latest');
+  const [activeTab, setActiveTab] = useState<TabId>(initialQueryState.tab);
+  const [filters, setFilters] = useState<QuakeFilters>(initialQueryState.filters);
+  const [sort, setSort] = useState<QuakeSort>(initialQueryState.sort);
+  const [locations, setLocations] = useState<SavedLocation[]>(loadLocations);
+  const [activeLocationId, setActiveLocationId] = useState<string | null>(loadActiveLocationId);
+  const [showLocations, setShowLocations] = useState(false);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(loadRules);
+  const [alertLog, setAlertLog] = useState<AlertLogEntry[]>(loadAlertLog);
+  const [language, setLanguage] = useState<Language>(loadLanguage);
+  const [timeZonePreference, setTimeZonePreference] = useState<TimeZonePreference>(loadTimeZonePreference);
+  // Ticks so relative times ("12 menit lalu") stay current between refreshes
+  const [now, setNow] = useState(() => new Date());
   const [darkMode, setDarkMode] = useState(() => {
     const saved = localStorage.getItem('darkMode');
     return saved ? JSON.parse(saved) : false;
   });
   const [autoUpdate, setAutoUpdate] = useState(true);
+  const [pollInterval, setPollInterval] = useState(loadPollInterval);
   const [hasNewData, setHasNewData] = useState(false);
-  const [lastDataHash, setLastDataHash] = useState<string>('');
+  // Signature of every event the user has already looked at, across sessions
+  const [seenQuakes, setSeenQuakes] = useState<SeenQuakes | null>(loadSeen);
+  // Events that were unread when the current tab was opened
+  const [highlighted, setHighlighted] = useState<Record<string, ChangeKind>>({});
+  const [changelog, setChangelog] = useState<QuakeChange[]>(loadChangelog);
+  const [archiveVersion, setArchiveVersion] = useState(0);
+  const [feedHealth, setFeedHealth] = useState<Record<FeedName, FeedHealth>>(loadFeedHealth);
+  const [enabledAgencies, setEnabledAgencies] = useState<ExternalAgency[]>(loadAgencies);
+  const [agencyResults, setAgencyResults] = useState<Partial<Record<ExternalAgency, AgencyResult>>>({});
+  const [tsunamiSettings, setTsunamiSettings] = useState<TsunamiSettings>(loadTsunamiSettings);
+  // Notices (event and status) the user has closed in the tsunami banner
+  const [dismissedTsunamis, setDismissedTsunamis] = useState<string[]>(loadDismissedTsunamis);
+  const [groupSequences, setGroupSequences] = useState(loadGroupSequences);
+  const route = useRoute();
+
+  const { latest: latestEarthquake, recent: recentEarthquakes, felt: feltEarthquakes } = useMemo(
+    () => mergeAgencySolutions(
+      { latest: bmkgLatest, recent: bmkgRecent, felt: bmkgFelt },
+      enabledAgencies.flatMap(agency => agencyResults[agency]?.solutions || [])
+    ),
+    [bmkgLatest, bmkgRecent, bmkgFelt, enabledAgencies, agencyResults]
+  );
+  const i18n = useMemo(() => createTranslator(language), [language]);
+  const { t } = i18n;
 
   // Apply dark mode to document
   useEffect(() => {
@@ -63,137 +147,213 @@ function App() {
     localStorage.setItem('darkMode', JSON.stringify(darkMode));
   }, [darkMode]);
 
-  const generateDataHash = (latest: EarthquakeData | null, recent: RecentEarthquake[], felt: RecentEarthquake[]) => {
-    const data = {
-      latest: latest?.DateTime || '',
-      recent: recent.map(e => e.DateTime).join(','),
-      felt: felt.map(e => e.DateTime).join(',')
-    };
-    return btoa(JSON.stringify(data));
-  };
+  useEffect(() => {
+    document.documentElement.lang = language;
+    saveLanguage(language);
+  }, [language]);
 
-  const parseXMLData = (xmlText: string): EarthquakeData | null => {
-    try {
-      const parser = new DOMParser();
-      const xmlDoc = parser.parseFromString(xmlText, 'text/xml');
-      
-      const gempaElement = xmlDoc.querySelector('gempa');
-      if (!gempaElement) {
-        throw new Error('No gempa element found in XML');
-      }
+  useEffect(() => {
+    saveTimeZonePreference(timeZonePreference);
+  }, [timeZonePreference]);
 
-      const getData = (tagName: string): string => {
-        const element = gempaElement.querySelector(tagName);
-        return element?.textContent?.trim() || '';
-      };
-
-      return {
-        Tanggal: getData('Tanggal'),
-        Jam: getData('Jam'),
-        DateTime: getData('DateTime'),
-        coordinates: getData('coordinates'),
-        Lintang: getData('Lintang'),
-        Bujur: getData('Bujur'),
-        Magnitude: getData('Magnitude'),
-        Kedalaman: getData('Kedalaman'),
-        Wilayah: getData('Wilayah'),
-        Potensi: getData('Potensi'),
-        Dirasakan: getData('Dirasakan'),
-        Shakemap: getData('Shakemap')
-      };
-    } catch (err) {
-      console.error('Error parsing XML:', err);
-      return null;
+  useEffect(() => {
+    saveFeedHealth(feedHealth);
+  }, [feedHealth]);
+
+  useEffect(() => {
+    saveAgencies(enabledAgencies);
+  }, [enabledAgencies]);
+
+  useEffect(() => {
+    saveTsunamiSettings(tsunamiSettings);
+  }, [tsunamiSettings]);
+
+  useEffect(() => {
+    saveGroupSequences(groupSequences);
+  }, [groupSequences]);
+
+  useEffect(() => {
+    saveDismissedTsunamis(dismissedTsunamis);
+  }, [dismissedTsunamis]);
+
+  useEffect(() => {
+    savePollInterval(pollInterval);
+  }, [pollInterval]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 15000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Mirror the active tab, filters and sort into the URL for shareable links
+  useEffect(() => {
+    writeQueryState({ tab: activeTab, filters, sort });
+  }, [activeTab, filters, sort]);
+
+  useEffect(() => {
+    saveLocations(locations);
+  }, [locations]);
+
+  useEffect(() => {
+    saveActiveLocationId(activeLocationId);
+  }, [activeLocationId]);
+
+  useEffect(() => {
+    saveRules(alertRules);
+  }, [alertRules]);
+
+  useEffect(() => {
+    if (seenQuakes) saveSeen(seenQuakes);
+  }, [seenQuakes]);
+
+  useEffect(() => {
+    setHighlighted({});
+  }, [activeTab]);
+
+  // Opening a list marks its events as read but keeps them highlighted until
+  // the user switches tabs. On the very first visit everything counts as read.
+  useEffect(() => {
+    if (!lastUpdated) return;
+    if (!seenQuakes) {
+      setSeenQuakes(markSeen({}, [...recentEarthquakes, ...feltEarthquakes]));
+      return;
     }
-  };
+    const list = route.name !== 'home' ? [] : activeTab === 'recent' ? recentEarthquakes : activeTab === 'felt' ? feltEarthquakes : [];
+    const unread: Record<string, ChangeKind> = {};
+    list.forEach(quake => {
+      const kind = getUnseenKind(quake, seenQuakes);
+      if (kind) unread[quake.id] = kind;
+    });
+    if (Object.keys(unread).length === 0) return;
+    setHighlighted(current => ({ ...current, ...unread }));
+    setSeenQuakes(markSeen(seenQuakes, list));
+  }, [activeTab, route, recentEarthquakes, feltEarthquakes, seenQuakes, lastUpdated]);
 
-  const fetchAllEarthquakeData = useCallback(async (silent = false) => {
+  // Resolves to true when a significant new event came in, so polling can
+  // speed up while BMKG is still revising it
+  const fetchAllEarthquakeData = useCallback(async (silent = false): Promise<boolean> => {
     try {
       if (!silent) {
         setLoading(true);
         setError(null);
       }
       
-      // Fetch latest earthquake (XML)
-      const latestResponse = await fetch('https://data.bmkg.go.id/DataMKG/TEWS/autogempa.xml', {
-        method: 'GET',
-        headers: { 'Accept': 'application/xml, text/xml' },
-        cache: 'no-cache'
-      });
-      
-      if (!latestResponse.ok) {
-        throw new Error(`HTTP error! status: ${latestResponse.status}`);
+      // The three feeds are fetched side by side and succeed or fail on their
+      // own; a feed that fails keeps showing its last good list
+      const [latest, recent, felt] = await Promise.all([
+        fetchFeedWithRetry(quakeProvider, 'latest', FEED_PARSERS.latest),
+        fetchFeedWithRetry(quakeProvider, 'recent', FEED_PARSERS.recent),
+        fetchFeedWithRetry(quakeProvider, 'felt', FEED_PARSERS.felt)
+      ]);
+      [latest, recent, felt].forEach(logFeedResult);
+      setFeedHealth(current => ({
+        latest: mergeFeedHealth(current.latest, withMalformed(latest)),
+        recent: mergeFeedHealth(current.recent, withMalformed(recent)),
+        felt: mergeFeedHealth(current.felt, withMalformed(felt))
+      }));
+
+      if (!latest.ok && !recent.ok && !felt.ok) {
+        throw new Error('Every earthquake feed failed');
       }
-      
-      const xmlText = await latestResponse.text();
-      const parsedLatest = parseXMLData(xmlText);
-      
-      let newRecent: RecentEarthquake[] = [];
-      let newFelt: RecentEarthquake[] = [];
-
-      // Fetch recent M≥5.0 earthquakes (JSON)
-      try {
-        const recentResponse = await fetch('https://data.bmkg.go.id/DataMKG/TEWS/gempaterkini.json', {
-          cache: 'no-cache'
-        });
-        if (recentResponse.ok) {
-          const recentData: RecentEarthquakeData = await recentResponse.json();
-          newRecent = recentData.Infogempa?.gempa?.slice(0, 15) || [];
-        }
-      } catch (err) {
-        console.warn('Failed to fetch recent earthquakes:', err);
+
+      // The oldest service worker copy decides how stale the page is
+      const cachedAt = [latest, recent, felt]
+        .map(result => (result.ok ? getCachedAt(result.response) : null))
+        .filter((date): date is Date => date !== null)
+        .sort((a, b) => a.getTime() - b.getTime());
+      setDataAsOf(cachedAt[0] || null);
+
+      // Every feed is unchanged: skip the diffing, archiving and alerts
+      if ([latest, recent, felt].every(result => result.ok && result.notModified)) {
+        setLastUpdated(new Date());
+        return false;
       }
 
-      // Fetch felt earthquakes (JSON)
-      try {
-        const feltResponse = await fetch('https://data.bmkg.go.id/DataMKG/TEWS/gempadirasakan.json', {
-          cache: 'no-cache'
-        });
-        if (feltResponse.ok) {
-          const feltData: RecentEarthquakeData = await feltResponse.json();
-          newFelt = feltData.Infogempa?.gempa?.slice(0, 15) || [];
+      const parsedLatest = latest.ok ? latest.data.quakes[0] : null;
+      const allRecent = recent.ok ? recent.data.quakes : [];
+      const allFelt = felt.ok ? felt.data.quakes : [];
+
+      const allEvents = [...(parsedLatest ? [parsedLatest] : []), ...allRecent, ...allFelt];
+
+      // Keep everything we've seen, not just what the live feeds still return
+      archiveQuakes(allEvents)
+        .then(() => setArchiveVersion(version => version + 1))
+        .catch(err => console.warn('Failed to archive earthquakes:', err));
+
+      const newRecent = allRecent.slice(0, 15);
+      const newFelt = allFelt.slice(0, 15);
+
+      // Diff per event against the previous refresh (or previous session)
+      const changes = recordChanges(allEvents);
+      if (changes.length > 0) {
+        setChangelog(loadChangelog());
+        if (silent) {
+          setHasNewData(true);
         }
-      } catch (err) {
-        console.warn('Failed to fetch felt earthquakes:', err);
       }
 
-      // Check for data changes
-      const newHash = generateDataHash(parsedLatest, newRecent, newFelt);
-      if (lastDataHash && newHash !== lastDataHash && silent) {
-        setHasNewData(true);
-        // Show notification for significant earthquakes
-        if (parsedLatest && parseFloat(parsedLatest.Magnitude) >= 6.0) {
-          if ('Notification' in window && Notification.permission === 'granted') {
-            new Notification('🚨 Gempa Kuat Terdeteksi!', {
-              body: `M${parsedLatest.Magnitude} - ${parsedLatest.Wilayah}`,
-              icon: '/favicon.ico'
-            });
-          }
-        }
+      // Alert rules keep their own per-event history, so this is safe to run
+      // on every refresh without notifying about the same quake twice
+      const newAlerts = processAlerts(allEvents, loadLocations());
+      if (newAlerts.length > 0) {
+        setAlertLog(loadAlertLog());
       }
+      // Tsunami notices go out on their own channel, whatever the rules say
+      processTsunamiNotices(allEvents, loadTsunamiSettings());
 
       if (parsedLatest) {
         setLatestEarthquake(parsedLatest);
       }
-      setRecentEarthquakes(newRecent);
-      setFeltEarthquakes(newFelt);
-      setLastDataHash(newHash);
+      if (recent.ok) {
+        setRecentEarthquakes(newRecent);
+      }
+      if (felt.ok) {
+        setFeltEarthquakes(newFelt);
+      }
       setLastUpdated(new Date());
       
-      if (hasNewData && !silent) {
+      if (!silent) {
         setHasNewData(false);
       }
+
+      return changes.some(change => {
+        const quake = allEvents.find(event => event.id === change.quakeId);
+        return change.kind === 'added' && quake !== undefined && isSignificantQuake(quake);
+      });
     } catch (err) {
       console.error('Error fetching earthquake data:', err);
       if (!silent) {
-        setError('Gagal mengambil data gempa. Silakan coba lagi.');
+        setError('app.fetchError');
       }
+      return false;
     } finally {
       if (!silent) {
         setLoading(false);
       }
     }
-  }, [lastDataHash, hasNewData]);
+  }, []);
+
+  const refreshSilently = useCallback(() => fetchAllEarthquakeData(true), [fetchAllEarthquakeData]);
+
+  usePolling(refreshSilently, pollInterval, autoUpdate);
+
+  // The other agencies follow the BMKG refreshes; fetchAgencySolutions
+  // throttles them to their own, slower pace
+  useEffect(() => {
+    if (enabledAgencies.length === 0) return;
+    let cancelled = false;
+    Promise.all(enabledAgencies.map(agency => fetchAgencySolutions(quakeProvider, agency)))
+      .then(results => {
+        if (!cancelled) setAgencyResults(Object.fromEntries(results.map(result => [result.agency, result])));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [enabledAgencies, lastUpdated]);
+
+  useEffect(() => {
+    registerServiceWorker(Object.values(quakeProvider.endpoints));
+  }, []);
 
   // Request notification permission
   useEffect(() => {
@@ -204,147 +364,247 @@ function App() {
 
   useEffect(() => {
     fetchAllEarthquakeData();
-    
-    let interval: NodeJS.Timeout;
-    if (autoUpdate) {
-      // Check for updates every 30 seconds silently
-      interval = setInterval(() => {
+  }, [fetchAllEarthquakeData]);
+
+  useEffect(() => {
+    // Catch up as soon as connectivity returns so alerts resume right away
+    const handleOnline = () => {
+      setIsOnline(true);
+      fetchAllEarthquakeData(true);
+    };
+    const handleOffline = () => {
+      setIsOnline(false);
+      requestBackgroundRefresh();
+    };
+    const handleServiceWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'feeds-updated') {
         fetchAllEarthquakeData(true);
-      }, 30000);
-    }
-    
-    const handleOnline = () => setIsOnline(true);
-    const handleOffline = () => setIsOnline(false);
+      }
+    };
     
     window.addEventListener('online', handleOnline);
     window.addEventListener('offline', handleOffline);
+    navigator.serviceWorker?.addEventListener('message', handleServiceWorkerMessage);
     
     return () => {
-      if (interval) clearInterval(interval);
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
+      navigator.serviceWorker?.removeEventListener('message', handleServiceWorkerMessage);
     };
-  }, [autoUpdate, fetchAllEarthquakeData]);
-
-  const getMagnitudeInfo = (magnitude: string) => {
-    const mag = parseFloat(magnitude);
-    if (mag < 5.0) {
-      return {
-        classification: 'Gempa Ringan',
-        color: darkMode ? 'text-green-400' : 'text-green-600',
-        bgColor: darkMode ? 'bg-green-900/20' : 'bg-green-50',
-        borderColor: darkMode ? 'border-green-700' : 'border-green-200',
-        icon: '🟢'
-      };
-    } else if (mag < 6.0) {
-      return {
-        classification: 'Gempa Sedang',
-        color: darkMode ? 'text-yellow-400' : 'text-yellow-600',
-        bgColor: darkMode ? 'bg-yellow-900/20' : 'bg-yellow-50',
-        borderColor: darkMode ? 'border-yellow-700' : 'border-yellow-200',
-        icon: '🟡'
-      };
-    } else {
-      return {
-        classification: 'Gempa Kuat',
-        color: darkMode ? 'text-red-400' : 'text-red-600',
-        bgColor: darkMode ? 'bg-red-900/20' : 'bg-red-50',
-        borderColor: darkMode ? 'border-red-700' : 'border-red-200',
-        icon: '🔴'
-      };
-    }
-  };
+  }, [fetchAllEarthquakeData]);
 
-  const formatDateTime = (date: string, time: string, utcDateTime: string) => {
-    try {
-      const wibTime = `${date}, ${time} WIB`;
-      
-      let utcTime = 'UTC tidak tersedia';
-      if (utcDateTime) {
-        try {
-          const utcDate = new Date(utcDateTime);
-          utcTime = utcDate.toLocaleString('en-US', {
-            timeZone: 'UTC',
-            day: '2-digit',
-            month: 'short',
-            year: 'numeric',
-            hour: '2-digit',
-            minute: '2-digit'
-          }) + ' UTC';
-        } catch {
-          utcTime = utcDateTime;
+  // Merge all three feeds into one list of map markers. The same event often
+  // shows up in several feeds, so they are keyed by their event id.
+  const mapEvents = useMemo(() => {
+    const events = new Map<string, MapEvent>();
+    const addEvent = (quake: Quake, source: MapEvent['sources'][number]) => {
+      const existing = events.get(quake.id);
+      if (existing) {
+        existing.sources.push(source);
+        if (!existing.quake.felt && quake.felt) {
+          existing.quake = quake;
         }
+      } else {
+        events.set(quake.id, { id: quake.id, quake, sources: [source] });
       }
-      
-      return { wib: wibTime, utc: utcTime };
-    } catch {
-      return { wib: `${date}, ${time} WIB`, utc: 'UTC tidak tersedia' };
+    };
+    if (latestEarthquake) {
+      addEvent(latestEarthquake, 'latest');
     }
+    recentEarthquakes.forEach(quake => addEvent(quake, 'recent'));
+    feltEarthquakes.forEach(quake => addEvent(quake, 'felt'));
+    return Array.from(events.values());
+  }, [latestEarthquake, recentEarthquakes, feltEarthquakes]);
+  const liveQuakes = useMemo(() => mapEvents.map(event => event.quake), [mapEvents]);
+  // Across all three feeds, so a list still knows about a mainshock that only
+  // another feed carries
+  const sequences = useMemo(() => detectSequences(liveQuakes), [liveQuakes]);
+  const tsunamiBannerQuakes = useMemo(
+    () => liveQuakes.filter(quake => isTsunamiThreat(quake) && !dismissedTsunamis.includes(tsunamiNoticeKey(quake))),
+    [liveQuakes, dismissedTsunamis]
+  );
+
+  const unreadRecent = recentEarthquakes.filter(quake => getUnseenKind(quake, seenQuakes)).length;
+  const unreadFelt = feltEarthquakes.filter(quake => getUnseenKind(quake, seenQuakes)).length;
+
+  const activeLocation = locations.find(location => location.id === activeLocationId) || null;
+
+  const visibleRecent = useMemo(
+    () => sortQuakes(applyFilters(recentEarthquakes, filters), sort, activeLocation),
+    [recentEarthquakes, filters, sort, activeLocation]
+  );
+  const visibleFelt = useMemo(
+    () => sortQuakes(applyFilters(feltEarthquakes, filters), sort, activeLocation),
+    [feltEarthquakes, filters, sort, activeLocation]
+  );
+  const sortHint = sort === 'distance' && !activeLocation
+    ? t('app.sortHintNoLocation')
+    : null;
+
+  // Distance and compass direction from the selected location to the epicenter
+  const getRelativePosition = (quake: Quake) => {
+    if (!activeLocation) return null;
+    return {
+      distance: formatDistance(distanceKm(activeLocation, quake), language),
+      direction: formatDirection(bearingDeg(activeLocation, quake), language),
+      from: activeLocation.name
+    };
+  };
+
+  // Tabs live on the home route, so picking one also leaves an event page
+  const selectTab = (tab: TabId) => {
+    setActiveTab(tab);
+    navigate('/');
   };
 
-  const getShakemapUrl = (shakemap: string) => {
+  // Modified clicks keep their browser meaning, e.g. opening a new tab
+  const openEvent = (event: MouseEvent, quake: Quake) => {
+    if (event.metaKey || event.ctrlKey || event.shiftKey) return;
+    event.preventDefault();
+    navigate(eventPath(quake.id));
+  };
+
+  const getShakemapUrl = (shakemap: string | null) => {
     if (!shakemap) return null;
-    return `https://data.bmkg.go.id/DataMKG/TEWS/${shakemap}`;
+    return quakeProvider.getShakemapUrl(shakemap);
   };
 
-  const parseCoordinates = (coordinates: string) => {
-    if (!coordinates) return { lat: '', lng: '' };
-    const coords = coordinates.split(',');
-    return {
-      lat: coords[0]?.trim() || '',
-      lng: coords[1]?.trim() || ''
-    };
+  const renderListActions = (quakes: Quake[], name: string) => (
+    <div className="flex flex-wrap items-center justify-between gap-3">
+      <ExportMenu quakes={quakes} name={name} darkMode={darkMode} i18n={i18n} />
+      <button
+        onClick={() => setGroupSequences(!groupSequences)}
+        aria-pressed={groupSequences}
+        className={`flex items-center gap-2 px-3 py-1.5 rounded-xl text-xs sm:text-sm font-medium transition-all duration-300 ${
+          groupSequences
+            ? 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white shadow-lg'
+            : darkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+        }`}
+      >
+        <GitBranch className="h-4 w-4" />
+        {t('sequence.group')}
+      </button>
+    </div>
+  );
+
+  // Cards, with aftershock sequences folded into one group when enabled
+  const renderQuakeList = (quakes: Quake[], showDirasakan: boolean) => {
+    const items: QuakeListItem[] = groupSequences
+      ? groupBySequence(quakes, sequences)
+      : quakes.map(quake => ({ kind: 'quake', quake }));
+    return (
+      <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4 sm:gap-6">
+        {items.map((item, index) => item.kind === 'quake'
+          ? renderEarthquakeCard(item.quake, index, showDirasakan)
+          : (
+            <SequenceGroup
+              key={`sequence-${item.sequence.id}`}
+              sequence={item.sequence}
+              quakes={item.quakes}
+              darkMode={darkMode}
+              i18n={i18n}
+              now={now}
+              renderCard={(quake, cardIndex) => renderEarthquakeCard(quake, cardIndex, showDirasakan)}
+            />
+          ))}
+      </div>
+    );
   };
 
-  const renderEarthquakeCard = (earthquake: RecentEarthquake, index: number, showDirasakan: boolean = false) => {
-    const magnitudeInfo = getMagnitudeInfo(earthquake.Magnitude);
-    const dateTime = formatDateTime(earthquake.Tanggal, earthquake.Jam, earthquake.DateTime);
-    const coordinates = parseCoordinates(earthquake.Coordinates);
+  const renderEarthquakeCard = (earthquake: Quake, index: number, showDirasakan: boolean = false) => {
+    const magnitudeInfo = getMagnitudeInfo(earthquake.magnitude, darkMode);
+    const dateTime = formatEventTime(earthquake, timeZonePreference, language);
+    const relativePosition = getRelativePosition(earthquake);
+    const highlight = highlighted[earthquake.id];
+    const sequence = sequences.get(earthquake.id);
+    const sequenceRole = sequence ? getSequenceRole(earthquake, sequence) : null;
 
     return (
-      <div key={index} className={`${darkMode ? 'bg-gray-800' : 'bg-white'} rounded-xl shadow-lg border ${magnitudeInfo.borderColor} p-6 hover:shadow-xl transition-all duration-300 hover:scale-[1.02]`}>
+      <div key={`${earthquake.id}-${index}`} className={`${darkMode ? 'bg-gray-800' : 'bg-white'} rounded-xl shadow-lg border ${magnitudeInfo.borderColor} p-6 hover:shadow-xl transition-all duration-300 hover:scale-[1.02] ${highlight ? 'ring-2 ring-green-400 ring-offset-2 ring-offset-transparent' : ''}`}>
         <div className="flex items-start justify-between mb-4">
           <div className="flex items-center gap-3">
             <span className="text-2xl">{magnitudeInfo.icon}</span>
             <div>
-              <span className={`font-bold text-lg ${magnitudeInfo.color}`}>M {earthquake.Magnitude}</span>
-              <span className={`text-sm ml-2 ${magnitudeInfo.color} opacity-75`}>({magnitudeInfo.classification})</span>
+              <span className={`font-bold text-lg ${magnitudeInfo.color}`}>M {formatMagnitude(earthquake.magnitude, language)}</span>
+              <span className={`text-sm ml-2 ${magnitudeInfo.color} opacity-75`}>({t(magnitudeInfo.labelKey)})</span>
             </div>
           </div>
-          <span className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'} bg-opacity-50 px-2 py-1 rounded-full ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
-            {dateTime.wib}
-          </span>
+          <div className="flex flex-col items-end gap-1">
+            {highlight && (
+              <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-green-500 text-white">
+                {t(highlight === 'added' ? 'quake.added' : 'quake.revised')}
+              </span>
+            )}
+            {showDirasakan && <IntensityBadge felt={earthquake.felt} i18n={i18n} />}
+            {sequence && sequenceRole && (
+              <span
+                className={`text-xs font-medium px-2 py-0.5 rounded-full ${darkMode ? 'bg-indigo-900/40 text-indigo-300' : 'bg-indigo-50 text-indigo-700'}`}
+                title={t('sequence.badgeTitle', { region: parseRegionName(sequence.mainshock.region), time: formatRelativeTime(sequence.mainshock.time, now, language) })}
+              >
+                {sequenceRole === 'mainshock'
+                  ? t('sequence.mainshock', { count: sequence.events.length })
+                  : t(sequenceRole === 'aftershock' ? 'sequence.aftershockOf' : 'sequence.foreshockOf', { magnitude: formatMagnitude(sequence.mainshock.magnitude, language) })}
+              </span>
+            )}
+            <span
+              className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'} bg-opacity-50 px-2 py-1 rounded-full ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}
+              title={dateTime.secondary.join('\n')}
+            >
+              {dateTime.primary}
+            </span>
+            <span className={`text-xs ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+              {formatRelativeTime(earthquake.time, now, language)}
+            </span>
+          </div>
         </div>
         
         <div className="space-y-3 text-sm">
           <div className="flex items-start gap-3">
             <MapPin className="h-5 w-5 text-red-500 mt-0.5 flex-shrink-0" />
-            <span className={`${darkMode ? 'text-gray-200' : 'text-gray-700'} font-medium`}>{earthquake.Wilayah}</span>
+            <span className={`${darkMode ? 'text-gray-200' : 'text-gray-700'} font-medium`}>{earthquake.region}</span>
           </div>
           
           <div className={`flex items-center gap-6 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
             <span className="flex items-center gap-1">
               <Layers className="h-4 w-4" />
-              {earthquake.Kedalaman}
+              {formatDepth(earthquake.depthKm, language)}
             </span>
             <span className="flex items-center gap-1">
               <Globe className="h-4 w-4" />
-              {coordinates.lat || earthquake.Lintang}, {coordinates.lng || earthquake.Bujur}
+              {formatCoordinates(earthquake.lat, earthquake.lon, language)}
             </span>
           </div>
+
+          {relativePosition && (
+            <div className={`flex items-center gap-3 text-xs ${darkMode ? 'text-teal-400' : 'text-teal-700'}`}>
+              <Navigation className="h-4 w-4 flex-shrink-0" />
+              <span>{t('quake.relativePosition', { distance: relativePosition.distance, direction: relativePosition.direction, place: relativePosition.from })}</span>
+            </div>
+          )}
           
           <div className="flex items-start gap-3">
             <AlertTriangle className="h-5 w-5 text-orange-500 mt-0.5 flex-shrink-0" />
-            <span className={`${darkMode ? 'text-gray-300' : 'text-gray-600'} text-xs`}>{earthquake.Potensi}</span>
+            <span className={`${darkMode ? 'text-gray-300' : 'text-gray-600'} text-xs`}>{earthquake.potensi || t('quake.tsunamiUnavailable')}</span>
           </div>
           
-          {showDirasakan && earthquake.Dirasakan && (
+          {showDirasakan && earthquake.felt && (
             <div className="flex items-start gap-3">
               <Users className="h-5 w-5 text-purple-500 mt-0.5 flex-shrink-0" />
-              <span className={`${darkMode ? 'text-gray-300' : 'text-gray-600'} text-xs`}>{earthquake.Dirasakan}</span>
+              <span className={`${darkMode ? 'text-gray-300' : 'text-gray-600'} text-xs`}>{earthquake.felt}</span>
             </div>
           )}
+
+          <SourceBadges quake={earthquake} darkMode={darkMode} i18n={i18n} />
         </div>
+
+        <a
+          href={eventPath(earthquake.id)}
+          onClick={e => openEvent(e, earthquake)}
+          className="mt-4 inline-flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 transition-colors duration-300"
+        >
+          <ExternalLink className="h-3 w-3" />
+          {t('quake.details')}
+        </a>
       </div>
     );
   };
@@ -359,8 +619,8 @@ function App() {
               <Activity className="h-8 w-8 text-blue-600 absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2" />
             </div>
           </div>
-          <p className={`text-center ${darkMode ? 'text-gray-200' : 'text-gray-600'} font-medium text-lg`}>Mengambil Quakemon load data gempa terbaru...</p>
-          <p className={`text-center ${darkMode ? 'text-gray-400' : 'text-gray-400'} text-sm mt-2`}>Sumber: BMKG XML & JSON</p>
+          <p className={`text-center ${darkMode ? 'text-gray-200' : 'text-gray-600'} font-medium text-lg`}>{t('app.loading')}</p>
+          <p className={`text-center ${darkMode ? 'text-gray-400' : 'text-gray-400'} text-sm mt-2`}>{t('app.loadingSource', { source: quakeProvider.label })}</p>
           <div className="mt-4 flex justify-center">
             <div className="flex space-x-1">
               <div className="w-2 h-2 bg-blue-600 rounded-full animate-bounce"></div>
@@ -380,29 +640,38 @@ function App() {
           <div className="flex items-center justify-center mb-6">
             <WifiOff className="h-16 w-16 text-red-500" />
           </div>
-          <h2 className="text-2xl font-bold text-red-600 text-center mb-4">Koneksi Bermasalah</h2>
-          <p className={`text-center ${darkMode ? 'text-gray-300' : 'text-gray-600'} mb-6`}>{error}</p>
+          <h2 className="text-2xl font-bold text-red-600 text-center mb-4">{t('app.connectionProblem')}</h2>
+          <p className={`text-center ${darkMode ? 'text-gray-300' : 'text-gray-600'} mb-6`}>{t(error)}</p>
           <button
             onClick={() => fetchAllEarthquakeData()}
             className="w-full bg-gradient-to-r from-red-600 to-red-700 text-white py-4 px-6 rounded-xl font-medium hover:from-red-700 hover:to-red-800 transition-all duration-300 flex items-center justify-center gap-3 shadow-lg hover:shadow-xl"
           >
             <RefreshCw className="h-5 w-5" />
-            Coba Lagi
+            {t('app.retry')}
           </button>
         </div>
       </div>
     );
   }
 
-  const magnitudeInfo = latestEarthquake ? getMagnitudeInfo(latestEarthquake.Magnitude) : null;
-  const dateTime = latestEarthquake ? formatDateTime(latestEarthquake.Tanggal, latestEarthquake.Jam, latestEarthquake.DateTime) : null;
-  const shakemapUrl = latestEarthquake ? getShakemapUrl(latestEarthquake.Shakemap) : null;
-  const coordinates = latestEarthquake ? parseCoordinates(latestEarthquake.coordinates) : null;
+  const magnitudeInfo = latestEarthquake ? getMagnitudeInfo(latestEarthquake.magnitude, darkMode) : null;
+  const dateTime = latestEarthquake ? formatEventTime(latestEarthquake, timeZonePreference, language) : null;
+  const shakemapUrl = latestEarthquake ? getShakemapUrl(latestEarthquake.shakemap) : null;
+  const latestRelativePosition = latestEarthquake ? getRelativePosition(latestEarthquake) : null;
 
   return (
     <div className={`min-h-screen transition-colors duration-300 ${darkMode ? 'bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900' : 'bg-gradient-to-br from-slate-50 to-blue-50'}`}>
       {/* Header */}
       <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white'} shadow-xl border-b backdrop-blur-sm bg-opacity-95 sticky top-0 z-50`}>
+        <TsunamiBanner
+          quakes={tsunamiBannerQuakes}
+          i18n={i18n}
+          timeZonePreference={timeZonePreference}
+          now={now}
+          onDismiss={quake => setDismissedTsunamis(current => [...current, tsunamiNoticeKey(quake)])}
+          onDismissAll={() => setDismissedTsunamis(current => [...current, ...tsunamiBannerQuakes.map(tsunamiNoticeKey)])}
+          onOpenEvent={openEvent}
+        />
         <div className="max-w-7xl mx-auto px-4 sm:px-6 py-4 sm:py-6">
           <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
             <div className="flex items-center gap-3 sm:gap-4">
@@ -413,7 +682,7 @@ function App() {
                 Quakemon
                 </h1>
                 <p className={`${darkMode ? 'text-gray-300' : 'text-gray-600'} text-sm sm:text-base lg:text-lg`}>
-                  Data Real-time, Riwayat M≥5.0, dan Gempa Dirasakan
+                  {t('app.subtitle')}
                 </p>
               </div>
             </div>
@@ -421,10 +690,21 @@ function App() {
               {hasNewData && (
                 <div className="flex items-center gap-1 sm:gap-2 px-2 sm:px-4 py-1 sm:py-2 bg-gradient-to-r from-green-500 to-emerald-500 text-white rounded-full text-xs sm:text-sm font-medium animate-pulse shadow-lg">
                   <Zap className="h-3 w-3 sm:h-4 sm:w-4" />
-                  <span className="hidden sm:inline">Data Baru!</span>
-                  <span className="sm:hidden">Baru!</span>
+                  <span className="hidden sm:inline">{t('app.newData')}</span>
+                  <span className="sm:hidden">{t('app.newDataShort')}</span>
                 </div>
               )}
+              <button
+                onClick={() => setShowLocations(!showLocations)}
+                className={`flex items-center gap-1 sm:gap-2 px-2 sm:px-4 py-1 sm:py-2 rounded-xl text-xs sm:text-sm font-medium transition-all duration-300 ${
+                  activeLocation 
+                    ? 'bg-teal-100 text-teal-700 hover:bg-teal-200 dark:bg-teal-900/30 dark:text-teal-400' 
+                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-400'
+                }`}
+              >
+                <MapPin className="h-3 w-3 sm:h-4 sm:w-4" />
+                <span className="max-w-[8rem] truncate">{activeLocation ? activeLocation.name : t('app.location')}</span>
+              </button>
               <button
                 onClick={() => setAutoUpdate(!autoUpdate)}
                 className={`flex items-center gap-1 sm:gap-2 px-2 sm:px-4 py-1 sm:py-2 rounded-xl text-xs sm:text-sm font-medium transition-all duration-300 ${
@@ -434,19 +714,65 @@ function App() {
                 }`}
               >
                 {autoUpdate ? <Bell className="h-3 w-3 sm:h-4 sm:w-4" /> : <BellOff className="h-3 w-3 sm:h-4 sm:w-4" />}
-                <span className="hidden sm:inline">Auto Update</span>
-                <span className="sm:hidden">Auto</span>
+                <span className="hidden sm:inline">{t('app.autoUpdate')}</span>
+                <span className="sm:hidden">{t('app.autoUpdateShort')}</span>
               </button>
+              {autoUpdate && (
+                <label className={`flex items-center gap-1 sm:gap-2 px-2 sm:px-3 py-1 sm:py-2 rounded-xl text-xs sm:text-sm font-medium ${darkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-600'}`}>
+                  <Timer className="h-3 w-3 sm:h-4 sm:w-4" />
+                  <select
+                    value={pollInterval}
+                    onChange={e => setPollInterval(Number(e.target.value))}
+                    className="bg-transparent focus:outline-none cursor-pointer"
+                    aria-label={t('app.pollInterval')}
+                  >
+                    {POLL_INTERVALS_MS.map(option => (
+                      <option key={option} value={option} className="text-gray-900">
+                        {option < 60000
+                          ? t('app.pollSeconds', { count: option / 1000 })
+                          : t('app.pollMinutes', { count: option / 60000 })}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
               <div className={`flex items-center gap-1 sm:gap-2 px-2 sm:px-4 py-1 sm:py-2 rounded-xl text-xs sm:text-sm font-medium ${
                 isOnline 
                   ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400' 
                   : 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'
               }`}>
                 {isOnline ? <Wifi className="h-3 w-3 sm:h-4 sm:w-4" /> : <WifiOff className="h-3 w-3 sm:h-4 sm:w-4" />}
-                <span className="hidden sm:inline">{isOnline ? 'Online' : 'Offline'}</span>
+                <span className="hidden sm:inline">{t(isOnline ? 'app.online' : 'app.offline')}</span>
               </div>
+              <label className={`flex items-center gap-1 sm:gap-2 px-2 sm:px-3 py-1 sm:py-2 rounded-xl text-xs sm:text-sm font-medium ${darkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-600'}`}>
+                <Languages className="h-3 w-3 sm:h-4 sm:w-4" />
+                <select
+                  value={language}
+                  onChange={e => setLanguage(e.target.value as Language)}
+                  className="bg-transparent focus:outline-none cursor-pointer"
+                  aria-label={t('app.language')}
+                >
+                  {LANGUAGES.map(option => (
+                    <option key={option} value={option} className="text-gray-900">{LANGUAGE_NAMES[option]}</option>
+                  ))}
+                </select>
+              </label>
+              <label className={`flex items-center gap-1 sm:gap-2 px-2 sm:px-3 py-1 sm:py-2 rounded-xl text-xs sm:text-sm font-medium ${darkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-600'}`}>
+                <Clock className="h-3 w-3 sm:h-4 sm:w-4" />
+                <select
+                  value={timeZonePreference}
+                  onChange={e => setTimeZonePreference(e.target.value as TimeZonePreference)}
+                  className="bg-transparent focus:outline-none cursor-pointer"
+                  aria-label={t('time.zonePreference')}
+                >
+                  {TIME_ZONE_PREFERENCES.map(option => (
+                    <option key={option} value={option} className="text-gray-900">{t(TIME_ZONE_LABELS[option])}</option>
+                  ))}
+                </select>
+              </label>
               <button
                 onClick={() => setDarkMode(!darkMode)}
+                aria-label={t('app.darkMode')}
                 className={`p-2 sm:p-3 rounded-xl transition-all duration-300 ${
                   darkMode 
                     ? 'bg-yellow-500 text-white hover:bg-yellow-600 shadow-lg' 
@@ -458,6 +784,7 @@ function App() {
               <button
                 onClick={() => fetchAllEarthquakeData()}
                 disabled={loading}
+                aria-label={t('app.refresh')}
                 className="bg-gradient-to-r from-blue-600 to-indigo-600 text-white p-2 sm:p-3 rounded-xl hover:from-blue-700 hover:to-indigo-700 transition-all duration-300 disabled:opacity-50 shadow-lg hover:shadow-xl"
               >
                 <RefreshCw className={`h-4 w-4 sm:h-5 sm:w-5 ${loading ? 'animate-spin' : ''}`} />
@@ -467,11 +794,47 @@ function App() {
         </div>
       </div>
 
+      {/* Stale Data Banner */}
+      {dataAsOf && (
+        <div className="bg-amber-500 text-white">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 py-2 sm:py-3 flex items-center gap-3 text-xs sm:text-sm font-medium">
+            <CloudOff className="h-4 w-4 sm:h-5 sm:w-5 flex-shrink-0" />
+            <span>
+              {t('app.staleNotice', {
+                reason: t(isOnline ? 'app.staleUnreachable' : 'app.staleOffline'),
+                time: formatTimestamp(dataAsOf, language)
+              })}
+            </span>
+          </div>
+        </div>
+      )}
+
       {/* Navigation Tabs */}
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-4 sm:py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-4 sm:py-6 space-y-4 sm:space-y-6">
+        <FeedHealthPanel
+          health={feedHealth}
+          agencies={enabledAgencies}
+          agencyResults={agencyResults}
+          onAgenciesChange={setEnabledAgencies}
+          darkMode={darkMode}
+          i18n={i18n}
+          now={now}
+        />
+
+        {showLocations && (
+          <LocationManager
+            locations={locations}
+            activeLocationId={activeLocationId}
+            onLocationsChange={setLocations}
+            onActiveLocationChange={setActiveLocationId}
+            darkMode={darkMode}
+            i18n={i18n}
+          />
+        )}
+
         <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white'} rounded-2xl shadow-xl p-2 flex flex-col sm:flex-row gap-2 border backdrop-blur-sm bg-opacity-95`}>
           <button
-            onClick={() => setActiveTab('latest')}
+            onClick={() => selectTab('latest')}
             className={`flex-1 flex items-center justify-center gap-2 sm:gap-3 py-3 sm:py-4 px-4 sm:px-6 rounded-xl font-semibold transition-all duration-300 text-sm sm:text-base ${
               activeTab === 'latest' 
                 ? 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white shadow-lg transform scale-[1.02]' 
@@ -479,11 +842,11 @@ function App() {
             }`}
           >
             <Activity className="h-4 w-4 sm:h-5 sm:w-5" />
-            <span className="hidden sm:inline">Gempa Terbaru</span>
-            <span className="sm:hidden">Terbaru</span>
+            <span className="hidden sm:inline">{t('tabs.latest')}</span>
+            <span className="sm:hidden">{t('tabs.latestShort')}</span>
           </button>
           <button
-            onClick={() => setActiveTab('recent')}
+            onClick={() => selectTab('recent')}
             className={`flex-1 flex items-center justify-center gap-2 sm:gap-3 py-3 sm:py-4 px-4 sm:px-6 rounded-xl font-semibold transition-all duration-300 text-sm sm:text-base ${
               activeTab === 'recent' 
                 ? 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white shadow-lg transform scale-[1.02]' 
@@ -491,16 +854,16 @@ function App() {
             }`}
           >
             <TrendingUp className="h-4 w-4 sm:h-5 sm:w-5" />
-            <span className="hidden sm:inline">15 Gempa M≥5.0</span>
-            <span className="sm:hidden">M≥5.0</span>
-            {recentEarthquakes.length > 0 && (
-              <span className="bg-red-500 text-white text-xs px-1.5 sm:px-2 py-0.5 sm:py-1 rounded-full">
-                {recentEarthquakes.length}
+            <span className="hidden sm:inline">{t('tabs.recent')}</span>
+            <span className="sm:hidden">{t('tabs.recentShort')}</span>
+            {unreadRecent > 0 && (
+              <span className="bg-red-500 text-white text-xs px-1.5 sm:px-2 py-0.5 sm:py-1 rounded-full" title={t('tabs.unread')}>
+                {unreadRecent}
               </span>
             )}
           </button>
           <button
-            onClick={() => setActiveTab('felt')}
+            onClick={() => selectTab('felt')}
             className={`flex-1 flex items-center justify-center gap-2 sm:gap-3 py-3 sm:py-4 px-4 sm:px-6 rounded-xl font-semibold transition-all duration-300 text-sm sm:text-base ${
               activeTab === 'felt' 
                 ? 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white shadow-lg transform scale-[1.02]' 
@@ -508,20 +871,104 @@ function App() {
             }`}
           >
             <Heart className="h-4 w-4 sm:h-5 sm:w-5" />
-            <span className="hidden sm:inline">15 Gempa Dirasakan</span>
-            <span className="sm:hidden">Dirasakan</span>
-            {feltEarthquakes.length > 0 && (
-              <span className="bg-purple-500 text-white text-xs px-1.5 sm:px-2 py-0.5 sm:py-1 rounded-full">
-                {feltEarthquakes.length}
+            <span className="hidden sm:inline">{t('tabs.felt')}</span>
+            <span className="sm:hidden">{t('tabs.feltShort')}</span>
+            {unreadFelt > 0 && (
+              <span className="bg-purple-500 text-white text-xs px-1.5 sm:px-2 py-0.5 sm:py-1 rounded-full" title={t('tabs.unread')}>
+                {unreadFelt}
               </span>
             )}
           </button>
+          <button
+            onClick={() => selectTab('map')}
+            className={`flex-1 flex items-center justify-center gap-2 sm:gap-3 py-3 sm:py-4 px-4 sm:px-6 rounded-xl font-semibold transition-all duration-300 text-sm sm:text-base ${
+              activeTab === 'map' 
+                ? 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white shadow-lg transform scale-[1.02]' 
+                : `${darkMode ? 'text-gray-300 hover:text-white hover:bg-gray-700' : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'}`
+            }`}
+          >
+            <MapIcon className="h-4 w-4 sm:h-5 sm:w-5" />
+            <span>{t('tabs.map')}</span>
+          </button>
+          <button
+            onClick={() => selectTab('history')}
+            className={`flex-1 flex items-center justify-center gap-2 sm:gap-3 py-3 sm:py-4 px-4 sm:px-6 rounded-xl font-semibold transition-all duration-300 text-sm sm:text-base ${
+              activeTab === 'history' 
+                ? 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white shadow-lg transform scale-[1.02]' 
+                : `${darkMode ? 'text-gray-300 hover:text-white hover:bg-gray-700' : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'}`
+            }`}
+          >
+            <History className="h-4 w-4 sm:h-5 sm:w-5" />
+            <span>{t('tabs.history')}</span>
+          </button>
+          <button
+            onClick={() => selectTab('stats')}
+            className={`flex-1 flex items-center justify-center gap-2 sm:gap-3 py-3 sm:py-4 px-4 sm:px-6 rounded-xl font-semibold transition-all duration-300 text-sm sm:text-base ${
+              activeTab === 'stats' 
+                ? 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white shadow-lg transform scale-[1.02]' 
+                : `${darkMode ? 'text-gray-300 hover:text-white hover:bg-gray-700' : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'}`
+            }`}
+          >
+            <BarChart3 className="h-4 w-4 sm:h-5 sm:w-5" />
+            <span>{t('tabs.stats')}</span>
+          </button>
+          <button
+            onClick={() => selectTab('alerts')}
+            className={`flex-1 flex items-center justify-center gap-2 sm:gap-3 py-3 sm:py-4 px-4 sm:px-6 rounded-xl font-semibold transition-all duration-300 text-sm sm:text-base ${
+              activeTab === 'alerts' 
+                ? 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white shadow-lg transform scale-[1.02]' 
+                : `${darkMode ? 'text-gray-300 hover:text-white hover:bg-gray-700' : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'}`
+            }`}
+          >
+            <BellRing className="h-4 w-4 sm:h-5 sm:w-5" />
+            <span>{t('tabs.alerts')}</span>
+          </button>
+          <button
+            onClick={() => selectTab('tsunami')}
+            className={`flex-1 flex items-center justify-center gap-2 sm:gap-3 py-3 sm:py-4 px-4 sm:px-6 rounded-xl font-semibold transition-all duration-300 text-sm sm:text-base ${
+              activeTab === 'tsunami' 
+                ? 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white shadow-lg transform scale-[1.02]' 
+                : `${darkMode ? 'text-gray-300 hover:text-white hover:bg-gray-700' : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'}`
+            }`}
+          >
+            <Waves className="h-4 w-4 sm:h-5 sm:w-5" />
+            <span>{t('tabs.tsunami')}</span>
+          </button>
+          <button
+            onClick={() => selectTab('playback')}
+            className={`flex-1 flex items-center justify-center gap-2 sm:gap-3 py-3 sm:py-4 px-4 sm:px-6 rounded-xl font-semibold transition-all duration-300 text-sm sm:text-base ${
+              activeTab === 'playback' 
+                ? 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white shadow-lg transform scale-[1.02]' 
+                : `${darkMode ? 'text-gray-300 hover:text-white hover:bg-gray-700' : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'}`
+            }`}
+          >
+            <Film className="h-4 w-4 sm:h-5 sm:w-5" />
+            <span>{t('tabs.playback')}</span>
+          </button>
         </div>
       </div>
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 pb-8">
-        {activeTab === 'latest' && latestEarthquake && magnitudeInfo && dateTime && coordinates && (
+        {route.name === 'event' && (
+          // Keyed so moving to another event (e.g. a nearby one) starts from
+          // empty state instead of showing the previous event's archive copy
+          <EventDetail
+            key={route.id}
+            eventId={route.id}
+            liveEvents={liveQuakes}
+            darkMode={darkMode}
+            i18n={i18n}
+            timeZonePreference={timeZonePreference}
+            now={now}
+            getShakemapUrl={getShakemapUrl}
+            getRelativePosition={getRelativePosition}
+            renderCard={(quake, index) => renderEarthquakeCard(quake, index, true)}
+            onBack={() => navigate('/')}
+          />
+        )}
+
+        {route.name === 'home' && activeTab === 'latest' && latestEarthquake && magnitudeInfo && dateTime && (
           <div className="space-y-8">
             {/* Latest Earthquake Card */}
             <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white'} rounded-3xl shadow-2xl border-2 ${magnitudeInfo.borderColor} overflow-hidden backdrop-blur-sm bg-opacity-95`}>
@@ -531,18 +978,28 @@ function App() {
                     <span className="text-4xl">{magnitudeInfo.icon}</span>
                     <div>
                       <h2 className={`text-2xl font-bold ${magnitudeInfo.color}`}>
-                        {magnitudeInfo.classification}
+                        {t(magnitudeInfo.labelKey)}
                       </h2>
                       <p className={`text-lg ${magnitudeInfo.color} opacity-75`}>
-                        Magnitudo {latestEarthquake.Magnitude}
+                        {t('magnitude.label', { magnitude: formatMagnitude(latestEarthquake.magnitude, language) })}
                       </p>
+                      <IntensityBadge felt={latestEarthquake.felt} i18n={i18n} className="mt-1" />
+                      <SourceBadges quake={latestEarthquake} darkMode={darkMode} i18n={i18n} className="mt-1 ml-1" />
                     </div>
                   </div>
                   <div className="text-right">
-                    <p className={`text-sm ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}>Terakhir Update</p>
+                    <p className={`text-sm ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}>{t('quake.lastUpdate')}</p>
                     <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                      {lastUpdated?.toLocaleTimeString('id-ID')}
+                      {lastUpdated && formatClock(lastUpdated, language)}
                     </p>
+                    <a
+                      href={eventPath(latestEarthquake.id)}
+                      onClick={e => openEvent(e, latestEarthquake)}
+                      className="mt-2 inline-flex items-center gap-1 text-xs sm:text-sm font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 transition-colors duration-300"
+                    >
+                      <ExternalLink className="h-3 w-3 sm:h-4 sm:w-4" />
+                      {t('quake.detailsAndShare')}
+                    </a>
                   </div>
                 </div>
               </div>
@@ -554,34 +1011,39 @@ function App() {
                     <div className="flex items-start gap-4">
                       <MapPin className="h-6 w-6 text-red-500 mt-1 flex-shrink-0" />
                       <div>
-                        <p className={`font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} text-base sm:text-lg`}>Lokasi</p>
-                        <p className={`${darkMode ? 'text-gray-300' : 'text-gray-700'} text-sm sm:text-lg`}>{latestEarthquake.Wilayah}</p>
+                        <p className={`font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} text-base sm:text-lg`}>{t('quake.location')}</p>
+                        <p className={`${darkMode ? 'text-gray-300' : 'text-gray-700'} text-sm sm:text-lg`}>{latestEarthquake.region}</p>
                       </div>
                     </div>
 
                     <div className="flex items-start gap-4">
                       <Clock className="h-6 w-6 text-blue-500 mt-1 flex-shrink-0" />
                       <div>
-                        <p className={`font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} text-base sm:text-lg`}>Waktu Kejadian</p>
-                        <p className={`${darkMode ? 'text-gray-300' : 'text-gray-700'} text-sm sm:text-lg`}>{dateTime.wib}</p>
-                        <p className={`${darkMode ? 'text-gray-400' : 'text-gray-500'} text-xs sm:text-sm`}>{dateTime.utc}</p>
+                        <p className={`font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} text-base sm:text-lg`}>{t('quake.time')}</p>
+                        <p className={`${darkMode ? 'text-gray-300' : 'text-gray-700'} text-sm sm:text-lg`}>
+                          {dateTime.primary}
+                          <span className={`ml-2 ${darkMode ? 'text-gray-400' : 'text-gray-500'} text-xs sm:text-sm`}>({formatRelativeTime(latestEarthquake.time, now, language)})</span>
+                        </p>
+                        {dateTime.secondary.map(line => (
+                          <p key={line} className={`${darkMode ? 'text-gray-400' : 'text-gray-500'} text-xs sm:text-sm`}>{line}</p>
+                        ))}
                       </div>
                     </div>
 
                     <div className="flex items-start gap-4">
                       <Layers className="h-6 w-6 text-green-500 mt-1 flex-shrink-0" />
                       <div>
-                        <p className={`font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} text-base sm:text-lg`}>Kedalaman</p>
-                        <p className={`${darkMode ? 'text-gray-300' : 'text-gray-700'} text-sm sm:text-lg`}>{latestEarthquake.Kedalaman}</p>
+                        <p className={`font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} text-base sm:text-lg`}>{t('quake.depth')}</p>
+                        <p className={`${darkMode ? 'text-gray-300' : 'text-gray-700'} text-sm sm:text-lg`}>{formatDepth(latestEarthquake.depthKm, language)}</p>
                       </div>
                     </div>
 
-                    {latestEarthquake.Dirasakan && (
+                    {latestEarthquake.felt && (
                       <div className="flex items-start gap-4">
                         <Users className="h-6 w-6 text-purple-500 mt-1 flex-shrink-0" />
                         <div>
-                          <p className={`font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} text-base sm:text-lg`}>Dirasakan</p>
-                          <p className={`${darkMode ? 'text-gray-300' : 'text-gray-700'} text-xs sm:text-sm`}>{latestEarthquake.Dirasakan}</p>
+                          <p className={`font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} text-base sm:text-lg`}>{t('quake.felt')}</p>
+                          <FeltReportTable felt={latestEarthquake.felt} darkMode={darkMode} i18n={i18n} />
                         </div>
                       </div>
                     )}
@@ -592,32 +1054,30 @@ function App() {
                     <div className="flex items-start gap-4">
                       <Globe className="h-6 w-6 text-indigo-500 mt-1 flex-shrink-0" />
                       <div>
-                        <p className={`font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} text-base sm:text-lg`}>Koordinat</p>
-                        {coordinates.lat && coordinates.lng ? (
-                          <>
-                            <p className={`${darkMode ? 'text-gray-300' : 'text-gray-700'} text-sm sm:text-lg`}>{coordinates.lat}°</p>
-                            <p className={`${darkMode ? 'text-gray-300' : 'text-gray-700'} text-sm sm:text-lg`}>{coordinates.lng}°</p>
-                            <p className={`${darkMode ? 'text-gray-400' : 'text-gray-500'} text-sm`}>({latestEarthquake.coordinates})</p>
-                          </>
-                        ) : (
-                          <>
-                            <p className={`${darkMode ? 'text-gray-300' : 'text-gray-700'} text-sm sm:text-lg`}>{latestEarthquake.Lintang}</p>
-                            <p className={`${darkMode ? 'text-gray-300' : 'text-gray-700'} text-sm sm:text-lg`}>{latestEarthquake.Bujur}</p>
-                          </>
-                        )}
+                        <p className={`font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} text-base sm:text-lg`}>{t('quake.coordinates')}</p>
+                        <p className={`${darkMode ? 'text-gray-300' : 'text-gray-700'} text-sm sm:text-lg`}>{formatLatitude(latestEarthquake.lat, language)}</p>
+                        <p className={`${darkMode ? 'text-gray-300' : 'text-gray-700'} text-sm sm:text-lg`}>{formatLongitude(latestEarthquake.lon, language)}</p>
+                        <p className={`${darkMode ? 'text-gray-400' : 'text-gray-500'} text-sm`}>({latestEarthquake.lat}, {latestEarthquake.lon})</p>
                       </div>
                     </div>
 
+                    {latestRelativePosition && (
+                      <div className="flex items-start gap-4">
+                        <Navigation className="h-6 w-6 text-teal-500 mt-1 flex-shrink-0" />
+                        <div>
+                          <p className={`font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} text-base sm:text-lg`}>{t('quake.distanceFrom', { place: latestRelativePosition.from })}</p>
+                          <p className={`${darkMode ? 'text-gray-300' : 'text-gray-700'} text-sm sm:text-lg`}>{latestRelativePosition.distance}</p>
+                          <p className={`${darkMode ? 'text-gray-400' : 'text-gray-500'} text-xs sm:text-sm`}>{t('quake.direction', { direction: latestRelativePosition.direction })}</p>
+                        </div>
+                      </div>
+                    )}
+
                     <div className="flex items-start gap-4">
                       <AlertTriangle className="h-6 w-6 text-orange-500 mt-1 flex-shrink-0" />
                       <div>
-                        <p className={`font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} text-base sm:text-lg`}>Potensi Tsunami</p>
-                        <span className={`inline-block px-3 sm:px-4 py-1.5 sm:py-2 rounded-xl text-xs sm:text-sm font-medium ${
-                          latestEarthquake.Potensi.toLowerCase().includes('tidak') 
-                            ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400' 
-                            : 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400'
-                        }`}>
-                          {latestEarthquake.Potensi}
+                        <p className={`font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} text-base sm:text-lg`}>{t('quake.tsunami')}</p>
+                        <span className={`inline-block px-3 sm:px-4 py-1.5 sm:py-2 rounded-xl text-xs sm:text-sm font-medium ${getTsunamiBadgeClass(latestEarthquake)}`}>
+                          {latestEarthquake.potensi || t('quake.infoUnavailable')}
                         </span>
                       </div>
                     </div>
@@ -626,125 +1086,258 @@ function App() {
                       <div className="flex items-start gap-4">
                         <Camera className="h-6 w-6 text-purple-500 mt-1 flex-shrink-0" />
                         <div>
-                          <p className={`font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} text-base sm:text-lg`}>Shakemap</p>
+                          <p className={`font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} text-base sm:text-lg`}>{t('quake.shakemap')}</p>
                           <a
                             href={shakemapUrl}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 underline break-all transition-colors duration-300 text-xs sm:text-sm"
                           >
-                            Lihat Peta Guncangan
+                            {t('quake.viewShakemap')}
                           </a>
                         </div>
                       </div>
                     )}
                   </div>
                 </div>
+
+                {latestEarthquake.solutions && latestEarthquake.solutions.length > 0 && (
+                  <div className={`mt-8 pt-6 border-t ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                    <p className={`font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} text-base sm:text-lg mb-2 flex items-center gap-2`}>
+                      <Scale className="h-5 w-5 text-blue-500" />
+                      {t('agencies.comparisonTitle')}
+                    </p>
+                    <AgencyComparison quake={latestEarthquake} darkMode={darkMode} i18n={i18n} />
+                  </div>
+                )}
+
+                <div className={`mt-8 pt-6 border-t ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                  <ExportMenu quakes={[latestEarthquake]} name="latest" darkMode={darkMode} i18n={i18n} />
+                </div>
               </div>
             </div>
 
             {/* Shakemap Image */}
-            {shakemapUrl && (
+            {latestEarthquake.shakemap && shakemapUrl && (
               <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white'} rounded-3xl shadow-2xl p-8 border backdrop-blur-sm bg-opacity-95`}>
                 <h3 className={`text-2xl font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} mb-6 flex items-center gap-3`}>
                   <Camera className="h-6 w-6 text-purple-500" />
-                  Peta Guncangan (Shakemap)
+                  {t('quake.shakemapTitle')}
                 </h3>
-                <div className="rounded-2xl overflow-hidden border shadow-lg">
-                  <img
-                    src={shakemapUrl}
-                    alt="Shakemap Gempa"
-                    className="w-full h-auto"
-                    onError={(e) => {
-                      const target = e.target as HTMLImageElement;
-                      target.style.display = 'none';
-                    }}
-                  />
-                </div>
+                <ShakemapViewer
+                  shakemap={latestEarthquake.shakemap}
+                  url={shakemapUrl}
+                  alt={t('quake.shakemapAlt', { region: latestEarthquake.region })}
+                  darkMode={darkMode}
+                  i18n={i18n}
+                />
 {/*                 <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'} mt-4`}>
                   URL: {shakemapUrl}
                 </p> */}
               </div>
             )}
+
+            <ChangeLog changes={changelog} darkMode={darkMode} i18n={i18n} />
           </div>
         )}
 
-        {activeTab === 'recent' && (
+        {route.name === 'home' && activeTab === 'recent' && (
           <div className="space-y-8">
             <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white'} rounded-3xl shadow-2xl p-8 border backdrop-blur-sm bg-opacity-95`}>
               <h3 className={`text-2xl font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} mb-4 flex items-center gap-3`}>
                 <TrendingUp className="h-6 w-6 text-blue-500" />
-                15 Gempa M≥5.0 Terbaru
+                {t('list.recentTitle')}
               </h3>
               <p className={`${darkMode ? 'text-gray-300' : 'text-gray-600'} mb-8 text-lg`}>
-                Daftar gempa dengan magnitudo 5.0 atau lebih yang tercatat BMKG
+                {t('list.recentDescription')}
               </p>
+              {feedHealth.recent.status === 'error' && (
+                <p className="-mt-4 mb-8 flex items-center gap-2 text-sm text-red-500">
+                  <CloudOff className="h-4 w-4 flex-shrink-0" />
+                  {feedHealth.recent.lastSuccess
+                    ? t('health.staleList', { file: feedHealth.recent.file, time: formatRelativeTime(feedHealth.recent.lastSuccess, now, language) })
+                    : t('health.unavailableList', { file: feedHealth.recent.file })}
+                </p>
+              )}
               
-              {recentEarthquakes.length > 0 ? (
-                <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4 sm:gap-6">
-                  {recentEarthquakes.map((earthquake, index) => 
-                    renderEarthquakeCard(earthquake, index, false)
-                  )}
+              <FilterBar
+                filters={filters}
+                sort={sort}
+                onFiltersChange={setFilters}
+                onSortChange={setSort}
+                shownCount={visibleRecent.length}
+                totalCount={recentEarthquakes.length}
+                darkMode={darkMode}
+                i18n={i18n}
+                sortHint={sortHint}
+                actions={renderListActions(visibleRecent, 'recent')}
+              />
+
+              {visibleRecent.length > 0 ? (
+                renderQuakeList(visibleRecent, false)
+              ) : recentEarthquakes.length > 0 ? (
+                <div className="text-center py-16">
+                  <List className={`h-16 w-16 ${darkMode ? 'text-gray-600' : 'text-gray-400'} mx-auto mb-6`} />
+                  <p className={`${darkMode ? 'text-gray-400' : 'text-gray-500'} text-lg`}>{t('list.noMatch')}</p>
                 </div>
               ) : (
                 <div className="text-center py-16">
                   <List className={`h-16 w-16 ${darkMode ? 'text-gray-600' : 'text-gray-400'} mx-auto mb-6`} />
-                  <p className={`${darkMode ? 'text-gray-400' : 'text-gray-500'} text-lg`}>Data gempa M≥5.0 tidak tersedia</p>
+                  <p className={`${darkMode ? 'text-gray-400' : 'text-gray-500'} text-lg`}>{t('list.recentEmpty')}</p>
                 </div>
               )}
             </div>
           </div>
         )}
 
-        {activeTab === 'felt' && (
+        {route.name === 'home' && activeTab === 'felt' && (
           <div className="space-y-8">
             <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white'} rounded-3xl shadow-2xl p-8 border backdrop-blur-sm bg-opacity-95`}>
               <h3 className={`text-2xl font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} mb-4 flex items-center gap-3`}>
                 <Heart className="h-6 w-6 text-red-500" />
-                15 Gempa Dirasakan Terbaru
+                {t('list.feltTitle')}
               </h3>
               <p className={`${darkMode ? 'text-gray-300' : 'text-gray-600'} mb-8 text-lg`}>
-                Daftar gempa yang dirasakan masyarakat berdasarkan laporan BMKG
+                {t('list.feltDescription')}
               </p>
+              {feedHealth.felt.status === 'error' && (
+                <p className="-mt-4 mb-8 flex items-center gap-2 text-sm text-red-500">
+                  <CloudOff className="h-4 w-4 flex-shrink-0" />
+                  {feedHealth.felt.lastSuccess
+                    ? t('health.staleList', { file: feedHealth.felt.file, time: formatRelativeTime(feedHealth.felt.lastSuccess, now, language) })
+                    : t('health.unavailableList', { file: feedHealth.felt.file })}
+                </p>
+              )}
               
-              {feltEarthquakes.length > 0 ? (
-                <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4 sm:gap-6">
-                  {feltEarthquakes.map((earthquake, index) => 
-                    renderEarthquakeCard(earthquake, index, true)
-                  )}
+              <FilterBar
+                filters={filters}
+                sort={sort}
+                onFiltersChange={setFilters}
+                onSortChange={setSort}
+                shownCount={visibleFelt.length}
+                totalCount={feltEarthquakes.length}
+                darkMode={darkMode}
+                i18n={i18n}
+                sortHint={sortHint}
+                actions={renderListActions(visibleFelt, 'felt')}
+              />
+
+              {visibleFelt.length > 0 ? (
+                renderQuakeList(visibleFelt, true)
+              ) : feltEarthquakes.length > 0 ? (
+                <div className="text-center py-16">
+                  <Users className={`h-16 w-16 ${darkMode ? 'text-gray-600' : 'text-gray-400'} mx-auto mb-6`} />
+                  <p className={`${darkMode ? 'text-gray-400' : 'text-gray-500'} text-lg`}>{t('list.noMatch')}</p>
                 </div>
               ) : (
                 <div className="text-center py-16">
                   <Users className={`h-16 w-16 ${darkMode ? 'text-gray-600' : 'text-gray-400'} mx-auto mb-6`} />
-                  <p className={`${darkMode ? 'text-gray-400' : 'text-gray-500'} text-lg`}>Data gempa dirasakan tidak tersedia</p>
+                  <p className={`${darkMode ? 'text-gray-400' : 'text-gray-500'} text-lg`}>{t('list.feltEmpty')}</p>
                 </div>
               )}
             </div>
           </div>
         )}
 
+        {route.name === 'home' && activeTab === 'map' && (
+          <div className="space-y-8">
+            <EarthquakeMap
+              events={mapEvents}
+              darkMode={darkMode}
+              i18n={i18n}
+              renderDetails={quake => renderEarthquakeCard(quake, 0, true)}
+            />
+            <ShakemapGallery
+              events={liveQuakes}
+              darkMode={darkMode}
+              i18n={i18n}
+              timeZonePreference={timeZonePreference}
+              archiveVersion={archiveVersion}
+              getShakemapUrl={getShakemapUrl}
+              onOpenEvent={openEvent}
+            />
+          </div>
+        )}
+
+        {route.name === 'home' && activeTab === 'history' && (
+          <div className="space-y-8">
+            <HistoryPanel
+              darkMode={darkMode}
+              i18n={i18n}
+              archiveVersion={archiveVersion}
+              renderCard={(quake, index) => renderEarthquakeCard(quake, index, true)}
+            />
+          </div>
+        )}
+
+        {route.name === 'home' && activeTab === 'stats' && (
+          <StatisticsPanel
+            events={liveQuakes}
+            darkMode={darkMode}
+            i18n={i18n}
+            archiveVersion={archiveVersion}
+          />
+        )}
+
+        {route.name === 'home' && activeTab === 'tsunami' && (
+          <TsunamiPanel
+            events={liveQuakes}
+            settings={tsunamiSettings}
+            onSettingsChange={setTsunamiSettings}
+            darkMode={darkMode}
+            i18n={i18n}
+            archiveVersion={archiveVersion}
+            renderCard={(quake, index) => renderEarthquakeCard(quake, index, true)}
+          />
+        )}
+
+        {route.name === 'home' && activeTab === 'playback' && (
+          <PlaybackPanel
+            events={liveQuakes}
+            darkMode={darkMode}
+            i18n={i18n}
+            timeZonePreference={timeZonePreference}
+            archiveVersion={archiveVersion}
+          />
+        )}
+
+        {route.name === 'home' && activeTab === 'alerts' && (
+          <AlertRulesPanel
+            rules={alertRules}
+            onRulesChange={setAlertRules}
+            log={alertLog}
+            onClearLog={() => {
+              clearAlertLog();
+              setAlertLog([]);
+            }}
+            locations={locations}
+            darkMode={darkMode}
+            i18n={i18n}
+          />
+        )}
+
         {/* Classification Guide */}
         <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white'} rounded-3xl shadow-2xl p-8 mt-8 border backdrop-blur-sm bg-opacity-95`}>
-          <h3 className={`text-xl sm:text-2xl font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} mb-4 sm:mb-6`}>Klasifikasi Magnitudo</h3>
+          <h3 className={`text-xl sm:text-2xl font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} mb-4 sm:mb-6`}>{t('magnitude.guide')}</h3>
           <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 sm:gap-6">
             <div className={`flex items-center gap-3 sm:gap-4 p-4 sm:p-6 ${darkMode ? 'bg-green-900/20 border-green-700' : 'bg-green-50 border-green-200'} rounded-2xl border`}>
               <span className="text-3xl">🟢</span>
               <div>
-                <p className={`font-semibold text-base sm:text-lg ${darkMode ? 'text-green-400' : 'text-green-800'}`}>Gempa Ringan</p>
+                <p className={`font-semibold text-base sm:text-lg ${darkMode ? 'text-green-400' : 'text-green-800'}`}>{t('magnitude.light')}</p>
                 <p className={`text-sm sm:text-base ${darkMode ? 'text-green-300' : 'text-green-600'}`}>M &lt; 5.0</p>
               </div>
             </div>
             <div className={`flex items-center gap-3 sm:gap-4 p-4 sm:p-6 ${darkMode ? 'bg-yellow-900/20 border-yellow-700' : 'bg-yellow-50 border-yellow-200'} rounded-2xl border`}>
               <span className="text-3xl">🟡</span>
               <div>
-                <p className={`font-semibold text-base sm:text-lg ${darkMode ? 'text-yellow-400' : 'text-yellow-800'}`}>Gempa Sedang</p>
+                <p className={`font-semibold text-base sm:text-lg ${darkMode ? 'text-yellow-400' : 'text-yellow-800'}`}>{t('magnitude.moderate')}</p>
                 <p className={`text-sm sm:text-base ${darkMode ? 'text-yellow-300' : 'text-yellow-600'}`}>5.0 &le; M &lt; 6.0</p>
               </div>
             </div>
             <div className={`flex items-center gap-3 sm:gap-4 p-4 sm:p-6 ${darkMode ? 'bg-red-900/20 border-red-700' : 'bg-red-50 border-red-200'} rounded-2xl border`}>
               <span className="text-3xl">🔴</span>
               <div>
-                <p className={`font-semibold text-base sm:text-lg ${darkMode ? 'text-red-400' : 'text-red-800'}`}>Gempa Kuat</p>
+                <p className={`font-semibold text-base sm:text-lg ${darkMode ? 'text-red-400' : 'text-red-800'}`}>{t('magnitude.strong')}</p>
                 <p className={`text-sm sm:text-base ${darkMode ? 'text-red-300' : 'text-red-600'}`}>M &ge; 6.0</p>
               </div>
             </div>
@@ -756,10 +1349,11 @@ function App() {
           <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
             <div>
               <p className={`${darkMode ? 'text-gray-300' : 'text-gray-600'} text-sm sm:text-base lg:text-lg`}>
-                📡 Sumber data: Badan Meteorologi, Klimatologi, dan Geofisika (BMKG)
+                {t('footer.source')}
+                {quakeProvider.id !== 'bmkg' && ` • ${t('footer.mode', { provider: quakeProvider.label })}`}
               </p>
               <p className={`${darkMode ? 'text-gray-400' : 'text-gray-500'} mt-2 text-xs sm:text-sm`}>
-                Data XML & JSON diperbarui otomatis setiap 30 detik • Terakhir diperbarui: {lastUpdated?.toLocaleString('id-ID')}
+                {t('footer.updated', { time: lastUpdated ? formatTimestamp(lastUpdated, language) : '-' })}
               </p>
               <p className={`${darkMode ? 'text-gray-400' : 'text-gray-500'} mt-1 text-xs sm:text-sm`}>
                 Endpoint: autogempa.xml, gempaterkini.json, gempadirasakan.json
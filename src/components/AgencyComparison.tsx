@@ -0,0 +1,77 @@
+import { ExternalLink } from 'lucide-react';
+import { AGENCY_NAMES } from '../lib/agencies';
+import { formatDepth, formatDistance, formatMagnitude, formatNumber } from '../lib/format';
+import { distanceKm } from '../lib/geo';
+import type { Translator } from '../lib/i18n';
+import type { Quake } from '../types';
+
+interface AgencyComparisonProps {
+  quake: Quake;
+  darkMode: boolean;
+  i18n: Translator;
+}
+
+// Each agency's magnitude and depth side by side, with the differences to
+// the agency the event is shown from
+function AgencyComparison({ quake, darkMode, i18n }: AgencyComparisonProps) {
+  const { t, language } = i18n;
+  const solutions = quake.solutions || [];
+  if (solutions.length === 0) return null;
+
+  const cellClass = `py-1.5 pr-4 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`;
+  const mutedClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const formatDelta = (value: number, fractionDigits: number) => {
+    const rounded = Number(value.toFixed(fractionDigits));
+    return `${rounded > 0 ? '+' : rounded < 0 ? '−' : '±'}${formatNumber(Math.abs(rounded), fractionDigits, language)}`;
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-xs sm:text-sm mt-1">
+        <thead>
+          <tr className={mutedClass}>
+            <th className="text-left font-medium pb-1 pr-4">{t('agencies.agency')}</th>
+            <th className="text-left font-medium pb-1 pr-4">{t('agencies.magnitude')}</th>
+            <th className="text-left font-medium pb-1 pr-4">{t('agencies.depth')}</th>
+            <th className="text-left font-medium pb-1 pr-4">{t('agencies.timeOffset')}</th>
+            <th className="text-left font-medium pb-1">{t('agencies.locationOffset')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            <td className={`${cellClass} font-semibold`}>{AGENCY_NAMES[quake.source || 'bmkg']}</td>
+            <td className={`${cellClass} font-semibold`}>M {formatMagnitude(quake.magnitude, language)}</td>
+            <td className={cellClass}>{formatDepth(quake.depthKm, language)}</td>
+            <td className={`${cellClass} ${mutedClass}`} colSpan={2}>{t('agencies.reference')}</td>
+          </tr>
+          {solutions.map(solution => (
+            <tr key={`${solution.agency}-${solution.eventId}`}>
+              <td className={cellClass}>
+                {solution.url ? (
+                  <a href={solution.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300">
+                    {AGENCY_NAMES[solution.agency]}
+                    <ExternalLink className="h-3 w-3" />
+                  </a>
+                ) : AGENCY_NAMES[solution.agency]}
+              </td>
+              <td className={cellClass}>
+                {solution.magnitudeType} {formatMagnitude(solution.magnitude, language)}
+                <span className={`ml-2 ${mutedClass}`}>({formatDelta(solution.magnitude - quake.magnitude, 1)})</span>
+              </td>
+              <td className={cellClass}>
+                {formatDepth(solution.depthKm, language)}
+                <span className={`ml-2 ${mutedClass}`}>({formatDelta(solution.depthKm - quake.depthKm, 0)} km)</span>
+              </td>
+              <td className={cellClass}>
+                {t('agencies.seconds', { seconds: formatDelta((solution.time.getTime() - quake.time.getTime()) / 1000, 0) })}
+              </td>
+              <td className={cellClass}>{formatDistance(distanceKm(quake, solution), language)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default AgencyComparison;
@@ -0,0 +1,215 @@
+import { BellRing, ClipboardList, Plus, Trash2, Volume2 } from 'lucide-react';
+import { createRule, playAlertSound } from '../lib/alerts';
+import type { AlertLogEntry, AlertRule, AlertSound } from '../lib/alerts';
+import { formatTimestamp } from '../lib/format';
+import type { MessageKey, Translator } from '../lib/i18n';
+import type { SavedLocation } from '../lib/locations';
+
+interface AlertRulesPanelProps {
+  rules: AlertRule[];
+  onRulesChange: (rules: AlertRule[]) => void;
+  log: AlertLogEntry[];
+  onClearLog: () => void;
+  locations: SavedLocation[];
+  darkMode: boolean;
+  i18n: Translator;
+}
+
+const SOUND_LABELS: Record<AlertSound, MessageKey> = {
+  none: 'alerts.soundNone',
+  chime: 'alerts.soundChime',
+  siren: 'alerts.soundSiren'
+};
+
+function AlertRulesPanel({ rules, onRulesChange, log, onClearLog, locations, darkMode, i18n }: AlertRulesPanelProps) {
+  const { t, language } = i18n;
+  const updateRule = (id: string, changes: Partial<AlertRule>) => {
+    onRulesChange(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const parseNumber = (value: string) => (value === '' || Number.isNaN(parseFloat(value)) ? null : parseFloat(value));
+  const numberValue = (value: number | null) => (value === null ? '' : String(value));
+
+  const inputClass = `w-full px-3 py-2 rounded-xl border text-sm ${darkMode ? 'bg-gray-700 border-gray-600 text-gray-200' : 'bg-white border-gray-300 text-gray-700'}`;
+  const labelClass = `block text-xs font-medium mb-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const buttonClass = `flex items-center gap-2 px-3 py-2 rounded-xl text-sm font-medium transition-all duration-300 ${darkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`;
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-5 gap-8">
+      <div className={`xl:col-span-3 ${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white'} rounded-3xl shadow-2xl p-8 border backdrop-blur-sm bg-opacity-95`}>
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <h3 className={`text-2xl font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} flex items-center gap-3`}>
+            <BellRing className="h-6 w-6 text-red-500" />
+            {t('alerts.rulesTitle')}
+          </h3>
+          <button onClick={() => onRulesChange([...rules, createRule(t('alerts.newRuleName'))])} className={buttonClass}>
+            <Plus className="h-4 w-4" />
+            {t('alerts.addRule')}
+          </button>
+        </div>
+        <p className={`${darkMode ? 'text-gray-300' : 'text-gray-600'} mb-8`}>
+          {t('alerts.rulesDescription')}
+        </p>
+
+        <div className="space-y-6">
+          {rules.map(rule => (
+            <div key={rule.id} className={`rounded-2xl border p-4 sm:p-6 ${rule.enabled ? '' : 'opacity-60 border-dashed'} ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+              <div className="flex items-center gap-3 mb-4">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={e => updateRule(rule.id, { enabled: e.target.checked })}
+                  className="h-4 w-4"
+                  aria-label={t('alerts.enableRule')}
+                />
+                <input
+                  value={rule.name}
+                  onChange={e => updateRule(rule.id, { name: e.target.value })}
+                  className={`${inputClass} font-semibold`}
+                  aria-label={t('alerts.ruleName')}
+                />
+                <button
+                  onClick={() => onRulesChange(rules.filter(candidate => candidate.id !== rule.id))}
+                  className={`p-2 rounded-xl transition-all duration-300 ${darkMode ? 'text-gray-400 hover:text-red-400 hover:bg-gray-700' : 'text-gray-500 hover:text-red-600 hover:bg-gray-100'}`}
+                  aria-label={t('alerts.removeRule', { name: rule.name })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <label className={labelClass}>{t('alerts.minMagnitude')}</label>
+                  <input type="number" step="0.1" value={numberValue(rule.minMagnitude)} onChange={e => updateRule(rule.id, { minMagnitude: parseNumber(e.target.value) })} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>{t('alerts.maxDepth')}</label>
+                  <input type="number" step="1" value={numberValue(rule.maxDepth)} onChange={e => updateRule(rule.id, { maxDepth: parseNumber(e.target.value) })} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>{t('alerts.maxDistance')}</label>
+                  <input type="number" step="10" value={numberValue(rule.maxDistanceKm)} onChange={e => updateRule(rule.id, { maxDistanceKm: parseNumber(e.target.value) })} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>{t('alerts.fromLocation')}</label>
+                  <select value={rule.locationId || ''} onChange={e => updateRule(rule.id, { locationId: e.target.value || null })} className={inputClass}>
+                    <option value="">{t('alerts.chooseLocation')}</option>
+                    {locations.map(location => (
+                      <option key={location.id} value={location.id}>{location.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="col-span-2">
+                  <label className={labelClass}>{t('alerts.regionKeywords')}</label>
+                  <input
+                    defaultValue={rule.regionKeywords.join(', ')}
+                    // Committed on blur so typing a comma doesn't get normalized away mid-edit
+                    onBlur={e => updateRule(rule.id, { regionKeywords: e.target.value.split(',').map(keyword => keyword.trim()).filter(Boolean) })}
+                    placeholder={t('alerts.regionKeywordsPlaceholder')}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <label className={labelClass}>{t('alerts.message')}</label>
+                  <input value={rule.message} onChange={e => updateRule(rule.id, { message: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>{t('alerts.sound')}</label>
+                  <div className="flex gap-2">
+                    <select value={rule.sound} onChange={e => updateRule(rule.id, { sound: e.target.value as AlertSound })} className={inputClass}>
+                      {(Object.keys(SOUND_LABELS) as AlertSound[]).map(sound => (
+                        <option key={sound} value={sound}>{t(SOUND_LABELS[sound])}</option>
+                      ))}
+                    </select>
+                    <button onClick={() => playAlertSound(rule.sound)} disabled={rule.sound === 'none'} className={`${buttonClass} disabled:opacity-50`} aria-label={t('alerts.testSound')}>
+                      <Volume2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+                <div className="col-span-2">
+                  <label className={`flex items-center gap-2 text-xs font-medium mb-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    <input
+                      type="checkbox"
+                      checked={rule.quietHours !== null}
+                      onChange={e => updateRule(rule.id, { quietHours: e.target.checked ? { start: '22:00', end: '06:00' } : null })}
+                      className="h-3 w-3"
+                    />
+                    {t('alerts.quietHours')}
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="time"
+                      value={rule.quietHours?.start || ''}
+                      disabled={!rule.quietHours}
+                      onChange={e => rule.quietHours && updateRule(rule.id, { quietHours: { ...rule.quietHours, start: e.target.value } })}
+                      className={`${inputClass} disabled:opacity-50`}
+                    />
+                    <span className={darkMode ? 'text-gray-400' : 'text-gray-500'}>–</span>
+                    <input
+                      type="time"
+                      value={rule.quietHours?.end || ''}
+                      disabled={!rule.quietHours}
+                      onChange={e => rule.quietHours && updateRule(rule.id, { quietHours: { ...rule.quietHours, end: e.target.value } })}
+                      className={`${inputClass} disabled:opacity-50`}
+                    />
+                  </div>
+                </div>
+                <label className={`flex items-end gap-2 text-sm pb-2 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                  <input
+                    type="checkbox"
+                    checked={rule.tsunamiOnly}
+                    onChange={e => updateRule(rule.id, { tsunamiOnly: e.target.checked })}
+                    className="h-4 w-4"
+                  />
+                  {t('alerts.tsunamiOnly')}
+                </label>
+              </div>
+            </div>
+          ))}
+          {rules.length === 0 && (
+            <p className={`text-center py-8 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{t('alerts.noRules')}</p>
+          )}
+        </div>
+      </div>
+
+      <div className={`xl:col-span-2 ${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white'} rounded-3xl shadow-2xl p-8 border backdrop-blur-sm bg-opacity-95`}>
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <h3 className={`text-2xl font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} flex items-center gap-3`}>
+            <ClipboardList className="h-6 w-6 text-blue-500" />
+            {t('alerts.logTitle')}
+          </h3>
+          {log.length > 0 && (
+            <button onClick={onClearLog} className={buttonClass}>{t('alerts.clearLog')}</button>
+          )}
+        </div>
+        {log.length > 0 ? (
+          <ul className="space-y-3">
+            {log.map(entry => (
+              <li key={entry.id} className={`rounded-xl border p-4 text-sm ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                <div className="flex items-start justify-between gap-2">
+                  <p className={`font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'}`}>{entry.title}</p>
+                  <span className={`text-xs whitespace-nowrap ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {formatTimestamp(new Date(entry.firedAt), language)}
+                  </span>
+                </div>
+                <p className={darkMode ? 'text-gray-300' : 'text-gray-700'}>{entry.body}</p>
+                <p className={`mt-2 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  {entry.ruleNames.join(', ')}: {entry.reasons.join(', ') || t('alerts.anyQuake')}
+                </p>
+                {entry.suppressed && (
+                  <span className="inline-block mt-2 text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">
+                    {t('alerts.suppressed')}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className={`text-center py-8 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{t('alerts.emptyLog')}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default AlertRulesPanel;
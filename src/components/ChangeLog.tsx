@@ -0,0 +1,53 @@
+import { GitCommitVertical } from 'lucide-react';
+import type { QuakeChange } from '../lib/changes';
+import { formatMagnitude, formatTimestamp } from '../lib/format';
+import type { Translator } from '../lib/i18n';
+
+interface ChangeLogProps {
+  changes: QuakeChange[];
+  darkMode: boolean;
+  i18n: Translator;
+  limit?: number;
+}
+
+function ChangeLog({ changes, darkMode, i18n, limit = 10 }: ChangeLogProps) {
+  const { t, language } = i18n;
+  return (
+    <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white'} rounded-3xl shadow-2xl p-8 border backdrop-blur-sm bg-opacity-95`}>
+      <h3 className={`text-2xl font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} mb-6 flex items-center gap-3`}>
+        <GitCommitVertical className="h-6 w-6 text-green-500" />
+        {t('changes.title')}
+      </h3>
+      {changes.length > 0 ? (
+        <ul className="space-y-3">
+          {changes.slice(0, limit).map(change => (
+            <li key={`${change.quakeId}-${change.detectedAt}-${change.kind}`} className="flex items-start gap-3 text-sm">
+              <span className={`flex-shrink-0 text-xs font-semibold px-2 py-1 rounded-full ${
+                change.kind === 'added'
+                  ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+                  : 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400'
+              }`}>
+                {t(change.kind === 'added' ? 'quake.added' : 'quake.revised')}
+              </span>
+              <div className="min-w-0">
+                <p className={darkMode ? 'text-gray-200' : 'text-gray-800'}>
+                  <span className="font-semibold">M {formatMagnitude(change.magnitude, language)}</span> {change.region}
+                </p>
+                {change.details.length > 0 && (
+                  <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{change.details.join(', ')}</p>
+                )}
+                <p className={`text-xs ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+                  {t('changes.detected', { time: formatTimestamp(new Date(change.detectedAt), language) })}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className={`${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{t('changes.empty')}</p>
+      )}
+    </div>
+  );
+}
+
+export default ChangeLog;
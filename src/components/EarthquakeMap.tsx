@@ -0,0 +1,251 @@
+import { useMemo, useRef, useState } from 'react';
+import type { PointerEvent as ReactPointerEvent, ReactNode } from 'react';
+import { Map as MapIcon, Minus, Plus, RotateCcw } from 'lucide-react';
+import { formatMagnitude } from '../lib/format';
+import type { MessageKey, Translator } from '../lib/i18n';
+import {
+  GRATICULE_LATS,
+  GRATICULE_LONS,
+  MAP_HEIGHT,
+  MAP_WIDTH,
+  NEIGHBOR_PATHS,
+  PROVINCE_PATHS,
+  getDepthColor,
+  getMarkerRadius,
+  project
+} from '../lib/mapGeometry';
+import type { Quake } from '../types';
+
+export type MapEventSource = 'latest' | 'recent' | 'felt';
+
+export interface MapEvent {
+  id: string;
+  quake: Quake;
+  sources: MapEventSource[];
+}
+
+interface EarthquakeMapProps {
+  events: MapEvent[];
+  darkMode: boolean;
+  i18n: Translator;
+  renderDetails: (quake: Quake) => ReactNode;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+
+const DEPTH_LEGEND: { label: MessageKey; color: string }[] = [
+  { label: 'map.shallow', color: getDepthColor(0) },
+  { label: 'map.intermediate', color: getDepthColor(100) },
+  { label: 'map.deep', color: getDepthColor(400) }
+];
+
+const SOURCE_LABELS: Record<MapEventSource, MessageKey> = {
+  latest: 'source.latest',
+  recent: 'source.recent',
+  felt: 'source.felt'
+};
+
+function EarthquakeMap({ events, darkMode, i18n, renderDetails }: EarthquakeMapProps) {
+  const { t, language } = i18n;
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [zoom, setZoom] = useState(MIN_ZOOM);
+  const [center, setCenter] = useState({ x: MAP_WIDTH / 2, y: MAP_HEIGHT / 2 });
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const markers = useMemo(() => events
+    .map(event => ({
+      event,
+      magnitude: event.quake.magnitude,
+      depth: event.quake.depthKm,
+      ...project(event.quake.lon, event.quake.lat)
+    }))
+    // Draw the biggest circles first so smaller events stay clickable on top
+    .sort((a, b) => b.magnitude - a.magnitude), [events]);
+
+  const selected = events.find(event => event.id === selectedId) || null;
+
+  const viewWidth = MAP_WIDTH / zoom;
+  const viewHeight = MAP_HEIGHT / zoom;
+  const clampCenter = (x: number, y: number) => ({
+    x: Math.min(Math.max(x, viewWidth / 2), MAP_WIDTH - viewWidth / 2),
+    y: Math.min(Math.max(y, viewHeight / 2), MAP_HEIGHT - viewHeight / 2)
+  });
+  const view = clampCenter(center.x, center.y);
+  const viewBox = `${view.x - viewWidth / 2} ${view.y - viewHeight / 2} ${viewWidth} ${viewHeight}`;
+
+  const changeZoom = (factor: number) => {
+    setZoom(current => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current * factor)));
+  };
+
+  const resetView = () => {
+    setZoom(MIN_ZOOM);
+    setCenter({ x: MAP_WIDTH / 2, y: MAP_HEIGHT / 2 });
+  };
+
+  const handlePointerDown = (e: ReactPointerEvent<SVGSVGElement>) => {
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: ReactPointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    const svg = svgRef.current;
+    if (!drag || !svg) return;
+    const unitsPerPixel = viewWidth / svg.getBoundingClientRect().width;
+    const dx = (e.clientX - drag.x) * unitsPerPixel;
+    const dy = (e.clientY - drag.y) * unitsPerPixel;
+    drag.x = e.clientX;
+    drag.y = e.clientY;
+    setCenter(clampCenter(view.x - dx, view.y - dy));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white'} rounded-3xl shadow-2xl p-8 border backdrop-blur-sm bg-opacity-95`}>
+      <h3 className={`text-2xl font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} mb-4 flex items-center gap-3`}>
+        <MapIcon className="h-6 w-6 text-emerald-500" />
+        {t('map.title')}
+      </h3>
+      <p className={`${darkMode ? 'text-gray-300' : 'text-gray-600'} mb-6 text-lg`}>
+        {t('map.description', { count: markers.length })}
+      </p>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        <div className="xl:col-span-2">
+          <div className={`relative rounded-2xl overflow-hidden border ${darkMode ? 'border-gray-700 bg-slate-900' : 'border-gray-200 bg-sky-50'}`}>
+            <svg
+              ref={svgRef}
+              viewBox={viewBox}
+              className="w-full h-auto touch-none select-none cursor-grab active:cursor-grabbing"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerLeave={handlePointerUp}
+              role="img"
+              aria-label={t('map.ariaLabel')}
+            >
+              <g stroke={darkMode ? '#334155' : '#bae6fd'} strokeWidth={1}>
+                {GRATICULE_LONS.map(lon => (
+                  <line key={`lon-${lon}`} x1={project(lon, 0).x} x2={project(lon, 0).x} y1={0} y2={MAP_HEIGHT} vectorEffect="non-scaling-stroke" />
+                ))}
+                {GRATICULE_LATS.map(lat => (
+                  <line key={`lat-${lat}`} x1={0} x2={MAP_WIDTH} y1={project(0, lat).y} y2={project(0, lat).y} vectorEffect="non-scaling-stroke" />
+                ))}
+              </g>
+              <g
+                fill={darkMode ? '#1f2937' : '#f3f4f6'}
+                stroke={darkMode ? '#4b5563' : '#d1d5db'}
+                strokeWidth={1}
+              >
+                {NEIGHBOR_PATHS.map(path => (
+                  <path key={path.key} d={path.d} vectorEffect="non-scaling-stroke" />
+                ))}
+              </g>
+              <g
+                fill={darkMode ? '#374151' : '#e5e7eb'}
+                stroke={darkMode ? '#6b7280' : '#9ca3af'}
+                strokeWidth={1}
+              >
+                {PROVINCE_PATHS.map(path => (
+                  <path key={path.key} d={path.d} vectorEffect="non-scaling-stroke">
+                    {path.name && <title>{path.name}</title>}
+                  </path>
+                ))}
+              </g>
+              <g>
+                {markers.map(marker => {
+                  const isSelected = marker.event.id === selectedId;
+                  return (
+                    <circle
+                      key={marker.event.id}
+                      cx={marker.x}
+                      cy={marker.y}
+                      r={getMarkerRadius(marker.magnitude) / Math.sqrt(zoom)}
+                      fill={getDepthColor(marker.depth)}
+                      fillOpacity={isSelected ? 0.95 : 0.65}
+                      stroke={isSelected ? (darkMode ? '#f9fafb' : '#111827') : '#ffffff'}
+                      strokeWidth={isSelected ? 3 : 1}
+                      vectorEffect="non-scaling-stroke"
+                      className="cursor-pointer"
+                      onPointerDown={e => e.stopPropagation()}
+                      onClick={() => setSelectedId(isSelected ? null : marker.event.id)}
+                    >
+                      <title>{`M ${formatMagnitude(marker.magnitude, language)} - ${marker.event.quake.region}`}</title>
+                    </circle>
+                  );
+                })}
+              </g>
+            </svg>
+
+            <div className="absolute top-3 right-3 flex flex-col gap-2">
+              <button
+                onClick={() => changeZoom(1.5)}
+                disabled={zoom >= MAX_ZOOM}
+                className={`p-2 rounded-xl shadow-lg transition-all duration-300 disabled:opacity-50 ${darkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+                aria-label={t('map.zoomIn')}
+              >
+                <Plus className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => changeZoom(1 / 1.5)}
+                disabled={zoom <= MIN_ZOOM}
+                className={`p-2 rounded-xl shadow-lg transition-all duration-300 disabled:opacity-50 ${darkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+                aria-label={t('map.zoomOut')}
+              >
+                <Minus className="h-4 w-4" />
+              </button>
+              <button
+                onClick={resetView}
+                className={`p-2 rounded-xl shadow-lg transition-all duration-300 ${darkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+                aria-label={t('map.resetView')}
+              >
+                <RotateCcw className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+
+          <div className={`flex flex-wrap items-center gap-4 mt-4 text-xs sm:text-sm ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+            {DEPTH_LEGEND.map(item => (
+              <span key={item.label} className="flex items-center gap-2">
+                <span className="inline-block h-3 w-3 rounded-full" style={{ backgroundColor: item.color }}></span>
+                {t(item.label)}
+              </span>
+            ))}
+            <span className="flex items-center gap-2">
+              <span className={`inline-block h-2 w-2 rounded-full border ${darkMode ? 'border-gray-300' : 'border-gray-600'}`}></span>
+              M4
+              <span className={`inline-block h-4 w-4 rounded-full border ${darkMode ? 'border-gray-300' : 'border-gray-600'}`}></span>
+              M6
+            </span>
+          </div>
+        </div>
+
+        <div>
+          {selected ? (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2">
+                {selected.sources.map(source => (
+                  <span key={source} className={`text-xs px-2 py-1 rounded-full ${darkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-100 text-gray-600'}`}>
+                    {t(SOURCE_LABELS[source])}
+                  </span>
+                ))}
+              </div>
+              {renderDetails(selected.quake)}
+            </div>
+          ) : (
+            <div className={`h-full flex flex-col items-center justify-center text-center py-16 rounded-2xl border border-dashed ${darkMode ? 'border-gray-700 text-gray-400' : 'border-gray-300 text-gray-500'}`}>
+              <MapIcon className={`h-12 w-12 ${darkMode ? 'text-gray-600' : 'text-gray-400'} mb-4`} />
+              <p>{t('map.selectHint')}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default EarthquakeMap;
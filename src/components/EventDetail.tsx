@@ -0,0 +1,289 @@
+import { useEffect, useState } from 'react';
+import type { ReactNode } from 'react';
+import { AlertTriangle, ArrowLeft, Camera, Check, Clock, Globe, Hash, Layers, MapPin, Navigation, Radar, Scale, Share2, Users } from 'lucide-react';
+import AgencyComparison from './AgencyComparison';
+import FeltReportTable from './FeltReportTable';
+import IntensityBadge from './IntensityBadge';
+import ShakemapViewer from './ShakemapViewer';
+import SourceBadges from './SourceBadges';
+import { findNearbyQuakes, getArchivedQuake } from '../lib/archive';
+import type { ArchivedQuake } from '../lib/archive';
+import { getMagnitudeInfo, getTsunamiBadgeClass } from '../lib/classification';
+import { formatDepth, formatEventTime, formatLatitude, formatLongitude, formatMagnitude, formatRelativeTime } from '../lib/format';
+import type { Translator } from '../lib/i18n';
+import type { TimeZonePreference } from '../lib/timezones';
+import type { Quake } from '../types';
+
+interface RelativePosition {
+  distance: string;
+  direction: string;
+  from: string;
+}
+
+interface EventDetailProps {
+  eventId: string;
+  // Events from the live feeds, checked before the archive
+  liveEvents: Quake[];
+  darkMode: boolean;
+  i18n: Translator;
+  timeZonePreference: TimeZonePreference;
+  now: Date;
+  getShakemapUrl: (shakemap: string | null) => string | null;
+  getRelativePosition: (quake: Quake) => RelativePosition | null;
+  renderCard: (quake: Quake, index: number) => ReactNode;
+  onBack: () => void;
+}
+
+const NEARBY_RADIUS_KM = 100;
+const MAX_NEARBY = 9;
+
+function EventDetail({ eventId, liveEvents, darkMode, i18n, timeZonePreference, now, getShakemapUrl, getRelativePosition, renderCard, onBack }: EventDetailProps) {
+  const { t, language } = i18n;
+  const liveEvent = liveEvents.find(quake => quake.id === eventId) || null;
+  const [archived, setArchived] = useState<ArchivedQuake | null>(null);
+  const [archiveChecked, setArchiveChecked] = useState(false);
+  const [nearby, setNearby] = useState<ArchivedQuake[]>([]);
+  const [shared, setShared] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getArchivedQuake(eventId)
+      .then(quake => {
+        if (!cancelled) setArchived(quake || null);
+      })
+      .catch(err => console.warn('Failed to read archived earthquake:', err))
+      .finally(() => {
+        if (!cancelled) setArchiveChecked(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [eventId]);
+
+  // The live copy is fresher, but the archive may have kept a felt report or
+  // shakemap that the current feeds no longer carry
+  const quake: Quake | null = liveEvent
+    ? {
+        ...liveEvent,
+        felt: liveEvent.felt || archived?.felt || null,
+        shakemap: liveEvent.shakemap || archived?.shakemap || null,
+        potensi: liveEvent.potensi || archived?.potensi || ''
+      }
+    : archived;
+  const lat = quake?.lat;
+  const lon = quake?.lon;
+
+  useEffect(() => {
+    if (lat === undefined || lon === undefined) return;
+    let cancelled = false;
+    findNearbyQuakes({ lat, lon }, NEARBY_RADIUS_KM, eventId)
+      .then(quakes => {
+        if (!cancelled) setNearby(quakes.slice(0, MAX_NEARBY));
+      })
+      .catch(err => console.warn('Failed to query nearby earthquakes:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [eventId, lat, lon]);
+
+  const share = async () => {
+    const url = window.location.href;
+    const title = quake ? `M${formatMagnitude(quake.magnitude, language)} - ${quake.region}` : 'Quakemon';
+    try {
+      if (navigator.share) {
+        await navigator.share({ title, url });
+        return;
+      }
+      await navigator.clipboard.writeText(url);
+      setShared(true);
+      setTimeout(() => setShared(false), 2000);
+    } catch (err) {
+      // Dismissing the share sheet rejects too, which isn't worth reporting
+      if ((err as Error).name !== 'AbortError') {
+        console.warn('Failed to share event link:', err);
+      }
+    }
+  };
+
+  const buttonClass = `flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium transition-all duration-300 ${darkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`;
+  const labelClass = `font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} text-base sm:text-lg`;
+  const valueClass = `${darkMode ? 'text-gray-300' : 'text-gray-700'} text-sm sm:text-lg`;
+  const mutedClass = `${darkMode ? 'text-gray-400' : 'text-gray-500'} text-xs sm:text-sm`;
+
+  const backButton = (
+    <button onClick={onBack} className={buttonClass}>
+      <ArrowLeft className="h-4 w-4" />
+      {t('event.back')}
+    </button>
+  );
+
+  if (!quake) {
+    return (
+      <div className="space-y-8">
+        {backButton}
+        <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white'} rounded-3xl shadow-2xl p-8 border backdrop-blur-sm bg-opacity-95 text-center`}>
+          <p className={`${darkMode ? 'text-gray-400' : 'text-gray-500'} text-lg`}>
+            {archiveChecked ? t('event.notFound', { id: eventId }) : t('event.loading')}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const magnitudeInfo = getMagnitudeInfo(quake.magnitude, darkMode);
+  const dateTime = formatEventTime(quake, timeZonePreference, language);
+  const shakemapUrl = getShakemapUrl(quake.shakemap);
+  const relativePosition = getRelativePosition(quake);
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between gap-4">
+        {backButton}
+        <button onClick={share} className={buttonClass}>
+          {shared ? <Check className="h-4 w-4 text-green-500" /> : <Share2 className="h-4 w-4" />}
+          {t(shared ? 'event.linkCopied' : 'event.share')}
+        </button>
+      </div>
+
+      <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white'} rounded-3xl shadow-2xl border-2 ${magnitudeInfo.borderColor} overflow-hidden backdrop-blur-sm bg-opacity-95`}>
+        <div className={`${magnitudeInfo.bgColor} px-8 py-6 border-b ${magnitudeInfo.borderColor}`}>
+          <div className="flex items-center gap-4">
+            <span className="text-4xl">{magnitudeInfo.icon}</span>
+            <div>
+              <h2 className={`text-2xl font-bold ${magnitudeInfo.color}`}>
+                M {formatMagnitude(quake.magnitude, language)} - {quake.region}
+              </h2>
+              <p className={`text-lg ${magnitudeInfo.color} opacity-75`}>{t(magnitudeInfo.labelKey)}</p>
+              <IntensityBadge felt={quake.felt} i18n={i18n} className="mt-1" />
+              <SourceBadges quake={quake} darkMode={darkMode} i18n={i18n} className="mt-1 ml-1" />
+            </div>
+          </div>
+        </div>
+
+        <div className="p-8 grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="space-y-4 sm:space-y-6">
+            <div className="flex items-start gap-4">
+              <Clock className="h-6 w-6 text-blue-500 mt-1 flex-shrink-0" />
+              <div>
+                <p className={labelClass}>{t('quake.time')}</p>
+                <p className={valueClass}>{dateTime.primary}</p>
+                <p className={mutedClass}>{formatRelativeTime(quake.time, now, language)}</p>
+                {dateTime.secondary.map(line => (
+                  <p key={line} className={mutedClass}>{line}</p>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-start gap-4">
+              <Layers className="h-6 w-6 text-green-500 mt-1 flex-shrink-0" />
+              <div>
+                <p className={labelClass}>{t('quake.depth')}</p>
+                <p className={valueClass}>{formatDepth(quake.depthKm, language)}</p>
+              </div>
+            </div>
+
+            <div className="flex items-start gap-4">
+              <Globe className="h-6 w-6 text-indigo-500 mt-1 flex-shrink-0" />
+              <div>
+                <p className={labelClass}>{t('quake.coordinates')}</p>
+                <p className={valueClass}>{formatLatitude(quake.lat, language)}, {formatLongitude(quake.lon, language)}</p>
+                <p className={mutedClass}>({quake.lat}, {quake.lon})</p>
+              </div>
+            </div>
+
+            {relativePosition && (
+              <div className="flex items-start gap-4">
+                <Navigation className="h-6 w-6 text-teal-500 mt-1 flex-shrink-0" />
+                <div>
+                  <p className={labelClass}>{t('quake.distanceFrom', { place: relativePosition.from })}</p>
+                  <p className={valueClass}>{relativePosition.distance}</p>
+                  <p className={mutedClass}>{t('quake.direction', { direction: relativePosition.direction })}</p>
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-start gap-4">
+              <Hash className="h-6 w-6 text-gray-500 mt-1 flex-shrink-0" />
+              <div>
+                <p className={labelClass}>{t('event.id')}</p>
+                <p className={`${valueClass} font-mono`}>{quake.id}</p>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-4 sm:space-y-6">
+            <div className="flex items-start gap-4">
+              <AlertTriangle className="h-6 w-6 text-orange-500 mt-1 flex-shrink-0" />
+              <div>
+                <p className={labelClass}>{t('quake.tsunami')}</p>
+                <span className={`inline-block px-3 sm:px-4 py-1.5 sm:py-2 rounded-xl text-xs sm:text-sm font-medium ${getTsunamiBadgeClass(quake)}`}>
+                  {quake.potensi || t('quake.infoUnavailable')}
+                </span>
+              </div>
+            </div>
+
+            <div className="flex items-start gap-4">
+              <Users className="h-6 w-6 text-purple-500 mt-1 flex-shrink-0" />
+              <div>
+                <p className={labelClass}>{t('quake.felt')}</p>
+                {quake.felt ? (
+                  <FeltReportTable felt={quake.felt} darkMode={darkMode} i18n={i18n} />
+                ) : (
+                  <p className={`${darkMode ? 'text-gray-300' : 'text-gray-700'} text-xs sm:text-sm`}>{t('event.noFeltReports')}</p>
+                )}
+              </div>
+            </div>
+
+            {quake.solutions && quake.solutions.length > 0 && (
+              <div className="flex items-start gap-4">
+                <Scale className="h-6 w-6 text-blue-500 mt-1 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className={labelClass}>{t('agencies.comparisonTitle')}</p>
+                  <AgencyComparison quake={quake} darkMode={darkMode} i18n={i18n} />
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {quake.shakemap && shakemapUrl && (
+        <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white'} rounded-3xl shadow-2xl p-8 border backdrop-blur-sm bg-opacity-95`}>
+          <h3 className={`text-2xl font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} mb-6 flex items-center gap-3`}>
+            <Camera className="h-6 w-6 text-purple-500" />
+            {t('quake.shakemapTitle')}
+          </h3>
+          <ShakemapViewer
+            shakemap={quake.shakemap}
+            url={shakemapUrl}
+            alt={t('quake.shakemapAlt', { region: quake.region })}
+            darkMode={darkMode}
+            i18n={i18n}
+          />
+        </div>
+      )}
+
+      <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white'} rounded-3xl shadow-2xl p-8 border backdrop-blur-sm bg-opacity-95`}>
+        <h3 className={`text-2xl font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} mb-4 flex items-center gap-3`}>
+          <Radar className="h-6 w-6 text-blue-500" />
+          {t('event.nearbyTitle')}
+        </h3>
+        <p className={`${darkMode ? 'text-gray-300' : 'text-gray-600'} mb-8`}>
+          {t('event.nearbyDescription', { radius: NEARBY_RADIUS_KM })}
+        </p>
+        {nearby.length > 0 ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4 sm:gap-6">
+            {nearby.map((event, index) => renderCard(event, index))}
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <MapPin className={`h-12 w-12 ${darkMode ? 'text-gray-600' : 'text-gray-400'} mx-auto mb-4`} />
+            <p className={`${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{t('event.nearbyEmpty')}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default EventDetail;
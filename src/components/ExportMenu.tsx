@@ -0,0 +1,40 @@
+import { Download } from 'lucide-react';
+import { EXPORT_FORMATS, EXPORT_FORMAT_NAMES, downloadQuakes } from '../lib/export';
+import type { Translator } from '../lib/i18n';
+import type { Quake } from '../types';
+
+interface ExportMenuProps {
+  // Exactly what the view shows, i.e. after filtering and sorting
+  quakes: Quake[];
+  // Used in the file name, e.g. "felt"
+  name: string;
+  darkMode: boolean;
+  i18n: Translator;
+}
+
+function ExportMenu({ quakes, name, darkMode, i18n }: ExportMenuProps) {
+  const { t } = i18n;
+  const buttonClass = `px-3 py-1.5 rounded-xl text-xs sm:text-sm font-medium transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed ${darkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className={`flex items-center gap-1 text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+        <Download className="h-4 w-4" />
+        {t('export.label', { count: quakes.length })}
+      </span>
+      {EXPORT_FORMATS.map(format => (
+        <button
+          key={format}
+          onClick={() => downloadQuakes(quakes, format, name)}
+          disabled={quakes.length === 0}
+          className={buttonClass}
+          title={t('export.download', { format: EXPORT_FORMAT_NAMES[format] })}
+        >
+          {EXPORT_FORMAT_NAMES[format]}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default ExportMenu;
@@ -0,0 +1,147 @@
+import { Activity, Globe } from 'lucide-react';
+import { AGENCY_NAMES, EXTERNAL_AGENCIES } from '../lib/agencies';
+import type { AgencyResult, ExternalAgency } from '../lib/agencies';
+import { FEED_NAMES } from '../lib/feeds';
+import type { FeedHealth, FeedStatus } from '../lib/feeds';
+import { formatRelativeTime } from '../lib/format';
+import type { MessageKey, Translator } from '../lib/i18n';
+import type { FeedName } from '../lib/providers';
+import type { BmkgParseError } from '../lib/validation';
+
+interface FeedHealthPanelProps {
+  health: Record<FeedName, FeedHealth>;
+  // Other agencies merged into the BMKG events
+  agencies: ExternalAgency[];
+  agencyResults: Partial<Record<ExternalAgency, AgencyResult>>;
+  onAgenciesChange: (agencies: ExternalAgency[]) => void;
+  darkMode: boolean;
+  i18n: Translator;
+  now: Date;
+}
+
+const STATUS_LABELS: Record<FeedStatus, MessageKey> = {
+  pending: 'health.pending',
+  ok: 'health.ok',
+  unchanged: 'health.unchanged',
+  cached: 'health.cached',
+  error: 'health.error'
+};
+
+const STATUS_DOTS: Record<FeedStatus, string> = {
+  pending: 'bg-gray-400',
+  ok: 'bg-green-500',
+  unchanged: 'bg-green-500',
+  cached: 'bg-amber-500',
+  error: 'bg-red-500'
+};
+
+// Only listed when a payload has problems, so a few lines is plenty
+const MAX_LISTED_RECORDS = 5;
+
+function FeedHealthPanel({ health, agencies, agencyResults, onAgenciesChange, darkMode, i18n, now }: FeedHealthPanelProps) {
+  const { t, language } = i18n;
+  const mutedClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+
+  const describeError = (error: BmkgParseError) => {
+    const field = error.field || '?';
+    if (error.code === 'missing-field') return t('health.missingField', { field });
+    if (error.code === 'invalid-field') return t('health.invalidField', { field, value: error.value ?? '' });
+    return error.message;
+  };
+
+  const toggleAgency = (agency: ExternalAgency) => {
+    onAgenciesChange(agencies.includes(agency)
+      ? agencies.filter(enabled => enabled !== agency)
+      : EXTERNAL_AGENCIES.filter(known => known === agency || agencies.includes(known)));
+  };
+
+  const describeAgency = (agency: ExternalAgency) => {
+    const result = agencyResults[agency];
+    if (!agencies.includes(agency)) return t('agencies.off');
+    if (!result) return t('health.pending');
+    if (result.error) return t('agencies.failed', { error: result.error });
+    return t('agencies.count', { count: result.solutions.length });
+  };
+
+  return (
+    <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white'} rounded-2xl shadow-xl p-4 border backdrop-blur-sm bg-opacity-95`}>
+      <div className="flex flex-col lg:flex-row lg:items-center gap-3 lg:gap-6">
+        <span className={`flex items-center gap-2 text-sm font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'}`}>
+          <Activity className="h-4 w-4 text-blue-500" />
+          {t('health.title')}
+        </span>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 flex-1">
+          {FEED_NAMES.map(feed => {
+            const entry = health[feed];
+            return (
+              <div
+                key={feed}
+                className={`flex items-start gap-2 text-xs rounded-xl px-3 py-2 ${darkMode ? 'bg-gray-900/40' : 'bg-gray-50'}`}
+                title={entry.error || undefined}
+              >
+                <span className={`mt-1 h-2.5 w-2.5 rounded-full flex-shrink-0 ${STATUS_DOTS[entry.status]}`}></span>
+                <div className="min-w-0">
+                  <p className={`font-mono font-medium ${darkMode ? 'text-gray-200' : 'text-gray-800'}`}>{entry.file}</p>
+                  <p className={mutedClass}>
+                    {t(STATUS_LABELS[entry.status])}
+                    {entry.latencyMs !== null && ` • ${t('health.latency', { ms: entry.latencyMs })}`}
+                    {entry.attempts > 1 && ` • ${t('health.attempts', { count: entry.attempts })}`}
+                  </p>
+                  <p className={entry.status === 'error' ? 'text-red-500' : mutedClass}>
+                    {entry.lastSuccess
+                      ? t('health.lastSuccess', { time: formatRelativeTime(entry.lastSuccess, now, language) })
+                      : t('health.neverSucceeded')}
+                  </p>
+                  {entry.malformed.length > 0 && (
+                    <details className="mt-1">
+                      <summary className={`cursor-pointer ${darkMode ? 'text-amber-400' : 'text-amber-600'}`}>
+                        {t('health.malformed', { count: entry.malformed.length })}
+                      </summary>
+                      <ul className={`mt-1 space-y-0.5 ${mutedClass}`}>
+                        {entry.malformed.slice(0, MAX_LISTED_RECORDS).map(record => (
+                          <li key={record.index}>
+                            {t('health.malformedRecord', { index: record.index + 1 })}: {record.errors.map(describeError).join(', ')}
+                          </li>
+                        ))}
+                        {entry.malformed.length > MAX_LISTED_RECORDS && (
+                          <li>{t('health.malformedMore', { count: entry.malformed.length - MAX_LISTED_RECORDS })}</li>
+                        )}
+                      </ul>
+                    </details>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+      <div className={`flex flex-wrap items-center gap-3 mt-3 pt-3 border-t text-xs ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+        <span className={`flex items-center gap-2 font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'}`}>
+          <Globe className="h-4 w-4 text-blue-500" />
+          {t('agencies.title')}
+        </span>
+        {EXTERNAL_AGENCIES.map(agency => {
+          const enabled = agencies.includes(agency);
+          return (
+            <span key={agency} className="flex items-center gap-2">
+              <button
+                onClick={() => toggleAgency(agency)}
+                aria-pressed={enabled}
+                className={`px-3 py-1 rounded-lg font-medium transition-all duration-300 ${
+                  enabled
+                    ? 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white shadow-lg'
+                    : darkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {AGENCY_NAMES[agency]}
+              </button>
+              <span className={agencyResults[agency]?.error && enabled ? 'text-red-500' : mutedClass}>{describeAgency(agency)}</span>
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default FeedHealthPanel;
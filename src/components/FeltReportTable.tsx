@@ -0,0 +1,46 @@
+import { getIntensityStyle } from '../lib/classification';
+import type { Translator } from '../lib/i18n';
+import { formatIntensityRange, parseFeltReports } from '../lib/intensity';
+
+interface FeltReportTableProps {
+  felt: string;
+  darkMode: boolean;
+  i18n: Translator;
+}
+
+function FeltReportTable({ felt, darkMode, i18n }: FeltReportTableProps) {
+  const { t } = i18n;
+  const reports = parseFeltReports(felt);
+
+  // Anything BMKG words differently is still worth showing as-is
+  if (reports.length === 0) {
+    return <p className={`${darkMode ? 'text-gray-300' : 'text-gray-700'} text-xs sm:text-sm`}>{felt}</p>;
+  }
+
+  const cellClass = `py-1.5 pr-4 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`;
+
+  return (
+    <table className="text-xs sm:text-sm mt-1">
+      <thead>
+        <tr className={darkMode ? 'text-gray-400' : 'text-gray-500'}>
+          <th className="text-left font-medium pb-1 pr-4">{t('felt.intensity')}</th>
+          <th className="text-left font-medium pb-1">{t('felt.place')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {reports.map(report => (
+          <tr key={`${report.place}-${report.min}-${report.max}`}>
+            <td className="py-1.5 pr-4">
+              <span className="inline-block min-w-[3.5rem] text-center px-2 py-0.5 rounded-lg font-semibold border border-black/10" style={getIntensityStyle(report.max)}>
+                {formatIntensityRange(report)}
+              </span>
+            </td>
+            <td className={cellClass}>{report.place}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default FeltReportTable;
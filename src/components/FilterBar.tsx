@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import type { ReactNode } from 'react';
+import { Filter, Link, X } from 'lucide-react';
+import { EMPTY_FILTERS, SORT_OPTIONS, hasActiveFilters } from '../lib/filters';
+import type { QuakeFilters, QuakeSort } from '../lib/filters';
+import type { MessageKey, Translator } from '../lib/i18n';
+import { MAX_INTENSITY, toRoman } from '../lib/intensity';
+
+interface FilterBarProps {
+  filters: QuakeFilters;
+  sort: QuakeSort;
+  onFiltersChange: (filters: QuakeFilters) => void;
+  onSortChange: (sort: QuakeSort) => void;
+  shownCount: number;
+  totalCount: number;
+  darkMode: boolean;
+  i18n: Translator;
+  // Shown under the sort select, e.g. why distance sorting is not available yet
+  sortHint?: string | null;
+  // Extra controls that work on the filtered list, e.g. export
+  actions?: ReactNode;
+}
+
+const SORT_LABELS: Record<QuakeSort, MessageKey> = {
+  time: 'filters.sortTime',
+  magnitude: 'filters.sortMagnitude',
+  depth: 'filters.sortDepth',
+  distance: 'filters.sortDistance'
+};
+
+function FilterBar({ filters, sort, onFiltersChange, onSortChange, shownCount, totalCount, darkMode, i18n, sortHint, actions }: FilterBarProps) {
+  const { t } = i18n;
+  const [copied, setCopied] = useState(false);
+
+  const update = <K extends keyof QuakeFilters>(key: K, value: QuakeFilters[K]) => {
+    onFiltersChange({ ...filters, [key]: value });
+  };
+
+  const numberValue = (value: number | null) => (value === null ? '' : String(value));
+  const parseNumber = (value: string) => (value === '' || Number.isNaN(parseFloat(value)) ? null : parseFloat(value));
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.warn('Failed to copy link:', err);
+    }
+  };
+
+  const inputClass = `w-full px-3 py-2 rounded-xl border text-sm ${darkMode ? 'bg-gray-700 border-gray-600 text-gray-200' : 'bg-white border-gray-300 text-gray-700'}`;
+  const labelClass = `block text-xs font-medium mb-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const buttonClass = `flex items-center gap-2 px-3 py-2 rounded-xl text-sm font-medium transition-all duration-300 ${darkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`;
+
+  return (
+    <div className={`rounded-2xl border p-4 sm:p-6 mb-8 ${darkMode ? 'border-gray-700 bg-gray-900/40' : 'border-gray-200 bg-gray-50'}`}>
+      <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-8 gap-4">
+        <div className="col-span-2">
+          <label className={labelClass} htmlFor="filter-search">{t('filters.search')}</label>
+          <input
+            id="filter-search"
+            type="search"
+            value={filters.search}
+            onChange={e => update('search', e.target.value)}
+            placeholder={t('filters.searchPlaceholder')}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="filter-mmin">{t('filters.minMagnitude')}</label>
+          <input id="filter-mmin" type="number" step="0.1" value={numberValue(filters.minMagnitude)} onChange={e => update('minMagnitude', parseNumber(e.target.value))} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="filter-mmax">{t('filters.maxMagnitude')}</label>
+          <input id="filter-mmax" type="number" step="0.1" value={numberValue(filters.maxMagnitude)} onChange={e => update('maxMagnitude', parseNumber(e.target.value))} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="filter-dmin">{t('filters.minDepth')}</label>
+          <input id="filter-dmin" type="number" step="1" value={numberValue(filters.minDepth)} onChange={e => update('minDepth', parseNumber(e.target.value))} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="filter-dmax">{t('filters.maxDepth')}</label>
+          <input id="filter-dmax" type="number" step="1" value={numberValue(filters.maxDepth)} onChange={e => update('maxDepth', parseNumber(e.target.value))} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="filter-from">{t('filters.fromDate')}</label>
+          <input id="filter-from" type="date" value={filters.fromDate} onChange={e => update('fromDate', e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="filter-to">{t('filters.toDate')}</label>
+          <input id="filter-to" type="date" value={filters.toDate} onChange={e => update('toDate', e.target.value)} className={inputClass} />
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mt-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className={labelClass} htmlFor="filter-sort">{t('filters.sort')}</label>
+            <select id="filter-sort" value={sort} onChange={e => onSortChange(e.target.value as QuakeSort)} className={inputClass}>
+              {SORT_OPTIONS.map(option => (
+                <option key={option} value={option}>{t(SORT_LABELS[option])}</option>
+              ))}
+            </select>
+          </div>
+          <label className={`flex items-center gap-2 text-sm py-2 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+            <input
+              type="checkbox"
+              checked={filters.tsunamiOnly}
+              onChange={e => update('tsunamiOnly', e.target.checked)}
+              className="h-4 w-4 rounded"
+            />
+            {t('filters.tsunamiOnly')}
+          </label>
+          <div>
+            <label className={labelClass} htmlFor="filter-mmi">{t('filters.feltIntensity')}</label>
+            <select
+              id="filter-mmi"
+              value={filters.feltIntensity === null ? '' : String(filters.feltIntensity)}
+              onChange={e => update('feltIntensity', parseNumber(e.target.value))}
+              className={inputClass}
+            >
+              <option value="">{t('filters.anyIntensity')}</option>
+              {Array.from({ length: MAX_INTENSITY - 1 }, (_, i) => i + 2).map(level => (
+                <option key={level} value={level}>MMI ≥ {toRoman(level)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass} htmlFor="filter-felt-place">{t('filters.feltPlace')}</label>
+            <input
+              id="filter-felt-place"
+              type="search"
+              value={filters.feltPlace}
+              onChange={e => update('feltPlace', e.target.value)}
+              placeholder={t('filters.feltPlacePlaceholder')}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className={`flex items-center gap-1 text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            <Filter className="h-4 w-4" />
+            {t('filters.count', { shown: shownCount, total: totalCount })}
+          </span>
+          {hasActiveFilters(filters) && (
+            <button onClick={() => onFiltersChange(EMPTY_FILTERS)} className={buttonClass}>
+              <X className="h-4 w-4" />
+              {t('filters.reset')}
+            </button>
+          )}
+          <button onClick={copyLink} className={buttonClass}>
+            <Link className="h-4 w-4" />
+            {t(copied ? 'filters.linkCopied' : 'filters.copyLink')}
+          </button>
+        </div>
+      </div>
+      {sortHint && (
+        <p className={`mt-2 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{sortHint}</p>
+      )}
+      {actions && (
+        <div className={`mt-4 pt-4 border-t ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>{actions}</div>
+      )}
+    </div>
+  );
+}
+
+export default FilterBar;
@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import type { ReactNode } from 'react';
+import { ChevronLeft, ChevronRight, History, Search } from 'lucide-react';
+import { queryArchive } from '../lib/archive';
+import type { ArchivePage } from '../lib/archive';
+import type { Translator } from '../lib/i18n';
+import type { Quake } from '../types';
+
+interface HistoryPanelProps {
+  darkMode: boolean;
+  i18n: Translator;
+  // Bumped by App after every archive write so the current page reloads
+  archiveVersion: number;
+  renderCard: (quake: Quake, index: number) => ReactNode;
+}
+
+const PAGE_SIZE = 12;
+
+const parseDateInput = (value: string, endOfDay: boolean) => {
+  if (!value) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  return endOfDay
+    ? new Date(year, month - 1, day, 23, 59, 59, 999)
+    : new Date(year, month - 1, day);
+};
+
+function HistoryPanel({ darkMode, i18n, archiveVersion, renderCard }: HistoryPanelProps) {
+  const { t } = i18n;
+  const [search, setSearch] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [page, setPage] = useState(0);
+  const [result, setResult] = useState<ArchivePage>({ items: [], total: 0 });
+  const [error, setError] = useState(false);
+  // Both are YYYY-MM-DD, so they compare as strings
+  const invalidRange = fromDate !== '' && toDate !== '' && fromDate > toDate;
+
+  useEffect(() => {
+    if (invalidRange) return;
+    let cancelled = false;
+    queryArchive({
+      search,
+      from: parseDateInput(fromDate, false),
+      to: parseDateInput(toDate, true),
+      offset: page * PAGE_SIZE,
+      limit: PAGE_SIZE
+    })
+      .then(nextResult => {
+        if (!cancelled) {
+          setResult(nextResult);
+          setError(false);
+        }
+      })
+      .catch(err => {
+        console.error('Error reading earthquake archive:', err);
+        if (!cancelled) setError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [search, fromDate, toDate, invalidRange, page, archiveVersion]);
+
+  const pageCount = Math.max(1, Math.ceil(result.total / PAGE_SIZE));
+  const inputClass = `w-full px-3 py-2 rounded-xl border text-sm ${darkMode ? 'bg-gray-700 border-gray-600 text-gray-200' : 'bg-white border-gray-300 text-gray-700'}`;
+  const labelClass = `block text-xs font-medium mb-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const pageButtonClass = `p-2 rounded-xl transition-all duration-300 disabled:opacity-50 ${darkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`;
+
+  return (
+    <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white'} rounded-3xl shadow-2xl p-8 border backdrop-blur-sm bg-opacity-95`}>
+      <h3 className={`text-2xl font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} mb-4 flex items-center gap-3`}>
+        <History className="h-6 w-6 text-amber-500" />
+        {t('history.title')}
+      </h3>
+      <p className={`${darkMode ? 'text-gray-300' : 'text-gray-600'} mb-6 text-lg`}>
+        {t('history.description')}
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-8">
+        <div>
+          <label className={labelClass} htmlFor="history-search">{t('filters.search')}</label>
+          <div className="relative">
+            <Search className="h-4 w-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              id="history-search"
+              type="search"
+              value={search}
+              onChange={e => {
+                setSearch(e.target.value);
+                setPage(0);
+              }}
+              placeholder={t('history.searchPlaceholder')}
+              className={`${inputClass} pl-9`}
+            />
+          </div>
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="history-from">{t('filters.fromDate')}</label>
+          <input
+            id="history-from"
+            type="date"
+            value={fromDate}
+            onChange={e => {
+              setFromDate(e.target.value);
+              setPage(0);
+            }}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="history-to">{t('filters.toDate')}</label>
+          <input
+            id="history-to"
+            type="date"
+            value={toDate}
+            min={fromDate || undefined}
+            onChange={e => {
+              setToDate(e.target.value);
+              setPage(0);
+            }}
+            aria-invalid={invalidRange}
+            aria-describedby={invalidRange ? 'history-range-error' : undefined}
+            className={`${inputClass} ${invalidRange ? 'border-red-500' : ''}`}
+          />
+        </div>
+      </div>
+
+      {invalidRange ? (
+        <p id="history-range-error" className="text-center text-red-500 py-16">{t('history.invalidRange')}</p>
+      ) : error ? (
+        <p className="text-center text-red-500 py-16">{t('history.readError')}</p>
+      ) : result.items.length > 0 ? (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4 sm:gap-6">
+            {result.items.map((quake, index) => renderCard(quake, index))}
+          </div>
+          <div className={`flex items-center justify-between mt-8 text-sm ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+            <span>{t('history.pageInfo', { total: result.total, page: page + 1, pages: pageCount })}</span>
+            <div className="flex gap-2">
+              <button onClick={() => setPage(page - 1)} disabled={page === 0} className={pageButtonClass} aria-label={t('history.previousPage')}>
+                <ChevronLeft className="h-4 w-4" />
+              </button>
+              <button onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount} className={pageButtonClass} aria-label={t('history.nextPage')}>
+                <ChevronRight className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        </>
+      ) : (
+        <div className="text-center py-16">
+          <History className={`h-16 w-16 ${darkMode ? 'text-gray-600' : 'text-gray-400'} mx-auto mb-6`} />
+          <p className={`${darkMode ? 'text-gray-400' : 'text-gray-500'} text-lg`}>{t('history.empty')}</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default HistoryPanel;
@@ -0,0 +1,26 @@
+import { getIntensityStyle } from '../lib/classification';
+import type { Translator } from '../lib/i18n';
+import { getMaxIntensity, toRoman } from '../lib/intensity';
+
+interface IntensityBadgeProps {
+  felt: string | null;
+  i18n: Translator;
+  className?: string;
+}
+
+// Strongest intensity in the felt report; nothing when there is none
+function IntensityBadge({ felt, i18n, className = '' }: IntensityBadgeProps) {
+  const intensity = getMaxIntensity(felt);
+  if (intensity === null) return null;
+  return (
+    <span
+      className={`inline-block px-2 py-0.5 rounded-full text-xs font-semibold border border-black/10 ${className}`}
+      style={getIntensityStyle(intensity)}
+      title={i18n.t('felt.maxIntensity')}
+    >
+      MMI {toRoman(intensity)}
+    </span>
+  );
+}
+
+export default IntensityBadge;
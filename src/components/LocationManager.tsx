@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { Crosshair, Home, Plus, Trash2 } from 'lucide-react';
+import { createLocation, isValidCoordinate } from '../lib/locations';
+import type { SavedLocation } from '../lib/locations';
+import { formatCoordinates } from '../lib/format';
+import type { MessageKey, Translator } from '../lib/i18n';
+
+interface LocationManagerProps {
+  locations: SavedLocation[];
+  activeLocationId: string | null;
+  onLocationsChange: (locations: SavedLocation[]) => void;
+  onActiveLocationChange: (id: string | null) => void;
+  darkMode: boolean;
+  i18n: Translator;
+}
+
+function LocationManager({ locations, activeLocationId, onLocationsChange, onActiveLocationChange, darkMode, i18n }: LocationManagerProps) {
+  const { t, language } = i18n;
+  const [name, setName] = useState('');
+  const [lat, setLat] = useState('');
+  const [lon, setLon] = useState('');
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [locating, setLocating] = useState(false);
+
+  const addLocation = (location: SavedLocation) => {
+    onLocationsChange([...locations, location]);
+    onActiveLocationChange(location.id);
+    setName('');
+    setLat('');
+    setLon('');
+    setError(null);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const parsedLat = parseFloat(lat.replace(',', '.'));
+    const parsedLon = parseFloat(lon.replace(',', '.'));
+    if (!name.trim()) {
+      setError('locations.nameRequired');
+      return;
+    }
+    if (!isValidCoordinate(parsedLat, parsedLon)) {
+      setError('locations.invalidCoordinates');
+      return;
+    }
+    addLocation(createLocation(name, parsedLat, parsedLon));
+  };
+
+  const addCurrentPosition = () => {
+    if (!('geolocation' in navigator)) {
+      setError('locations.geolocationUnsupported');
+      return;
+    }
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      position => {
+        setLocating(false);
+        addLocation(createLocation(name || t('locations.defaultName'), position.coords.latitude, position.coords.longitude));
+      },
+      () => {
+        setLocating(false);
+        setError('locations.geolocationDenied');
+      }
+    );
+  };
+
+  const removeLocation = (id: string) => {
+    onLocationsChange(locations.filter(location => location.id !== id));
+    if (id === activeLocationId) {
+      onActiveLocationChange(null);
+    }
+  };
+
+  const inputClass = `w-full px-3 py-2 rounded-xl border text-sm ${darkMode ? 'bg-gray-700 border-gray-600 text-gray-200' : 'bg-white border-gray-300 text-gray-700'}`;
+  const buttonClass = `flex items-center justify-center gap-2 px-3 py-2 rounded-xl text-sm font-medium transition-all duration-300 disabled:opacity-50`;
+
+  return (
+    <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white'} rounded-3xl shadow-2xl p-6 sm:p-8 border backdrop-blur-sm bg-opacity-95`}>
+      <h3 className={`text-xl sm:text-2xl font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} mb-2 flex items-center gap-3`}>
+        <Home className="h-6 w-6 text-teal-500" />
+        {t('locations.title')}
+      </h3>
+      <p className={`${darkMode ? 'text-gray-300' : 'text-gray-600'} mb-6`}>
+        {t('locations.description')}
+      </p>
+
+      {locations.length > 0 && (
+        <ul className="space-y-2 mb-6">
+          {locations.map(location => (
+            <li
+              key={location.id}
+              className={`flex items-center justify-between gap-3 p-3 rounded-xl border ${
+                location.id === activeLocationId
+                  ? 'border-teal-500 bg-teal-50 dark:bg-teal-900/20'
+                  : darkMode ? 'border-gray-700' : 'border-gray-200'
+              }`}
+            >
+              <label className="flex items-center gap-3 cursor-pointer flex-1 min-w-0">
+                <input
+                  type="radio"
+                  name="active-location"
+                  checked={location.id === activeLocationId}
+                  onChange={() => onActiveLocationChange(location.id)}
+                  className="h-4 w-4"
+                />
+                <span className="min-w-0">
+                  <span className={`block font-medium truncate ${darkMode ? 'text-gray-200' : 'text-gray-900'}`}>{location.name}</span>
+                  <span className={`block text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{formatCoordinates(location.lat, location.lon, language)}</span>
+                </span>
+              </label>
+              <button
+                onClick={() => removeLocation(location.id)}
+                className={`p-2 rounded-xl transition-all duration-300 ${darkMode ? 'text-gray-400 hover:text-red-400 hover:bg-gray-700' : 'text-gray-500 hover:text-red-600 hover:bg-gray-100'}`}
+                aria-label={t('locations.remove', { name: location.name })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+        <input value={name} onChange={e => setName(e.target.value)} placeholder={t('locations.namePlaceholder')} className={inputClass} aria-label={t('locations.name')} />
+        <input value={lat} onChange={e => setLat(e.target.value)} placeholder={t('locations.latPlaceholder')} inputMode="decimal" className={inputClass} aria-label={t('locations.lat')} />
+        <input value={lon} onChange={e => setLon(e.target.value)} placeholder={t('locations.lonPlaceholder')} inputMode="decimal" className={inputClass} aria-label={t('locations.lon')} />
+        <div className="flex gap-2">
+          <button type="submit" className={`${buttonClass} flex-1 bg-gradient-to-r from-blue-600 to-indigo-600 text-white hover:from-blue-700 hover:to-indigo-700`}>
+            <Plus className="h-4 w-4" />
+            {t('locations.add')}
+          </button>
+          <button
+            type="button"
+            onClick={addCurrentPosition}
+            disabled={locating}
+            className={`${buttonClass} ${darkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+            title={t('locations.useDevice')}
+            aria-label={t('locations.useDevice')}
+          >
+            <Crosshair className={`h-4 w-4 ${locating ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </form>
+      {error && <p className="mt-3 text-sm text-red-500">{t(error)}</p>}
+    </div>
+  );
+}
+
+export default LocationManager;
@@ -0,0 +1,350 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Film, Pause, Play, SkipBack } from 'lucide-react';
+import { getAllArchivedQuakes } from '../lib/archive';
+import { getMagnitudeInfo } from '../lib/classification';
+import { EMPTY_FILTERS, applyFilters } from '../lib/filters';
+import { formatDepth, formatEventTime, formatMagnitude, formatTimestamp } from '../lib/format';
+import type { Translator } from '../lib/i18n';
+import {
+  GRATICULE_LATS,
+  GRATICULE_LONS,
+  MAP_HEIGHT,
+  MAP_WIDTH,
+  NEIGHBOR_PATHS,
+  PROVINCE_PATHS,
+  fitViewBox,
+  getDepthColor,
+  getMarkerRadius,
+  project
+} from '../lib/mapGeometry';
+import { DEFAULT_PLAYBACK_SPEED, PLAYBACK_SPEEDS, getPlaybackOpacity, getPlaybackRange, getRippleProgress } from '../lib/playback';
+import type { TimeZonePreference } from '../lib/timezones';
+import type { Quake } from '../types';
+
+interface PlaybackPanelProps {
+  // Events from the live feeds; the archive supplies older ones
+  events: Quake[];
+  darkMode: boolean;
+  i18n: Translator;
+  timeZonePreference: TimeZonePreference;
+  archiveVersion: number;
+}
+
+// Same layout as the statistics charts
+const CHART = { width: 400, height: 160, left: 32, right: 8, top: 8, bottom: 20 };
+const PLOT_WIDTH = CHART.width - CHART.left - CHART.right;
+const PLOT_HEIGHT = CHART.height - CHART.top - CHART.bottom;
+
+const LIST_SIZE = 12;
+
+function PlaybackPanel({ events, darkMode, i18n, timeZonePreference, archiveVersion }: PlaybackPanelProps) {
+  const { t, language } = i18n;
+  const [archived, setArchived] = useState<Quake[]>([]);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [minMagnitude, setMinMagnitude] = useState('');
+  const [speed, setSpeed] = useState(DEFAULT_PLAYBACK_SPEED);
+  const [playing, setPlaying] = useState(false);
+  // Null shows the whole range, as if playback had finished
+  const [cursor, setCursor] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getAllArchivedQuakes()
+      .then(quakes => {
+        if (!cancelled) setArchived(quakes);
+      })
+      .catch(err => console.warn('Failed to read archived earthquakes:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [archiveVersion]);
+
+  // Oldest first, the order they are played in; the live copy wins
+  const quakes = useMemo(() => {
+    const merged = new Map<string, Quake>();
+    [...archived, ...events].forEach(quake => merged.set(quake.id, quake));
+    return applyFilters(Array.from(merged.values()), {
+      ...EMPTY_FILTERS,
+      fromDate,
+      toDate,
+      minMagnitude: minMagnitude ? parseFloat(minMagnitude) : null
+    }).sort((a, b) => a.time.getTime() - b.time.getTime());
+  }, [archived, events, fromDate, toDate, minMagnitude]);
+
+  const range = useMemo(() => getPlaybackRange(quakes, fromDate, toDate), [quakes, fromDate, toDate]);
+  const position = range ? Math.min(Math.max(cursor ?? range.end, range.start), range.end) : 0;
+
+  useEffect(() => {
+    if (!playing || !range) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (time: number) => {
+      const elapsed = time - last;
+      last = time;
+      setCursor(current => Math.min((current ?? range.start) + (elapsed / 1000) * speed, range.end));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, range, speed]);
+
+  useEffect(() => {
+    if (playing && (!range || position >= range.end)) setPlaying(false);
+  }, [playing, range, position]);
+
+  const played = useMemo(() => quakes.filter(quake => quake.time.getTime() <= position), [quakes, position]);
+  const largest = played.reduce<Quake | null>((max, quake) => (!max || quake.magnitude > max.magnitude ? quake : max), null);
+
+  // Framed on everything in the range, so the view holds still while playing
+  const view = useMemo(() => fitViewBox(quakes.map(quake => project(quake.lon, quake.lat))), [quakes]);
+  const zoom = MAP_WIDTH / view.width;
+  const markers = useMemo(() => played
+    .map(quake => ({
+      quake,
+      ...project(quake.lon, quake.lat),
+      opacity: getPlaybackOpacity(quake, position, speed) ?? 0,
+      ripple: getRippleProgress(quake, position, speed)
+    }))
+    .sort((a, b) => b.quake.magnitude - a.quake.magnitude), [played, position, speed]);
+
+  const magnitudes = quakes.map(quake => quake.magnitude);
+  const minChartMagnitude = Math.floor(Math.min(...magnitudes, 5));
+  const maxChartMagnitude = Math.ceil(Math.max(...magnitudes, minChartMagnitude + 1));
+  const chartX = (time: number) => range && range.end > range.start
+    ? CHART.left + ((time - range.start) / (range.end - range.start)) * PLOT_WIDTH
+    : CHART.left + PLOT_WIDTH / 2;
+  const chartY = (magnitude: number) =>
+    CHART.top + PLOT_HEIGHT - ((magnitude - minChartMagnitude) / (maxChartMagnitude - minChartMagnitude)) * PLOT_HEIGHT;
+  const chartTicks = Array.from({ length: maxChartMagnitude - minChartMagnitude + 1 }, (_, i) => minChartMagnitude + i);
+
+  const togglePlaying = () => {
+    if (!range) return;
+    if (!playing && position >= range.end) setCursor(range.start);
+    setPlaying(!playing);
+  };
+
+  const restart = () => {
+    if (range) setCursor(range.start);
+  };
+
+  const jumpTo = (quake: Quake) => {
+    setPlaying(false);
+    setCursor(quake.time.getTime());
+  };
+
+  const inputClass = `w-full px-3 py-2 rounded-xl border text-sm ${darkMode ? 'bg-gray-700 border-gray-600 text-gray-200' : 'bg-white border-gray-300 text-gray-700'}`;
+  const labelClass = `block text-xs font-medium mb-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const buttonClass = `p-3 rounded-xl transition-all duration-300 disabled:opacity-50 ${darkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`;
+  const axisColor = darkMode ? '#6b7280' : '#9ca3af';
+
+  return (
+    <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white'} rounded-3xl shadow-2xl p-8 border backdrop-blur-sm bg-opacity-95`}>
+      <h3 className={`text-2xl font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} mb-4 flex items-center gap-3`}>
+        <Film className="h-6 w-6 text-violet-500" />
+        {t('playback.title')}
+      </h3>
+      <p className={`${darkMode ? 'text-gray-300' : 'text-gray-600'} mb-6 text-lg`}>
+        {t('playback.description')}
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        <div>
+          <label className={labelClass} htmlFor="playback-from">{t('filters.fromDate')}</label>
+          <input id="playback-from" type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="playback-to">{t('filters.toDate')}</label>
+          <input id="playback-to" type="date" value={toDate} onChange={e => setToDate(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="playback-magnitude">{t('filters.minMagnitude')}</label>
+          <input id="playback-magnitude" type="number" min="0" max="10" step="0.1" value={minMagnitude} onChange={e => setMinMagnitude(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="playback-speed">{t('playback.speed')}</label>
+          <select id="playback-speed" value={speed} onChange={e => setSpeed(Number(e.target.value))} className={inputClass}>
+            {PLAYBACK_SPEEDS.map(option => (
+              <option key={option.msPerSecond} value={option.msPerSecond}>{t(option.label, { count: option.count })}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {range && quakes.length > 0 ? (
+        <>
+          <div className="flex flex-wrap items-center gap-3 mb-6">
+            <button onClick={togglePlaying} className={buttonClass} aria-label={playing ? t('playback.pause') : t('playback.play')} title={playing ? t('playback.pause') : t('playback.play')}>
+              {playing ? <Pause className="h-5 w-5" /> : <Play className="h-5 w-5" />}
+            </button>
+            <button onClick={restart} className={buttonClass} aria-label={t('playback.restart')} title={t('playback.restart')}>
+              <SkipBack className="h-5 w-5" />
+            </button>
+            <input
+              type="range"
+              min={range.start}
+              max={range.end}
+              step={60 * 1000}
+              value={position}
+              onChange={e => setCursor(Number(e.target.value))}
+              aria-label={t('playback.position')}
+              className="flex-1 min-w-[12rem] accent-violet-600"
+            />
+            <span className={`font-mono text-sm ${darkMode ? 'text-gray-200' : 'text-gray-900'}`}>
+              {formatTimestamp(new Date(position), language)}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+            <div className="xl:col-span-2 space-y-4">
+              <div className={`rounded-2xl overflow-hidden border ${darkMode ? 'border-gray-700 bg-slate-900' : 'border-gray-200 bg-sky-50'}`}>
+                <svg
+                  viewBox={`${view.x} ${view.y} ${view.width} ${view.height}`}
+                  className="w-full h-auto select-none"
+                  role="img"
+                  aria-label={t('playback.mapLabel')}
+                >
+                  <g stroke={darkMode ? '#334155' : '#bae6fd'} strokeWidth={1}>
+                    {GRATICULE_LONS.map(lon => (
+                      <line key={`lon-${lon}`} x1={project(lon, 0).x} x2={project(lon, 0).x} y1={0} y2={MAP_HEIGHT} vectorEffect="non-scaling-stroke" />
+                    ))}
+                    {GRATICULE_LATS.map(lat => (
+                      <line key={`lat-${lat}`} x1={0} x2={MAP_WIDTH} y1={project(0, lat).y} y2={project(0, lat).y} vectorEffect="non-scaling-stroke" />
+                    ))}
+                  </g>
+                  <g fill={darkMode ? '#1f2937' : '#f3f4f6'} stroke={darkMode ? '#4b5563' : '#d1d5db'} strokeWidth={1}>
+                    {NEIGHBOR_PATHS.map(path => (
+                      <path key={path.key} d={path.d} vectorEffect="non-scaling-stroke" />
+                    ))}
+                  </g>
+                  <g fill={darkMode ? '#374151' : '#e5e7eb'} stroke={darkMode ? '#6b7280' : '#9ca3af'} strokeWidth={1}>
+                    {PROVINCE_PATHS.map(path => (
+                      <path key={path.key} d={path.d} vectorEffect="non-scaling-stroke" />
+                    ))}
+                  </g>
+                  <g>
+                    {markers.map(marker => {
+                      const radius = getMarkerRadius(marker.quake.magnitude) / Math.sqrt(zoom);
+                      return (
+                        <g key={marker.quake.id}>
+                          {marker.ripple !== null && (
+                            <circle
+                              cx={marker.x}
+                              cy={marker.y}
+                              r={radius * (1 + 3 * marker.ripple)}
+                              fill="none"
+                              stroke={getDepthColor(marker.quake.depthKm)}
+                              strokeOpacity={1 - marker.ripple}
+                              strokeWidth={2}
+                              vectorEffect="non-scaling-stroke"
+                            />
+                          )}
+                          <circle
+                            cx={marker.x}
+                            cy={marker.y}
+                            r={radius}
+                            fill={getDepthColor(marker.quake.depthKm)}
+                            fillOpacity={marker.opacity * 0.85}
+                            stroke="#ffffff"
+                            strokeOpacity={marker.opacity}
+                            strokeWidth={1}
+                            vectorEffect="non-scaling-stroke"
+                          >
+                            <title>{`M ${formatMagnitude(marker.quake.magnitude, language)} - ${marker.quake.region}`}</title>
+                          </circle>
+                        </g>
+                      );
+                    })}
+                  </g>
+                </svg>
+              </div>
+
+              <div className={`rounded-2xl border p-4 ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                <p className={`font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'}`}>{t('playback.chart')}</p>
+                <svg viewBox={`0 0 ${CHART.width} ${CHART.height}`} className="w-full h-auto" role="img" aria-label={t('playback.chart')}>
+                  {chartTicks.map(tick => (
+                    <g key={tick}>
+                      <line x1={CHART.left} x2={CHART.width - CHART.right} y1={chartY(tick)} y2={chartY(tick)} stroke={axisColor} strokeOpacity={0.3} />
+                      <text x={CHART.left - 6} y={chartY(tick) + 3} textAnchor="end" fontSize={10} fill={axisColor}>{tick}</text>
+                    </g>
+                  ))}
+                  {played.map(quake => (
+                    <g key={quake.id}>
+                      <line
+                        x1={chartX(quake.time.getTime())}
+                        x2={chartX(quake.time.getTime())}
+                        y1={chartY(minChartMagnitude)}
+                        y2={chartY(quake.magnitude)}
+                        stroke={getDepthColor(quake.depthKm)}
+                        strokeOpacity={0.5}
+                      />
+                      <circle cx={chartX(quake.time.getTime())} cy={chartY(quake.magnitude)} r={3} fill={getDepthColor(quake.depthKm)}>
+                        <title>{`M ${formatMagnitude(quake.magnitude, language)} - ${quake.region}`}</title>
+                      </circle>
+                    </g>
+                  ))}
+                  <line x1={chartX(position)} x2={chartX(position)} y1={CHART.top} y2={CHART.top + PLOT_HEIGHT} stroke="#7c3aed" strokeWidth={1.5} />
+                  <text x={CHART.left} y={CHART.height - 4} fontSize={10} fill={axisColor}>{formatTimestamp(new Date(range.start), language)}</text>
+                  <text x={CHART.width - CHART.right} y={CHART.height - 4} textAnchor="end" fontSize={10} fill={axisColor}>{formatTimestamp(new Date(range.end), language)}</text>
+                </svg>
+              </div>
+            </div>
+
+            <div>
+              <div className={`flex flex-wrap gap-2 mb-4 text-xs ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                <span className={`px-2 py-1 rounded-full ${darkMode ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                  {t('playback.shown', { count: played.length, total: quakes.length })}
+                </span>
+                {largest && (
+                  <span className={`px-2 py-1 rounded-full font-semibold ${getMagnitudeInfo(largest.magnitude, darkMode).bgColor} ${getMagnitudeInfo(largest.magnitude, darkMode).color}`}>
+                    {t('playback.largest', { magnitude: formatMagnitude(largest.magnitude, language) })}
+                  </span>
+                )}
+              </div>
+              <p className={`font-semibold mb-2 ${darkMode ? 'text-gray-200' : 'text-gray-900'}`}>{t('playback.list')}</p>
+              {played.length > 0 ? (
+                <ol className="space-y-2">
+                  {played.slice(-LIST_SIZE).reverse().map(quake => {
+                    const opacity = getPlaybackOpacity(quake, position, speed) ?? 0;
+                    const magnitudeInfo = getMagnitudeInfo(quake.magnitude, darkMode);
+                    return (
+                      <li key={quake.id}>
+                        <button
+                          onClick={() => jumpTo(quake)}
+                          title={t('playback.jumpTo')}
+                          className={`w-full text-left flex items-center gap-3 p-3 rounded-xl border transition-all duration-300 ${
+                            opacity === 1 ? 'border-violet-500' : darkMode ? 'border-gray-700' : 'border-gray-200'
+                          } ${darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-50'}`}
+                          style={{ opacity: 0.5 + opacity / 2 }}
+                        >
+                          <span className={`px-2 py-1 rounded-lg text-sm font-bold ${magnitudeInfo.bgColor} ${magnitudeInfo.color}`}>
+                            {formatMagnitude(quake.magnitude, language)}
+                          </span>
+                          <span className="min-w-0">
+                            <span className={`block text-sm truncate ${darkMode ? 'text-gray-200' : 'text-gray-900'}`}>{quake.region}</span>
+                            <span className={`block text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                              {formatEventTime(quake, timeZonePreference, language).primary} • {formatDepth(quake.depthKm, language)}
+                            </span>
+                          </span>
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ol>
+              ) : (
+                <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{t('playback.listEmpty')}</p>
+              )}
+            </div>
+          </div>
+        </>
+      ) : (
+        <div className="text-center py-16">
+          <Film className={`h-16 w-16 ${darkMode ? 'text-gray-600' : 'text-gray-400'} mx-auto mb-6`} />
+          <p className={`${darkMode ? 'text-gray-400' : 'text-gray-500'} text-lg`}>{t('playback.empty')}</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PlaybackPanel;
@@ -0,0 +1,195 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Activity, AlertTriangle, Waves } from 'lucide-react';
+import { FEED_PARSERS } from '../lib/bmkg';
+import { getMagnitudeInfo, getTsunamiBadgeClass } from '../lib/classification';
+import { fetchFeedWithRetry } from '../lib/feeds';
+import { formatCoordinates, formatDepth, formatEventTime, formatMagnitude, formatRelativeTime } from '../lib/format';
+import { createTranslator } from '../lib/i18n';
+import type { MessageKey, Translator } from '../lib/i18n';
+import { usePolling } from '../lib/polling';
+import type { FeedName } from '../lib/providers';
+import { TSUNAMI_STATUS_LABELS, isTsunamiThreat } from '../lib/tsunami';
+import { WIDGET_LIST_SIZE, WIDGET_REFRESH_MS, createWidgetProvider, resolveWidgetLanguage } from '../lib/widget';
+import type { WidgetOptions } from '../lib/widget';
+import type { Quake } from '../types';
+
+interface QuakemonWidgetProps {
+  options: WidgetOptions;
+}
+
+interface WidgetRowProps {
+  quake: Quake;
+  darkMode: boolean;
+  i18n: Translator;
+  now: Date;
+}
+
+const FEED_TITLES: Record<FeedName, MessageKey> = {
+  latest: 'tabs.latest',
+  recent: 'tabs.recent',
+  felt: 'tabs.felt'
+};
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+function WidgetRow({ quake, darkMode, i18n, now }: WidgetRowProps) {
+  const { t, language } = i18n;
+  const magnitudeInfo = getMagnitudeInfo(quake.magnitude, darkMode);
+  return (
+    <div className="flex items-center gap-3">
+      <span className={`flex-shrink-0 w-14 text-center py-2 rounded-xl text-lg font-bold ${magnitudeInfo.bgColor} ${magnitudeInfo.color}`}>
+        {formatMagnitude(quake.magnitude, language)}
+      </span>
+      <span className="min-w-0 flex-1">
+        <span className={`block text-sm font-medium truncate ${darkMode ? 'text-gray-200' : 'text-gray-900'}`} title={quake.region}>
+          {quake.region}
+        </span>
+        <span className={`block text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          {formatRelativeTime(quake.time, now, language)} • {formatDepth(quake.depthKm, language)}
+        </span>
+      </span>
+      {isTsunamiThreat(quake) && (
+        <span className={`flex-shrink-0 flex items-center gap-1 text-xs px-2 py-1 rounded-full ${getTsunamiBadgeClass(quake)}`}>
+          <Waves className="h-3 w-3" />
+          {t(TSUNAMI_STATUS_LABELS[quake.tsunami])}
+        </span>
+      )}
+    </div>
+  );
+}
+
+// What <quakemon-widget> renders inside its shadow root. It fetches on its own
+// with the app's providers and parsers, but keeps no state in localStorage.
+function QuakemonWidget({ options }: QuakemonWidgetProps) {
+  const { feed, minMagnitude, theme, layout, provider: providerId, fixtureUrl } = options;
+  const i18n = useMemo(() => createTranslator(resolveWidgetLanguage(options.language)), [options.language]);
+  const { t, language } = i18n;
+  const provider = useMemo(() => createWidgetProvider({ provider: providerId, fixtureUrl }), [providerId, fixtureUrl]);
+  const [quakes, setQuakes] = useState<Quake[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [prefersDark, setPrefersDark] = useState(() => window.matchMedia?.(DARK_QUERY).matches ?? false);
+
+  useEffect(() => {
+    const query = window.matchMedia?.(DARK_QUERY);
+    if (!query) return;
+    const handleChange = (e: MediaQueryListEvent) => setPrefersDark(e.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  const poll = useCallback(async () => {
+    const result = await fetchFeedWithRetry(provider, feed, FEED_PARSERS[feed]);
+    if (result.ok) {
+      setQuakes(result.data.quakes);
+      setError(null);
+    } else {
+      setError(result.health.error);
+    }
+    return false;
+  }, [provider, feed]);
+
+  useEffect(() => {
+    setQuakes(null);
+    poll();
+  }, [poll]);
+
+  usePolling(poll, WIDGET_REFRESH_MS, true);
+
+  const darkMode = theme === 'dark' || (theme === 'auto' && prefersDark);
+  const now = new Date();
+  const matching = (quakes || [])
+    .filter(quake => minMagnitude === null || quake.magnitude >= minMagnitude)
+    .sort((a, b) => b.time.getTime() - a.time.getTime());
+  const newest = matching[0] || null;
+  const mutedClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+
+  let body;
+  if (quakes === null && !error) {
+    body = <p className={`text-sm ${mutedClass}`}>{t('widget.loading')}</p>;
+  } else if (quakes === null) {
+    body = (
+      <p className={`flex items-center gap-2 text-sm ${darkMode ? 'text-red-400' : 'text-red-600'}`}>
+        <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+        {t('widget.error')}
+      </p>
+    );
+  } else if (!newest) {
+    body = (
+      <p className={`text-sm ${mutedClass}`}>
+        {minMagnitude === null ? t('widget.empty') : t('widget.emptyAbove', { magnitude: formatMagnitude(minMagnitude, language) })}
+      </p>
+    );
+  } else if (layout === 'compact') {
+    body = <WidgetRow quake={newest} darkMode={darkMode} i18n={i18n} now={now} />;
+  } else if (feed === 'latest') {
+    const magnitudeInfo = getMagnitudeInfo(newest.magnitude, darkMode);
+    body = (
+      <div className="space-y-3">
+        <div className={`flex items-center gap-4 p-4 rounded-xl border ${magnitudeInfo.bgColor} ${magnitudeInfo.borderColor}`}>
+          <span className={`text-4xl font-bold ${magnitudeInfo.color}`}>{formatMagnitude(newest.magnitude, language)}</span>
+          <span className="min-w-0">
+            <span className={`block text-sm font-semibold ${magnitudeInfo.color}`}>{t(magnitudeInfo.labelKey)}</span>
+            <span className={`block text-sm ${darkMode ? 'text-gray-200' : 'text-gray-900'}`}>{newest.region}</span>
+          </span>
+        </div>
+        <dl className={`grid grid-cols-2 gap-2 text-xs ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+          <div className="col-span-2">
+            <dt className={mutedClass}>{t('quake.time')}</dt>
+            <dd>{formatEventTime(newest, 'epicenter', language).primary} ({formatRelativeTime(newest.time, now, language)})</dd>
+          </div>
+          <div>
+            <dt className={mutedClass}>{t('quake.depth')}</dt>
+            <dd>{formatDepth(newest.depthKm, language)}</dd>
+          </div>
+          <div>
+            <dt className={mutedClass}>{t('quake.coordinates')}</dt>
+            <dd>{formatCoordinates(newest.lat, newest.lon, language)}</dd>
+          </div>
+          {newest.felt && (
+            <div className="col-span-2">
+              <dt className={mutedClass}>{t('quake.felt')}</dt>
+              <dd>{newest.felt}</dd>
+            </div>
+          )}
+        </dl>
+        {newest.tsunami !== 'unknown' && (
+          <span className={`inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full ${getTsunamiBadgeClass(newest)}`}>
+            <Waves className="h-3 w-3" />
+            {t(TSUNAMI_STATUS_LABELS[newest.tsunami])}
+          </span>
+        )}
+      </div>
+    );
+  } else {
+    body = (
+      <ul className="space-y-3">
+        {matching.slice(0, WIDGET_LIST_SIZE).map(quake => (
+          <li key={quake.id}>
+            <WidgetRow quake={quake} darkMode={darkMode} i18n={i18n} now={now} />
+          </li>
+        ))}
+      </ul>
+    );
+  }
+
+  return (
+    <div
+      lang={language}
+      className={`${darkMode ? 'dark bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} font-sans rounded-2xl border shadow-lg p-4`}
+    >
+      {layout === 'expanded' && (
+        <p className={`flex items-center gap-2 mb-3 font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'}`}>
+          <Activity className="h-4 w-4 text-blue-500" />
+          {t(FEED_TITLES[feed])}
+        </p>
+      )}
+      {body}
+      {quakes !== null && error && (
+        <p className={`mt-2 text-xs ${darkMode ? 'text-amber-400' : 'text-amber-600'}`}>{t('widget.stale')}</p>
+      )}
+      <p className={`mt-3 text-[10px] ${mutedClass}`}>{t('widget.source')}</p>
+    </div>
+  );
+}
+
+export default QuakemonWidget;
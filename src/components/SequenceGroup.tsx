@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import type { ReactNode } from 'react';
+import { ChevronDown, ChevronRight, GitBranch } from 'lucide-react';
+import { getMagnitudeInfo } from '../lib/classification';
+import { formatMagnitude, formatRelativeTime } from '../lib/format';
+import type { Translator } from '../lib/i18n';
+import type { QuakeSequence } from '../lib/sequences';
+import { parseRegionName } from '../lib/statistics';
+import type { Quake } from '../types';
+
+interface SequenceGroupProps {
+  sequence: QuakeSequence;
+  // Members that are in the list being shown
+  quakes: Quake[];
+  darkMode: boolean;
+  i18n: Translator;
+  now: Date;
+  renderCard: (quake: Quake, index: number) => ReactNode;
+}
+
+// Spans the whole card grid; collapsed it is one row summarizing the sequence
+function SequenceGroup({ sequence, quakes, darkMode, i18n, now, renderCard }: SequenceGroupProps) {
+  const { t, language } = i18n;
+  const [expanded, setExpanded] = useState(false);
+  const { mainshock } = sequence;
+  const magnitudeInfo = getMagnitudeInfo(mainshock.magnitude, darkMode);
+  const latest = sequence.events[sequence.events.length - 1];
+
+  return (
+    <div className={`col-span-full rounded-2xl border-2 ${magnitudeInfo.borderColor} ${darkMode ? 'bg-gray-900/40' : 'bg-gray-50'}`}>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        aria-expanded={expanded}
+        className="w-full flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-6 p-4 sm:p-5 text-left"
+      >
+        <span className="flex items-center gap-3 flex-1 min-w-0">
+          {expanded ? <ChevronDown className="h-5 w-5 flex-shrink-0" /> : <ChevronRight className="h-5 w-5 flex-shrink-0" />}
+          <GitBranch className="h-5 w-5 text-blue-500 flex-shrink-0" />
+          <span className="min-w-0">
+            <span className={`block font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'}`}>
+              {t('sequence.title', { region: parseRegionName(mainshock.region) })}
+            </span>
+            <span className={`block text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              {t('sequence.counts', { count: sequence.events.length, aftershocks: sequence.aftershocks, foreshocks: sequence.foreshocks })}
+              {quakes.length < sequence.events.length && ` • ${t('sequence.shown', { count: quakes.length })}`}
+            </span>
+          </span>
+        </span>
+        <span className="flex flex-wrap items-center gap-2 text-xs">
+          <span className={`px-2 py-1 rounded-full font-semibold ${magnitudeInfo.bgColor} ${magnitudeInfo.color}`}>
+            {t('sequence.largest', { magnitude: formatMagnitude(mainshock.magnitude, language) })}
+          </span>
+          <span className={`px-2 py-1 rounded-full ${darkMode ? 'bg-gray-700 text-gray-300' : 'bg-white text-gray-600'}`}>
+            {t('sequence.sinceMainshock', { time: formatRelativeTime(mainshock.time, now, language) })}
+          </span>
+          {latest.id !== mainshock.id && (
+            <span className={`px-2 py-1 rounded-full ${darkMode ? 'bg-gray-700 text-gray-300' : 'bg-white text-gray-600'}`}>
+              {t('sequence.latestEvent', { time: formatRelativeTime(latest.time, now, language) })}
+            </span>
+          )}
+        </span>
+      </button>
+      {expanded && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4 sm:gap-6 px-4 sm:px-5 pb-5">
+          {quakes.map((quake, index) => renderCard(quake, index))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SequenceGroup;
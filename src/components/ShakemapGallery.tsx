@@ -0,0 +1,127 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { MouseEvent } from 'react';
+import { ExternalLink, Images } from 'lucide-react';
+import ShakemapViewer from './ShakemapViewer';
+import { getAllArchivedQuakes } from '../lib/archive';
+import { getMagnitudeInfo } from '../lib/classification';
+import { formatEventTime, formatMagnitude } from '../lib/format';
+import type { Translator } from '../lib/i18n';
+import { eventPath } from '../lib/router';
+import type { TimeZonePreference } from '../lib/timezones';
+import type { Quake } from '../types';
+
+interface ShakemapGalleryProps {
+  // Events from the live feeds; the archive supplies older ones
+  events: Quake[];
+  darkMode: boolean;
+  i18n: Translator;
+  timeZonePreference: TimeZonePreference;
+  archiveVersion: number;
+  getShakemapUrl: (shakemap: string | null) => string | null;
+  onOpenEvent: (event: MouseEvent, quake: Quake) => void;
+}
+
+const GALLERY_SIZES = [2, 4, 6];
+
+function ShakemapGallery({ events, darkMode, i18n, timeZonePreference, archiveVersion, getShakemapUrl, onOpenEvent }: ShakemapGalleryProps) {
+  const { t, language } = i18n;
+  const [archived, setArchived] = useState<Quake[]>([]);
+  const [size, setSize] = useState(GALLERY_SIZES[1]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getAllArchivedQuakes()
+      .then(quakes => {
+        if (!cancelled) setArchived(quakes);
+      })
+      .catch(err => console.warn('Failed to read archived earthquakes:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [archiveVersion]);
+
+  // BMKG only draws shakemaps for significant events, so having one is the
+  // selection criterion
+  const withShakemaps = useMemo(() => {
+    const merged = new Map<string, Quake>();
+    [...archived, ...events].forEach(quake => {
+      if (quake.shakemap) merged.set(quake.id, quake);
+    });
+    return Array.from(merged.values()).sort((a, b) => b.time.getTime() - a.time.getTime());
+  }, [archived, events]);
+
+  const shown = withShakemaps.slice(0, size);
+
+  const sizeButtonClass = (active: boolean) => `px-3 py-1.5 rounded-xl text-sm font-medium transition-all duration-300 ${
+    active
+      ? 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white shadow-lg'
+      : darkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+  }`;
+
+  return (
+    <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white'} rounded-3xl shadow-2xl p-8 border backdrop-blur-sm bg-opacity-95`}>
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+        <h3 className={`text-2xl font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} flex items-center gap-3`}>
+          <Images className="h-6 w-6 text-purple-500" />
+          {t('shakemap.galleryTitle')}
+        </h3>
+        <div className="flex items-center gap-2">
+          <span className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{t('shakemap.gallerySize')}</span>
+          {GALLERY_SIZES.map(option => (
+            <button key={option} onClick={() => setSize(option)} className={sizeButtonClass(size === option)}>
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className={`${darkMode ? 'text-gray-300' : 'text-gray-600'} mb-8 text-lg`}>
+        {t('shakemap.galleryDescription')}
+      </p>
+
+      {shown.length > 0 ? (
+        <div className={`grid grid-cols-1 md:grid-cols-2 ${size > 4 ? 'xl:grid-cols-3' : ''} gap-6`}>
+          {shown.map(quake => {
+            const url = getShakemapUrl(quake.shakemap);
+            if (!quake.shakemap || !url) return null;
+            const magnitudeInfo = getMagnitudeInfo(quake.magnitude, darkMode);
+            return (
+              <figure key={quake.id} className="space-y-3">
+                <ShakemapViewer
+                  shakemap={quake.shakemap}
+                  url={url}
+                  alt={t('quake.shakemapAlt', { region: quake.region })}
+                  darkMode={darkMode}
+                  i18n={i18n}
+                  compact
+                />
+                <figcaption className="text-sm">
+                  <p className={`font-semibold ${magnitudeInfo.color}`}>
+                    M {formatMagnitude(quake.magnitude, language)} - {quake.region}
+                  </p>
+                  <p className={darkMode ? 'text-gray-400' : 'text-gray-500'}>
+                    {formatEventTime(quake, timeZonePreference, language).primary}
+                  </p>
+                  <a
+                    href={eventPath(quake.id)}
+                    onClick={e => onOpenEvent(e, quake)}
+                    className="inline-flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 transition-colors duration-300"
+                  >
+                    <ExternalLink className="h-3 w-3" />
+                    {t('quake.details')}
+                  </a>
+                </figcaption>
+              </figure>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="text-center py-16">
+          <Images className={`h-16 w-16 ${darkMode ? 'text-gray-600' : 'text-gray-400'} mx-auto mb-6`} />
+          <p className={`${darkMode ? 'text-gray-400' : 'text-gray-500'} text-lg`}>{t('shakemap.galleryEmpty')}</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ShakemapGallery;
@@ -0,0 +1,191 @@
+import { useEffect, useRef, useState } from 'react';
+import type { PointerEvent } from 'react';
+import { ImageOff, Loader2, Maximize2, Minimize2, RefreshCw, RotateCcw, ZoomIn, ZoomOut } from 'lucide-react';
+import type { Translator } from '../lib/i18n';
+import { useShakemap } from '../lib/shakemaps';
+
+interface ShakemapViewerProps {
+  // BMKG file name, e.g. "20250719012555.mmi.jpg"; also the cache key
+  shakemap: string;
+  url: string;
+  alt: string;
+  darkMode: boolean;
+  i18n: Translator;
+  // Smaller toolbar and a fixed height, for the gallery
+  compact?: boolean;
+}
+
+// Zoom factor and pan offset in CSS pixels, applied as one transform
+interface View {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 6;
+const ZOOM_STEP = 1.5;
+const WHEEL_STEP = 1.2;
+const INITIAL_VIEW: View = { scale: MIN_SCALE, x: 0, y: 0 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Keeps the zoomed image covering the frame instead of sliding off it
+const clampView = (frame: HTMLElement | null, view: View): View => {
+  const scale = clamp(view.scale, MIN_SCALE, MAX_SCALE);
+  const rect = frame?.getBoundingClientRect();
+  if (!rect) return { ...view, scale };
+  const maxX = (rect.width * (scale - 1)) / 2;
+  const maxY = (rect.height * (scale - 1)) / 2;
+  return { scale, x: clamp(view.x, -maxX, maxX), y: clamp(view.y, -maxY, maxY) };
+};
+
+// Zooms around the centre of the frame, so the offset scales along
+const zoomView = (frame: HTMLElement | null, view: View, factor: number) => {
+  const scale = clamp(view.scale * factor, MIN_SCALE, MAX_SCALE);
+  const ratio = scale / view.scale;
+  return clampView(frame, { scale, x: view.x * ratio, y: view.y * ratio });
+};
+
+function ShakemapViewer({ shakemap, url, alt, darkMode, i18n, compact = false }: ShakemapViewerProps) {
+  const { t } = i18n;
+  const { src, status, onError, retry } = useShakemap(shakemap, url);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointerId: number; startX: number; startY: number; origin: View } | null>(null);
+  const [view, setView] = useState<View>(INITIAL_VIEW);
+  const [fullscreen, setFullscreen] = useState(false);
+  const { scale } = view;
+  const scaleRef = useRef(scale);
+
+  useEffect(() => {
+    scaleRef.current = scale;
+  }, [scale]);
+
+  const zoomBy = (factor: number) => setView(current => zoomView(containerRef.current, current, factor));
+  const reset = () => setView(INITIAL_VIEW);
+
+  useEffect(() => {
+    setView(INITIAL_VIEW);
+  }, [shakemap]);
+
+  // React registers wheel listeners as passive, which can't stop the page scrolling
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (event: WheelEvent) => {
+      // Scrolling down over an unzoomed image should still scroll the page
+      if (event.deltaY > 0 && scaleRef.current <= MIN_SCALE) return;
+      event.preventDefault();
+      const factor = event.deltaY < 0 ? WHEEL_STEP : 1 / WHEEL_STEP;
+      setView(current => zoomView(container, current, factor));
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  useEffect(() => {
+    const handleChange = () => setFullscreen(document.fullscreenElement === containerRef.current);
+    document.addEventListener('fullscreenchange', handleChange);
+    return () => document.removeEventListener('fullscreenchange', handleChange);
+  }, []);
+
+  const toggleFullscreen = async () => {
+    try {
+      if (document.fullscreenElement) {
+        await document.exitFullscreen();
+      } else {
+        await containerRef.current?.requestFullscreen();
+      }
+    } catch (err) {
+      console.warn('Full-screen mode unavailable:', err);
+    }
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (scale === MIN_SCALE) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { pointerId: event.pointerId, startX: event.clientX, startY: event.clientY, origin: view };
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== event.pointerId) return;
+    setView(clampView(containerRef.current, {
+      scale: drag.origin.scale,
+      x: drag.origin.x + event.clientX - drag.startX,
+      y: drag.origin.y + event.clientY - drag.startY
+    }));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const toolButtonClass = `${compact ? 'p-1.5' : 'p-2'} rounded-lg transition-colors duration-300 disabled:opacity-40 ${darkMode ? 'bg-gray-900/80 text-gray-200 hover:bg-gray-700' : 'bg-white/90 text-gray-700 hover:bg-gray-100'} shadow`;
+  const iconClass = compact ? 'h-3.5 w-3.5' : 'h-4 w-4';
+  const frameClass = fullscreen ? 'h-full' : compact ? 'h-72' : 'min-h-[16rem]';
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative overflow-hidden rounded-2xl border shadow-lg ${darkMode ? 'bg-gray-900 border-gray-700' : 'bg-gray-50 border-gray-200'} ${frameClass}`}
+    >
+      {status === 'loading' && (
+        <div className={`flex items-center justify-center ${compact ? 'h-72' : 'h-64'} ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      )}
+
+      {status === 'error' && (
+        <div className={`flex flex-col items-center justify-center gap-3 ${compact ? 'h-72' : 'h-64'} ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          <ImageOff className="h-10 w-10" />
+          <p className="text-sm">{t('shakemap.unavailable')}</p>
+          <button onClick={retry} className={`flex items-center gap-2 px-3 py-1.5 rounded-xl text-sm font-medium ${darkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}>
+            <RefreshCw className="h-4 w-4" />
+            {t('shakemap.retry')}
+          </button>
+        </div>
+      )}
+
+      {status === 'ready' && src && (
+        <>
+          <div
+            className={`w-full h-full flex items-center justify-center touch-none select-none ${scale > MIN_SCALE ? 'cursor-grab active:cursor-grabbing' : 'cursor-zoom-in'}`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onDoubleClick={() => (scale > MIN_SCALE ? reset() : zoomBy(2))}
+          >
+            <img
+              src={src}
+              alt={alt}
+              draggable={false}
+              onError={onError}
+              className={`w-full ${fullscreen || compact ? 'h-full object-contain' : 'h-auto'} transition-transform duration-100`}
+              style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${scale})` }}
+            />
+          </div>
+          <div className="absolute top-2 right-2 flex gap-1">
+            <button onClick={() => zoomBy(ZOOM_STEP)} disabled={scale >= MAX_SCALE} className={toolButtonClass} aria-label={t('shakemap.zoomIn')} title={t('shakemap.zoomIn')}>
+              <ZoomIn className={iconClass} />
+            </button>
+            <button onClick={() => zoomBy(1 / ZOOM_STEP)} disabled={scale <= MIN_SCALE} className={toolButtonClass} aria-label={t('shakemap.zoomOut')} title={t('shakemap.zoomOut')}>
+              <ZoomOut className={iconClass} />
+            </button>
+            <button onClick={reset} disabled={scale === MIN_SCALE} className={toolButtonClass} aria-label={t('shakemap.reset')} title={t('shakemap.reset')}>
+              <RotateCcw className={iconClass} />
+            </button>
+            {document.fullscreenEnabled && (
+              <button onClick={toggleFullscreen} className={toolButtonClass} aria-label={t(fullscreen ? 'shakemap.exitFullscreen' : 'shakemap.fullscreen')} title={t(fullscreen ? 'shakemap.exitFullscreen' : 'shakemap.fullscreen')}>
+                {fullscreen ? <Minimize2 className={iconClass} /> : <Maximize2 className={iconClass} />}
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ShakemapViewer;
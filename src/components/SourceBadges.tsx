@@ -0,0 +1,37 @@
+import { AGENCY_NAMES } from '../lib/agencies';
+import { formatMagnitude } from '../lib/format';
+import type { Translator } from '../lib/i18n';
+import type { Quake } from '../types';
+
+interface SourceBadgesProps {
+  quake: Quake;
+  darkMode: boolean;
+  i18n: Translator;
+  className?: string;
+}
+
+// Which agencies reported the event: the one the card shows first, then the
+// others with their own magnitude
+function SourceBadges({ quake, darkMode, i18n, className = '' }: SourceBadgesProps) {
+  const { t, language } = i18n;
+  const source = quake.source || 'bmkg';
+  const solutions = quake.solutions || [];
+
+  return (
+    <span className={`inline-flex flex-wrap items-center gap-1 ${className}`} title={t('agencies.sourceTitle')}>
+      <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${source === 'bmkg' ? 'bg-blue-600 text-white' : 'bg-amber-500 text-white'}`}>
+        {AGENCY_NAMES[source]}
+      </span>
+      {solutions.map(solution => (
+        <span
+          key={`${solution.agency}-${solution.eventId}`}
+          className={`px-2 py-0.5 rounded-full text-xs font-medium border ${darkMode ? 'border-gray-600 text-gray-300' : 'border-gray-300 text-gray-600'}`}
+        >
+          {AGENCY_NAMES[solution.agency]} M {formatMagnitude(solution.magnitude, language)}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+export default SourceBadges;
@@ -0,0 +1,304 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+import { BarChart3 } from 'lucide-react';
+import { getAllArchivedQuakes } from '../lib/archive';
+import { formatDepth, formatMagnitude, formatNumber } from '../lib/format';
+import type { Translator } from '../lib/i18n';
+import { dailyCounts, gutenbergRichter, magnitudeHistogram, topRegions } from '../lib/statistics';
+import type { Quake } from '../types';
+
+type StatisticsSource = 'live' | 'archive';
+
+interface StatisticsPanelProps {
+  // Events from the live feeds
+  events: Quake[];
+  darkMode: boolean;
+  i18n: Translator;
+  // Bumped by App after every archive write
+  archiveVersion: number;
+}
+
+interface ChartProps {
+  title: string;
+  subtitle?: ReactNode;
+  darkMode: boolean;
+  children: ReactNode;
+}
+
+// Every chart is drawn in the same 400×240 viewBox with room for axis labels
+const CHART = { width: 400, height: 240, left: 40, right: 12, top: 12, bottom: 32 };
+const PLOT_WIDTH = CHART.width - CHART.left - CHART.right;
+const PLOT_HEIGHT = CHART.height - CHART.top - CHART.bottom;
+
+const scale = (value: number, min: number, max: number, size: number) =>
+  max === min ? size / 2 : ((value - min) / (max - min)) * size;
+
+const niceMax = (value: number) => {
+  if (value <= 5) return Math.max(1, Math.ceil(value));
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  return Math.ceil(value / magnitude) * magnitude;
+};
+
+function Chart({ title, subtitle, darkMode, children }: ChartProps) {
+  return (
+    <div className={`rounded-2xl border p-4 ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+      <p className={`font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'}`}>{title}</p>
+      {subtitle && <p className={`text-xs mb-2 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{subtitle}</p>}
+      {children}
+    </div>
+  );
+}
+
+function StatisticsPanel({ events, darkMode, i18n, archiveVersion }: StatisticsPanelProps) {
+  const { t, language } = i18n;
+  const [source, setSource] = useState<StatisticsSource>('live');
+  const [archived, setArchived] = useState<Quake[]>([]);
+  const [archiveError, setArchiveError] = useState(false);
+
+  useEffect(() => {
+    if (source !== 'archive') return;
+    let cancelled = false;
+    getAllArchivedQuakes()
+      .then(quakes => {
+        if (!cancelled) {
+          setArchived(quakes);
+          setArchiveError(false);
+        }
+      })
+      .catch(err => {
+        console.error('Error reading earthquake archive:', err);
+        if (!cancelled) setArchiveError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [source, archiveVersion]);
+
+  // The archive normally holds every live event already, but the latest
+  // refresh may not have been written yet
+  const quakes = useMemo(() => {
+    if (source === 'live') return events;
+    const merged = new Map<string, Quake>();
+    archived.forEach(quake => merged.set(quake.id, quake));
+    events.forEach(quake => merged.set(quake.id, merged.get(quake.id) || quake));
+    return Array.from(merged.values());
+  }, [source, events, archived]);
+
+  const histogram = useMemo(() => magnitudeHistogram(quakes), [quakes]);
+  const frequency = useMemo(() => gutenbergRichter(quakes), [quakes]);
+  const days = useMemo(() => dailyCounts(quakes), [quakes]);
+  const regions = useMemo(() => topRegions(quakes), [quakes]);
+
+  const axisColor = darkMode ? '#6b7280' : '#9ca3af';
+  const textColor = darkMode ? '#d1d5db' : '#4b5563';
+  const gridColor = darkMode ? '#374151' : '#e5e7eb';
+  const toggleClass = (active: boolean) => `px-3 py-2 rounded-xl text-sm font-medium transition-all duration-300 ${
+    active
+      ? 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white shadow-lg'
+      : darkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+  }`;
+
+  const axes = (xLabel: string, yLabel: string) => (
+    <g fontSize={10} fill={textColor}>
+      <line x1={CHART.left} x2={CHART.left} y1={CHART.top} y2={CHART.top + PLOT_HEIGHT} stroke={axisColor} />
+      <line x1={CHART.left} x2={CHART.left + PLOT_WIDTH} y1={CHART.top + PLOT_HEIGHT} y2={CHART.top + PLOT_HEIGHT} stroke={axisColor} />
+      <text x={CHART.left + PLOT_WIDTH / 2} y={CHART.height - 2} textAnchor="middle">{xLabel}</text>
+      <text x={10} y={CHART.top + PLOT_HEIGHT / 2} textAnchor="middle" transform={`rotate(-90 10 ${CHART.top + PLOT_HEIGHT / 2})`}>{yLabel}</text>
+    </g>
+  );
+
+  const renderHistogram = () => {
+    const maxCount = niceMax(Math.max(...histogram.map(bin => bin.count)));
+    const barWidth = PLOT_WIDTH / histogram.length;
+    return (
+      <svg viewBox={`0 0 ${CHART.width} ${CHART.height}`} className="w-full h-auto" role="img" aria-label={t('stats.histogram')}>
+        <text x={CHART.left - 4} y={CHART.top + 4} fontSize={10} fill={textColor} textAnchor="end">{maxCount}</text>
+        {histogram.map((bin, i) => {
+          const height = scale(bin.count, 0, maxCount, PLOT_HEIGHT);
+          return (
+            <g key={bin.magnitude}>
+              <rect
+                x={CHART.left + i * barWidth + 1}
+                y={CHART.top + PLOT_HEIGHT - height}
+                width={Math.max(1, barWidth - 2)}
+                height={height}
+                fill="#6366f1"
+              >
+                <title>{`M ${formatMagnitude(bin.magnitude, language)}–${formatMagnitude(bin.magnitude + 0.4, language)}: ${bin.count}`}</title>
+              </rect>
+              <text x={CHART.left + i * barWidth + barWidth / 2} y={CHART.top + PLOT_HEIGHT + 12} fontSize={9} fill={textColor} textAnchor="middle">
+                {formatMagnitude(bin.magnitude, language)}
+              </text>
+            </g>
+          );
+        })}
+        {axes(t('stats.magnitude'), t('stats.count'))}
+      </svg>
+    );
+  };
+
+  // log10 N(≥M) against M; a straight line here is the Gutenberg–Richter law
+  const renderGutenbergRichter = () => {
+    const points = frequency.cumulative.filter(point => point.count > 0);
+    const minM = points[0].magnitude;
+    const maxM = points[points.length - 1].magnitude;
+    const maxLog = Math.ceil(Math.log10(points[0].count)) || 1;
+    const x = (magnitude: number) => CHART.left + scale(magnitude, minM, maxM, PLOT_WIDTH);
+    const y = (count: number) => CHART.top + PLOT_HEIGHT - scale(Math.log10(count), 0, maxLog, PLOT_HEIGHT);
+    const { aValue, bValue, completeness } = frequency;
+    const fitStart = completeness ?? minM;
+    const fitY = (magnitude: number) => {
+      const log = (aValue ?? 0) - (bValue ?? 0) * magnitude;
+      return CHART.top + PLOT_HEIGHT - scale(Math.max(0, log), 0, maxLog, PLOT_HEIGHT);
+    };
+    return (
+      <svg viewBox={`0 0 ${CHART.width} ${CHART.height}`} className="w-full h-auto" role="img" aria-label={t('stats.gutenbergRichter')}>
+        {Array.from({ length: maxLog + 1 }, (_, power) => (
+          <g key={power}>
+            <line x1={CHART.left} x2={CHART.left + PLOT_WIDTH} y1={y(10 ** power)} y2={y(10 ** power)} stroke={gridColor} />
+            <text x={CHART.left - 4} y={y(10 ** power) + 3} fontSize={10} fill={textColor} textAnchor="end">{10 ** power}</text>
+          </g>
+        ))}
+        {aValue !== null && bValue !== null && (
+          <line x1={x(fitStart)} x2={x(maxM)} y1={fitY(fitStart)} y2={fitY(maxM)} stroke="#f97316" strokeWidth={2} strokeDasharray="6 4" />
+        )}
+        {points.map(point => (
+          <circle key={point.magnitude} cx={x(point.magnitude)} cy={y(point.count)} r={3} fill="#2563eb">
+            <title>{`N(≥${formatMagnitude(point.magnitude, language)}) = ${point.count}`}</title>
+          </circle>
+        ))}
+        <text x={CHART.left} y={CHART.top + PLOT_HEIGHT + 12} fontSize={9} fill={textColor}>{formatMagnitude(minM, language)}</text>
+        <text x={CHART.left + PLOT_WIDTH} y={CHART.top + PLOT_HEIGHT + 12} fontSize={9} fill={textColor} textAnchor="end">{formatMagnitude(maxM, language)}</text>
+        {axes(t('stats.magnitude'), 'N(≥M)')}
+      </svg>
+    );
+  };
+
+  const renderDepthScatter = () => {
+    const maxDepth = niceMax(Math.max(...quakes.map(quake => quake.depthKm)));
+    const magnitudes = quakes.map(quake => quake.magnitude);
+    const minM = Math.floor(Math.min(...magnitudes));
+    const maxM = Math.ceil(Math.max(...magnitudes));
+    return (
+      <svg viewBox={`0 0 ${CHART.width} ${CHART.height}`} className="w-full h-auto" role="img" aria-label={t('stats.depthScatter')}>
+        <text x={CHART.left - 4} y={CHART.top + 4} fontSize={10} fill={textColor} textAnchor="end">0</text>
+        <text x={CHART.left - 4} y={CHART.top + PLOT_HEIGHT} fontSize={10} fill={textColor} textAnchor="end">{maxDepth}</text>
+        {quakes.map(quake => (
+          // Depth grows downwards, as in a cross-section
+          <circle
+            key={quake.id}
+            cx={CHART.left + scale(quake.magnitude, minM, maxM, PLOT_WIDTH)}
+            cy={CHART.top + scale(quake.depthKm, 0, maxDepth, PLOT_HEIGHT)}
+            r={3}
+            fill="#10b981"
+            fillOpacity={0.7}
+          >
+            <title>{`M ${formatMagnitude(quake.magnitude, language)}, ${formatDepth(quake.depthKm, language)} - ${quake.region}`}</title>
+          </circle>
+        ))}
+        <text x={CHART.left} y={CHART.top + PLOT_HEIGHT + 12} fontSize={9} fill={textColor}>{minM}</text>
+        <text x={CHART.left + PLOT_WIDTH} y={CHART.top + PLOT_HEIGHT + 12} fontSize={9} fill={textColor} textAnchor="end">{maxM}</text>
+        {axes(t('stats.magnitude'), t('stats.depthKm'))}
+      </svg>
+    );
+  };
+
+  const renderDailyCounts = () => {
+    const maxCount = niceMax(Math.max(...days.map(day => day.count)));
+    const barWidth = PLOT_WIDTH / days.length;
+    return (
+      <svg viewBox={`0 0 ${CHART.width} ${CHART.height}`} className="w-full h-auto" role="img" aria-label={t('stats.daily')}>
+        <text x={CHART.left - 4} y={CHART.top + 4} fontSize={10} fill={textColor} textAnchor="end">{maxCount}</text>
+        {days.map((day, i) => {
+          const height = scale(day.count, 0, maxCount, PLOT_HEIGHT);
+          return (
+            <rect
+              key={day.day}
+              x={CHART.left + i * barWidth + (barWidth > 4 ? 1 : 0)}
+              y={CHART.top + PLOT_HEIGHT - height}
+              width={Math.max(1, barWidth - (barWidth > 4 ? 2 : 0))}
+              height={height}
+              fill="#f59e0b"
+            >
+              <title>{`${day.day}: ${day.count}`}</title>
+            </rect>
+          );
+        })}
+        <text x={CHART.left} y={CHART.top + PLOT_HEIGHT + 12} fontSize={9} fill={textColor}>{days[0].day}</text>
+        <text x={CHART.left + PLOT_WIDTH} y={CHART.top + PLOT_HEIGHT + 12} fontSize={9} fill={textColor} textAnchor="end">{days[days.length - 1].day}</text>
+        {axes(t('stats.date'), t('stats.count'))}
+      </svg>
+    );
+  };
+
+  const maxRegionCount = regions[0]?.count || 1;
+
+  return (
+    <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white'} rounded-3xl shadow-2xl p-8 border backdrop-blur-sm bg-opacity-95`}>
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+        <h3 className={`text-2xl font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} flex items-center gap-3`}>
+          <BarChart3 className="h-6 w-6 text-indigo-500" />
+          {t('stats.title')}
+        </h3>
+        <div className="flex gap-2">
+          <button onClick={() => setSource('live')} className={toggleClass(source === 'live')}>{t('stats.sourceLive')}</button>
+          <button onClick={() => setSource('archive')} className={toggleClass(source === 'archive')}>{t('stats.sourceArchive')}</button>
+        </div>
+      </div>
+      <p className={`${darkMode ? 'text-gray-300' : 'text-gray-600'} mb-8 text-lg`}>
+        {t('stats.description', { count: quakes.length })}
+      </p>
+
+      {source === 'archive' && archiveError ? (
+        <p className="text-center text-red-500 py-16">{t('history.readError')}</p>
+      ) : quakes.length === 0 ? (
+        <div className="text-center py-16">
+          <BarChart3 className={`h-16 w-16 ${darkMode ? 'text-gray-600' : 'text-gray-400'} mx-auto mb-6`} />
+          <p className={`${darkMode ? 'text-gray-400' : 'text-gray-500'} text-lg`}>{t('stats.empty')}</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Chart title={t('stats.histogram')} subtitle={t('stats.histogramHint')} darkMode={darkMode}>
+            {renderHistogram()}
+          </Chart>
+          <Chart
+            title={t('stats.gutenbergRichter')}
+            subtitle={frequency.bValue !== null && frequency.completeness !== null
+              ? t('stats.bValue', {
+                  b: formatNumber(frequency.bValue, 2, language),
+                  mc: formatMagnitude(frequency.completeness, language),
+                  n: frequency.sampleSize
+                })
+              : t('stats.bValueUnavailable')}
+            darkMode={darkMode}
+          >
+            {renderGutenbergRichter()}
+          </Chart>
+          <Chart title={t('stats.depthScatter')} darkMode={darkMode}>
+            {renderDepthScatter()}
+          </Chart>
+          <Chart title={t('stats.daily')} darkMode={darkMode}>
+            {renderDailyCounts()}
+          </Chart>
+          <div className="lg:col-span-2">
+            <Chart title={t('stats.topRegions')} subtitle={t('stats.topRegionsHint')} darkMode={darkMode}>
+              <ul className="space-y-2 mt-2">
+                {regions.map(region => (
+                  <li key={region.region} className="flex items-center gap-3 text-sm">
+                    <span className={`w-40 truncate ${darkMode ? 'text-gray-300' : 'text-gray-700'}`} title={region.region}>{region.region}</span>
+                    <span className="flex-1">
+                      <span className="block h-3 rounded-full bg-indigo-500" style={{ width: `${(region.count / maxRegionCount) * 100}%` }}></span>
+                    </span>
+                    <span className={`w-10 text-right ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{region.count}</span>
+                  </li>
+                ))}
+              </ul>
+            </Chart>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default StatisticsPanel;
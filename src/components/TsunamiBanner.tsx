@@ -0,0 +1,79 @@
+import type { MouseEvent } from 'react';
+import { ExternalLink, Waves, X } from 'lucide-react';
+import { formatEventTime, formatMagnitude, formatRelativeTime } from '../lib/format';
+import type { Translator } from '../lib/i18n';
+import { eventPath } from '../lib/router';
+import type { TimeZonePreference } from '../lib/timezones';
+import { TSUNAMI_STATUS_LABELS } from '../lib/tsunami';
+import type { Quake } from '../types';
+
+interface TsunamiBannerProps {
+  // Events with tsunami potential or a warning that haven't been dismissed
+  quakes: Quake[];
+  i18n: Translator;
+  timeZonePreference: TimeZonePreference;
+  now: Date;
+  onDismiss: (quake: Quake) => void;
+  onDismissAll: () => void;
+  onOpenEvent: (event: MouseEvent, quake: Quake) => void;
+}
+
+// Rendered inside the sticky header, so it stays on screen on every page
+// until dismissed
+function TsunamiBanner({ quakes, i18n, timeZonePreference, now, onDismiss, onDismissAll, onOpenEvent }: TsunamiBannerProps) {
+  const { t, language } = i18n;
+  if (quakes.length === 0) return null;
+  const hasWarning = quakes.some(quake => quake.tsunami === 'warning');
+
+  return (
+    <div role="alert" className={`w-full text-white shadow-2xl ${hasWarning ? 'bg-red-700' : 'bg-orange-600'}`}>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-3 sm:py-4 space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <p className="flex items-center gap-3 text-base sm:text-lg font-bold">
+            <Waves className="h-6 w-6 flex-shrink-0 animate-pulse" />
+            {t(hasWarning ? 'tsunami.bannerWarning' : 'tsunami.bannerPotential')}
+          </p>
+          {quakes.length > 1 && (
+            <button onClick={onDismissAll} className="text-xs sm:text-sm font-medium px-3 py-1.5 rounded-lg bg-white/20 hover:bg-white/30 transition-colors duration-300">
+              {t('tsunami.dismissAll')}
+            </button>
+          )}
+        </div>
+        <ul className="space-y-2">
+          {quakes.map(quake => (
+            <li key={quake.id} className="flex items-start justify-between gap-4 rounded-xl bg-black/15 px-3 sm:px-4 py-2 sm:py-3">
+              <div className="min-w-0 text-sm">
+                <p className="font-semibold">
+                  <span className="uppercase tracking-wide mr-2">{t(TSUNAMI_STATUS_LABELS[quake.tsunami])}</span>
+                  M {formatMagnitude(quake.magnitude, language)} - {quake.region}
+                </p>
+                <p className="text-white/85 text-xs sm:text-sm">
+                  {formatEventTime(quake, timeZonePreference, language).primary} ({formatRelativeTime(quake.time, now, language)})
+                  {quake.potensi && ` • ${quake.potensi}`}
+                </p>
+                <a
+                  href={eventPath(quake.id)}
+                  onClick={e => onOpenEvent(e, quake)}
+                  className="inline-flex items-center gap-1 mt-1 text-xs font-medium underline"
+                >
+                  <ExternalLink className="h-3 w-3" />
+                  {t('quake.details')}
+                </a>
+              </div>
+              <button
+                onClick={() => onDismiss(quake)}
+                aria-label={t('tsunami.dismiss')}
+                title={t('tsunami.dismiss')}
+                className="p-1.5 rounded-lg bg-white/20 hover:bg-white/30 transition-colors duration-300 flex-shrink-0"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+export default TsunamiBanner;
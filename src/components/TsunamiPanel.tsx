@@ -0,0 +1,149 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+import { BellRing, Search, Volume2, Waves } from 'lucide-react';
+import { getAllArchivedQuakes } from '../lib/archive';
+import { EMPTY_FILTERS, applyFilters } from '../lib/filters';
+import type { Translator } from '../lib/i18n';
+import { TSUNAMI_STATUS_LABELS, isTsunamiRelevant, playTsunamiSound } from '../lib/tsunami';
+import type { TsunamiSettings } from '../lib/tsunami';
+import type { Quake, TsunamiPotential } from '../types';
+
+interface TsunamiPanelProps {
+  // Events from the live feeds; the archive supplies older ones
+  events: Quake[];
+  settings: TsunamiSettings;
+  onSettingsChange: (settings: TsunamiSettings) => void;
+  darkMode: boolean;
+  i18n: Translator;
+  archiveVersion: number;
+  renderCard: (quake: Quake, index: number) => ReactNode;
+}
+
+type StatusFilter = 'all' | TsunamiPotential;
+
+const STATUS_FILTERS: StatusFilter[] = ['all', 'warning', 'potential', 'ended'];
+
+function TsunamiPanel({ events, settings, onSettingsChange, darkMode, i18n, archiveVersion, renderCard }: TsunamiPanelProps) {
+  const { t } = i18n;
+  const [archived, setArchived] = useState<Quake[]>([]);
+  const [status, setStatus] = useState<StatusFilter>('all');
+  const [search, setSearch] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [minMagnitude, setMinMagnitude] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    getAllArchivedQuakes()
+      .then(quakes => {
+        if (!cancelled) setArchived(quakes);
+      })
+      .catch(err => console.warn('Failed to read archived earthquakes:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [archiveVersion]);
+
+  // The live copy wins, since it carries BMKG's latest wording
+  const history = useMemo(() => {
+    const merged = new Map<string, Quake>();
+    [...archived, ...events].forEach(quake => {
+      if (isTsunamiRelevant(quake)) merged.set(quake.id, quake);
+    });
+    const filtered = applyFilters(Array.from(merged.values()), {
+      ...EMPTY_FILTERS,
+      search,
+      fromDate,
+      toDate,
+      minMagnitude: minMagnitude ? parseFloat(minMagnitude) : null
+    });
+    return filtered
+      .filter(quake => status === 'all' || quake.tsunami === status)
+      .sort((a, b) => b.time.getTime() - a.time.getTime());
+  }, [archived, events, status, search, fromDate, toDate, minMagnitude]);
+
+  const inputClass = `w-full px-3 py-2 rounded-xl border text-sm ${darkMode ? 'bg-gray-700 border-gray-600 text-gray-200' : 'bg-white border-gray-300 text-gray-700'}`;
+  const labelClass = `block text-xs font-medium mb-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const toggleClass = (active: boolean) => `flex items-center gap-2 px-3 py-2 rounded-xl text-sm font-medium transition-all duration-300 ${
+    active
+      ? 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white shadow-lg'
+      : darkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+  }`;
+
+  return (
+    <div className={`${darkMode ? 'bg-gray-800 border-gray-700' : 'bg-white'} rounded-3xl shadow-2xl p-8 border backdrop-blur-sm bg-opacity-95`}>
+      <h3 className={`text-2xl font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'} mb-4 flex items-center gap-3`}>
+        <Waves className="h-6 w-6 text-cyan-500" />
+        {t('tsunami.title')}
+      </h3>
+      <p className={`${darkMode ? 'text-gray-300' : 'text-gray-600'} mb-6 text-lg`}>
+        {t('tsunami.description')}
+      </p>
+
+      <div className={`flex flex-wrap items-center gap-3 mb-8 pb-6 border-b ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+        <span className={`text-sm font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'}`}>{t('tsunami.channel')}</span>
+        <button onClick={() => onSettingsChange({ ...settings, notify: !settings.notify })} aria-pressed={settings.notify} className={toggleClass(settings.notify)}>
+          <BellRing className="h-4 w-4" />
+          {t('tsunami.notify')}
+        </button>
+        <button onClick={() => onSettingsChange({ ...settings, sound: !settings.sound })} aria-pressed={settings.sound} className={toggleClass(settings.sound)}>
+          <Volume2 className="h-4 w-4" />
+          {t('tsunami.sound')}
+        </button>
+        <button onClick={playTsunamiSound} className={toggleClass(false)}>
+          {t('tsunami.testSound')}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 mb-8">
+        <div>
+          <label className={labelClass} htmlFor="tsunami-status">{t('tsunami.status')}</label>
+          <select id="tsunami-status" value={status} onChange={e => setStatus(e.target.value as StatusFilter)} className={inputClass}>
+            {STATUS_FILTERS.map(option => (
+              <option key={option} value={option}>{option === 'all' ? t('tsunami.statusAll') : t(TSUNAMI_STATUS_LABELS[option])}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="tsunami-search">{t('filters.search')}</label>
+          <div className="relative">
+            <Search className="h-4 w-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              id="tsunami-search"
+              type="search"
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              placeholder={t('history.searchPlaceholder')}
+              className={`${inputClass} pl-9`}
+            />
+          </div>
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="tsunami-magnitude">{t('filters.minMagnitude')}</label>
+          <input id="tsunami-magnitude" type="number" min="0" max="10" step="0.1" value={minMagnitude} onChange={e => setMinMagnitude(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="tsunami-from">{t('filters.fromDate')}</label>
+          <input id="tsunami-from" type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="tsunami-to">{t('filters.toDate')}</label>
+          <input id="tsunami-to" type="date" value={toDate} onChange={e => setToDate(e.target.value)} className={inputClass} />
+        </div>
+      </div>
+
+      {history.length > 0 ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4 sm:gap-6">
+          {history.map((quake, index) => renderCard(quake, index))}
+        </div>
+      ) : (
+        <div className="text-center py-16">
+          <Waves className={`h-16 w-16 ${darkMode ? 'text-gray-600' : 'text-gray-400'} mx-auto mb-6`} />
+          <p className={`${darkMode ? 'text-gray-400' : 'text-gray-500'} text-lg`}>{t('tsunami.empty')}</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TsunamiPanel;
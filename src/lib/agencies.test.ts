@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { mergeAgencySolutions } from './agencies';
+import type { AgencySolution, Quake } from '../types';
+
+const POSO_TIME = new Date('2025-07-19T06:30:21Z').getTime();
+
+const createQuake = (overrides: Partial<Quake> = {}): Quake => ({
+  id: '20250719063021',
+  time: new Date(POSO_TIME),
+  magnitude: 6.4,
+  depthKm: 10,
+  lat: -1.82,
+  lon: 120.14,
+  region: 'Pusat gempa berada di darat 18 km BaratLaut Poso',
+  tsunami: 'none',
+  potensi: 'Tidak berpotensi tsunami',
+  felt: null,
+  shakemap: null,
+  ...overrides
+});
+
+// Seconds after and km north of the Poso event
+const createSolution = (overrides: Partial<AgencySolution> & { seconds?: number; northKm?: number } = {}): AgencySolution => {
+  const { seconds = 2, northKm = 5, ...rest } = overrides;
+  return {
+    agency: 'usgs',
+    eventId: 'us7000poso',
+    time: new Date(POSO_TIME + seconds * 1000),
+    magnitude: 6.2,
+    magnitudeType: 'mww',
+    depthKm: 12,
+    lat: -1.82 + northKm / 111.19,
+    lon: 120.14,
+    region: 'Sulawesi, Indonesia',
+    url: null,
+    ...rest
+  };
+};
+
+const lists = (recent: Quake[] = [createQuake()]) => ({ latest: recent[0] || null, recent, felt: [] });
+
+describe('mergeAgencySolutions', () => {
+  it('returns the lists untouched without solutions', () => {
+    const input = lists();
+    expect(mergeAgencySolutions(input, [])).toBe(input);
+  });
+
+  it('attaches a solution to the same event in every list, without changing the input', () => {
+    const input = lists();
+    const solution = createSolution();
+    const merged = mergeAgencySolutions({ ...input, felt: [input.recent[0]] }, [solution]);
+    expect(merged.latest?.solutions).toEqual([solution]);
+    expect(merged.recent[0]).toBe(merged.latest);
+    expect(merged.felt[0]).toBe(merged.latest);
+    expect(input.recent[0].solutions).toBeUndefined();
+  });
+
+  it('matches up to one minute and 150 km apart', () => {
+    expect(mergeAgencySolutions(lists(), [createSolution({ seconds: -60 })]).recent[0].solutions).toHaveLength(1);
+    expect(mergeAgencySolutions(lists(), [createSolution({ seconds: 61 })]).recent[0].solutions).toEqual([]);
+    expect(mergeAgencySolutions(lists(), [createSolution({ northKm: 149 })]).recent[0].solutions).toHaveLength(1);
+    expect(mergeAgencySolutions(lists(), [createSolution({ northKm: 151 })]).recent[0].solutions).toEqual([]);
+  });
+
+  it('gives each event the closest solution and places the other on its own', () => {
+    const near = createSolution({ eventId: 'near', seconds: 1, northKm: 2 });
+    const far = createSolution({ eventId: 'far', seconds: 30, northKm: 60 });
+    const merged = mergeAgencySolutions(lists(), [far, near]);
+    expect(merged.latest?.solutions).toEqual([near]);
+    expect(merged.recent.map(quake => quake.id)).toEqual(['usgs-far', '20250719063021']);
+    expect(merged.recent[0]).toMatchObject({ source: 'usgs', tsunami: 'unknown', magnitude: 6.2 });
+  });
+
+  it('matches later agencies against events only earlier agencies saw', () => {
+    const usgs = createSolution({ eventId: 'us7000banda', lat: -6.5, lon: 129.8 });
+    const emsc = createSolution({ agency: 'emsc', eventId: 'banda', lat: -6.52, lon: 129.85, magnitude: 6 });
+    const merged = mergeAgencySolutions(lists(), [emsc, usgs]);
+    const banda = merged.recent.find(quake => quake.id === 'usgs-us7000banda');
+    expect(banda?.solutions).toEqual([emsc]);
+    expect(merged.recent).toHaveLength(2);
+  });
+
+  it('lists unmatched events only when gempaterkini.json would have', () => {
+    const elsewhere = { lat: -8.5, lon: 117 };
+    const small = createSolution({ eventId: 'small', magnitude: 4.9, ...elsewhere });
+    const early = createSolution({ eventId: 'early', seconds: -3600, ...elsewhere });
+    const listed = createSolution({ eventId: 'listed', seconds: 3600, magnitude: 5, ...elsewhere });
+    expect(mergeAgencySolutions(lists(), [small, early, listed]).recent.map(quake => quake.id)).toEqual(['usgs-listed', '20250719063021']);
+  });
+
+  it('lists big unmatched events when the BMKG lists are empty', () => {
+    const merged = mergeAgencySolutions(lists([]), [createSolution()]);
+    expect(merged).toMatchObject({ latest: null, felt: [] });
+    expect(merged.recent.map(quake => quake.id)).toEqual(['usgs-us7000poso']);
+  });
+});
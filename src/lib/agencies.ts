@@ -0,0 +1,261 @@
+import { distanceKm } from './geo';
+import type { QuakeProvider } from './providers';
+import type { AgencyId, AgencySolution, Quake } from '../types';
+
+export type ExternalAgency = Exclude<AgencyId, 'bmkg'>;
+
+export const EXTERNAL_AGENCIES: ExternalAgency[] = ['usgs', 'emsc'];
+
+export const AGENCY_NAMES: Record<AgencyId, string> = {
+  bmkg: 'BMKG',
+  usgs: 'USGS',
+  emsc: 'EMSC'
+};
+
+export interface AgencyResult {
+  agency: ExternalAgency;
+  solutions: AgencySolution[];
+  fetchedAt: Date | null;
+  error: string | null;
+}
+
+export interface QuakeLists {
+  latest: Quake | null;
+  recent: Quake[];
+  felt: Quake[];
+}
+
+// BMKG's area of responsibility, roughly; both agencies filter on it server side
+const REGION = { minLat: -12, maxLat: 8, minLon: 93, maxLon: 142 };
+const QUERY_DAYS = 7;
+const MIN_MAGNITUDE = 4;
+
+// Origin times from different networks rarely differ by more than a few
+// seconds, locations by a few tens of km; the margins cover poorly
+// constrained offshore events
+const MATCH_WINDOW_MS = 60 * 1000;
+const MATCH_DISTANCE_KM = 150;
+
+// gempaterkini.json lists M5+; events only other agencies saw join the
+// recent list on the same terms
+const RECENT_MIN_MAGNITUDE = 5;
+
+// USGS and EMSC catalogs are queried far less often than the BMKG feeds
+const AGENCY_REFRESH_MS = 2 * 60 * 1000;
+const AGENCY_TIMEOUT_MS = 15000;
+
+const AGENCIES_KEY = 'agencies';
+
+// Last result per agency, so frequent BMKG polling doesn't hammer the catalogs
+const lastResults = new Map<ExternalAgency, AgencyResult>();
+
+export const buildAgencyQueryUrl = (agency: ExternalAgency, now: Date = new Date()) => {
+  const start = new Date(now.getTime() - QUERY_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 19);
+  if (agency === 'usgs') {
+    const params = new URLSearchParams({
+      format: 'geojson',
+      starttime: start,
+      minlatitude: String(REGION.minLat),
+      maxlatitude: String(REGION.maxLat),
+      minlongitude: String(REGION.minLon),
+      maxlongitude: String(REGION.maxLon),
+      minmagnitude: String(MIN_MAGNITUDE),
+      orderby: 'time'
+    });
+    return `https://earthquake.usgs.gov/fdsnws/event/1/query?${params}`;
+  }
+  const params = new URLSearchParams({
+    format: 'json',
+    start,
+    minlat: String(REGION.minLat),
+    maxlat: String(REGION.maxLat),
+    minlon: String(REGION.minLon),
+    maxlon: String(REGION.maxLon),
+    minmag: String(MIN_MAGNITUDE),
+    orderby: 'time',
+    limit: '500'
+  });
+  return `https://www.seismicportal.eu/fdsnws/event/1/query?${params}`;
+};
+
+interface Feature {
+  id?: unknown;
+  properties?: Record<string, unknown>;
+  geometry?: { coordinates?: unknown };
+}
+
+const getFeatures = (payload: unknown): Feature[] => {
+  const features = (payload as { features?: unknown } | null)?.features;
+  if (!Array.isArray(features)) {
+    throw new Error('Payload is not a GeoJSON FeatureCollection');
+  }
+  return features as Feature[];
+};
+
+const isValidSolution = (solution: AgencySolution) =>
+  !Number.isNaN(solution.time.getTime()) &&
+  [solution.lat, solution.lon, solution.magnitude, solution.depthKm].every(Number.isFinite);
+
+// https://earthquake.usgs.gov/fdsnws/event/1/ with format=geojson
+export const parseUsgsPayload = (payload: unknown): AgencySolution[] =>
+  getFeatures(payload)
+    .map(feature => {
+      const properties = feature.properties || {};
+      const [lon, lat, depth] = Array.isArray(feature.geometry?.coordinates) ? feature.geometry.coordinates as number[] : [];
+      return {
+        agency: 'usgs' as const,
+        eventId: String(feature.id ?? ''),
+        time: new Date(Number(properties.time)),
+        magnitude: Number(properties.mag),
+        magnitudeType: String(properties.magType || 'M'),
+        depthKm: Number(depth),
+        lat: Number(lat),
+        lon: Number(lon),
+        region: String(properties.place || ''),
+        url: typeof properties.url === 'string' ? properties.url : null
+      };
+    })
+    .filter(isValidSolution);
+
+// https://www.seismicportal.eu/fdsnws/event/1/ with format=json, which is
+// GeoJSON with the values repeated in the properties
+export const parseEmscPayload = (payload: unknown): AgencySolution[] =>
+  getFeatures(payload)
+    .map(feature => {
+      const properties = feature.properties || {};
+      const eventId = String(properties.unid ?? feature.id ?? '');
+      return {
+        agency: 'emsc' as const,
+        eventId,
+        time: new Date(String(properties.time)),
+        magnitude: Number(properties.mag),
+        magnitudeType: String(properties.magtype || 'M'),
+        depthKm: Number(properties.depth),
+        lat: Number(properties.lat),
+        lon: Number(properties.lon),
+        region: String(properties.flynn_region || ''),
+        url: eventId ? `https://www.seismicportal.eu/eventdetails.html?unid=${encodeURIComponent(eventId)}` : null
+      };
+    })
+    .filter(isValidSolution);
+
+const PARSERS: Record<ExternalAgency, (payload: unknown) => AgencySolution[]> = {
+  usgs: parseUsgsPayload,
+  emsc: parseEmscPayload
+};
+
+// Never throws: a failed catalog keeps its last solutions and reports the error
+export const fetchAgencySolutions = async (provider: QuakeProvider, agency: ExternalAgency): Promise<AgencyResult> => {
+  const previous = lastResults.get(agency);
+  if (previous?.fetchedAt && !previous.error && Date.now() - previous.fetchedAt.getTime() < AGENCY_REFRESH_MS) {
+    return previous;
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), AGENCY_TIMEOUT_MS);
+  let result: AgencyResult;
+  try {
+    const response = await provider.fetchAgencyFeed(agency, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    result = { agency, solutions: PARSERS[agency](await response.json()), fetchedAt: new Date(), error: null };
+  } catch (err) {
+    console.warn(`Failed to fetch ${AGENCY_NAMES[agency]} events:`, err);
+    const error = controller.signal.aborted ? `Timed out after ${AGENCY_TIMEOUT_MS} ms` : err instanceof Error ? err.message : String(err);
+    result = { agency, solutions: previous?.solutions || [], fetchedAt: previous?.fetchedAt || null, error };
+  } finally {
+    clearTimeout(timeout);
+  }
+  lastResults.set(agency, result);
+  return result;
+};
+
+export const loadAgencies = (): ExternalAgency[] => {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(AGENCIES_KEY) || '[]');
+    return Array.isArray(saved) ? EXTERNAL_AGENCIES.filter(agency => saved.includes(agency)) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveAgencies = (agencies: ExternalAgency[]) => {
+  localStorage.setItem(AGENCIES_KEY, JSON.stringify(agencies));
+};
+
+// 0 for a perfect match, 2 at the edge of both windows
+const matchScore = (quake: Quake, solution: AgencySolution) => {
+  const dt = Math.abs(quake.time.getTime() - solution.time.getTime());
+  if (dt > MATCH_WINDOW_MS) return null;
+  const distance = distanceKm(quake, solution);
+  if (distance > MATCH_DISTANCE_KM) return null;
+  return dt / MATCH_WINDOW_MS + distance / MATCH_DISTANCE_KM;
+};
+
+const solutionToQuake = (solution: AgencySolution): Quake => ({
+  id: `${solution.agency}-${solution.eventId}`,
+  time: solution.time,
+  magnitude: solution.magnitude,
+  depthKm: solution.depthKm,
+  lat: solution.lat,
+  lon: solution.lon,
+  region: solution.region,
+  tsunami: 'unknown',
+  potensi: '',
+  felt: null,
+  shakemap: null,
+  source: solution.agency,
+  solutions: []
+});
+
+// Attaches every agency's solution to the BMKG event it describes. Each
+// agency is matched in turn, closest pairs first and at most one solution
+// per event; what it can't place becomes an event of its own that later
+// agencies can match against. Those events join the recent list when they
+// are big and recent enough to have been in gempaterkini.json.
+export const mergeAgencySolutions = (lists: QuakeLists, solutions: AgencySolution[]): QuakeLists => {
+  if (solutions.length === 0) return lists;
+  const events = new Map<string, Quake>();
+  [...(lists.latest ? [lists.latest] : []), ...lists.recent, ...lists.felt].forEach(quake => {
+    events.set(quake.id, { ...quake, solutions: [] });
+  });
+  const extra: Quake[] = [];
+
+  EXTERNAL_AGENCIES.forEach(agency => {
+    const candidates = [...events.values(), ...extra];
+    const pairs: { quake: Quake; solution: AgencySolution; score: number }[] = [];
+    solutions.filter(solution => solution.agency === agency).forEach(solution => {
+      candidates.forEach(quake => {
+        const score = matchScore(quake, solution);
+        if (score !== null) pairs.push({ quake, solution, score });
+      });
+    });
+    pairs.sort((a, b) => a.score - b.score);
+
+    const matchedQuakes = new Set<string>();
+    const matchedSolutions = new Set<AgencySolution>();
+    pairs.forEach(({ quake, solution }) => {
+      if (matchedQuakes.has(quake.id) || matchedSolutions.has(solution)) return;
+      matchedQuakes.add(quake.id);
+      matchedSolutions.add(solution);
+      quake.solutions = [...(quake.solutions || []), solution];
+    });
+
+    solutions
+      .filter(solution => solution.agency === agency && !matchedSolutions.has(solution))
+      .forEach(solution => extra.push(solutionToQuake(solution)));
+  });
+
+  const pick = (quake: Quake) => events.get(quake.id) || quake;
+  const oldestRecent = Math.min(...lists.recent.map(quake => quake.time.getTime()));
+  const unlisted = extra.filter(quake =>
+    quake.magnitude >= RECENT_MIN_MAGNITUDE && (lists.recent.length === 0 || quake.time.getTime() >= oldestRecent)
+  );
+
+  return {
+    latest: lists.latest ? pick(lists.latest) : null,
+    recent: [...lists.recent.map(pick), ...unlisted].sort((a, b) => b.time.getTime() - a.time.getTime()),
+    felt: lists.felt.map(pick)
+  };
+};
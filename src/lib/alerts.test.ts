@@ -0,0 +1,144 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createRule, evaluateRule, isWithinQuietHours, processAlerts, saveRules } from './alerts';
+import type { AlertRule } from './alerts';
+import type { SavedLocation } from './locations';
+import type { Quake } from '../types';
+
+const NOW = new Date('2025-07-19T07:00:00Z');
+
+const createQuake = (overrides: Partial<Quake> = {}): Quake => ({
+  id: '20250719063021',
+  time: new Date('2025-07-19T06:30:21Z'),
+  magnitude: 6.4,
+  depthKm: 10,
+  lat: -1.82,
+  lon: 120.14,
+  region: 'Pusat gempa berada di darat 18 km BaratLaut Poso',
+  tsunami: 'none',
+  potensi: 'Tidak berpotensi tsunami',
+  felt: null,
+  shakemap: null,
+  ...overrides
+});
+
+const createTestRule = (overrides: Partial<AlertRule> = {}): AlertRule => ({
+  ...createRule('Test'),
+  minMagnitude: null,
+  sound: 'none',
+  ...overrides
+});
+
+const PALU: SavedLocation = { id: 'palu', name: 'Palu', lat: -0.9, lon: 119.87 };
+
+// Local wall-clock time on the NOW day
+const at = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date(NOW);
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+};
+
+describe('evaluateRule', () => {
+  it('matches when every condition holds and lists the reasons', () => {
+    const rule = createTestRule({ minMagnitude: 6, maxDepth: 30, maxDistanceKm: 150, locationId: 'palu', regionKeywords: ['poso'] });
+    const match = evaluateRule(rule, createQuake(), [PALU], 'en');
+    expect(match?.reasons).toHaveLength(4);
+    expect(match?.distance).toBeGreaterThan(100);
+    expect(match?.distance).toBeLessThan(150);
+  });
+
+  it('fails on any condition that does not hold', () => {
+    const quake = createQuake();
+    expect(evaluateRule(createTestRule({ minMagnitude: 6.5 }), quake, [])).toBeNull();
+    expect(evaluateRule(createTestRule({ maxDepth: 5 }), quake, [])).toBeNull();
+    expect(evaluateRule(createTestRule({ maxDistanceKm: 50, locationId: 'palu' }), quake, [PALU])).toBeNull();
+    expect(evaluateRule(createTestRule({ regionKeywords: ['Ambon'] }), quake, [])).toBeNull();
+    expect(evaluateRule(createTestRule({ tsunamiOnly: true }), quake, [])).toBeNull();
+    expect(evaluateRule(createTestRule({ enabled: false }), quake, [])).toBeNull();
+  });
+
+  it('never matches a distance rule whose location was deleted', () => {
+    expect(evaluateRule(createTestRule({ maxDistanceKm: 1000, locationId: 'palu' }), createQuake(), [])).toBeNull();
+  });
+
+  it('includes the magnitude threshold itself', () => {
+    expect(evaluateRule(createTestRule({ minMagnitude: 6.4 }), createQuake(), [])).not.toBeNull();
+  });
+
+  it('matches tsunami-only rules on a potential or a warning', () => {
+    const rule = createTestRule({ tsunamiOnly: true });
+    expect(evaluateRule(rule, createQuake({ tsunami: 'potential' }), [])).not.toBeNull();
+  });
+});
+
+describe('isWithinQuietHours', () => {
+  it('is never quiet without quiet hours or with an empty range', () => {
+    expect(isWithinQuietHours(null, at('03:00'))).toBe(false);
+    expect(isWithinQuietHours({ start: '22:00', end: '22:00' }, at('22:00'))).toBe(false);
+  });
+
+  it('covers a range within one day, start included and end excluded', () => {
+    const quietHours = { start: '13:00', end: '15:30' };
+    expect(isWithinQuietHours(quietHours, at('12:59'))).toBe(false);
+    expect(isWithinQuietHours(quietHours, at('13:00'))).toBe(true);
+    expect(isWithinQuietHours(quietHours, at('15:29'))).toBe(true);
+    expect(isWithinQuietHours(quietHours, at('15:30'))).toBe(false);
+  });
+
+  it('wraps past midnight', () => {
+    const quietHours = { start: '22:00', end: '06:00' };
+    expect(isWithinQuietHours(quietHours, at('21:59'))).toBe(false);
+    expect(isWithinQuietHours(quietHours, at('22:00'))).toBe(true);
+    expect(isWithinQuietHours(quietHours, at('00:00'))).toBe(true);
+    expect(isWithinQuietHours(quietHours, at('05:59'))).toBe(true);
+    expect(isWithinQuietHours(quietHours, at('06:00'))).toBe(false);
+    expect(isWithinQuietHours(quietHours, at('12:00'))).toBe(false);
+  });
+});
+
+describe('processAlerts', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    saveRules([createTestRule({ id: 'strong', minMagnitude: 6 })]);
+  });
+
+  it('only marks current matches as seen on the first run', () => {
+    expect(processAlerts([createQuake()], [], NOW)).toEqual([]);
+    expect(processAlerts([createQuake()], [], NOW)).toEqual([]);
+  });
+
+  it('alerts once per event and rule', () => {
+    processAlerts([], [], NOW);
+    const entries = processAlerts([createQuake()], [], NOW);
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ quakeId: '20250719063021', ruleIds: ['strong'], suppressed: false });
+    expect(processAlerts([createQuake()], [], NOW)).toEqual([]);
+  });
+
+  it('still alerts when an event is revised above the threshold', () => {
+    processAlerts([], [], NOW);
+    expect(processAlerts([createQuake({ magnitude: 5.9 })], [], NOW)).toEqual([]);
+    expect(processAlerts([createQuake({ magnitude: 6.1 })], [], NOW)).toHaveLength(1);
+  });
+
+  it('alerts on seen events for a rule added later, but not again for the old one', () => {
+    processAlerts([], [], NOW);
+    processAlerts([createQuake()], [], NOW);
+    saveRules([createTestRule({ id: 'strong', minMagnitude: 6 }), createTestRule({ id: 'poso', regionKeywords: ['Poso'] })]);
+    const entries = processAlerts([createQuake()], [], NOW);
+    expect(entries.map(entry => entry.ruleIds)).toEqual([['poso']]);
+  });
+
+  it('logs alerts in quiet hours as suppressed and does not repeat them', () => {
+    saveRules([createTestRule({ id: 'strong', minMagnitude: 6, quietHours: { start: '00:00', end: '23:59' } })]);
+    processAlerts([], [], at('12:00'));
+    expect(processAlerts([createQuake()], [], at('12:00'))).toMatchObject([{ suppressed: true }]);
+    expect(processAlerts([createQuake()], [], at('12:00'))).toEqual([]);
+  });
+
+  it('skips events older than a day', () => {
+    processAlerts([], [], NOW);
+    expect(processAlerts([createQuake({ time: new Date('2025-07-18T06:00:00Z') })], [], NOW)).toEqual([]);
+  });
+});
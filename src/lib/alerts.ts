@@ -0,0 +1,244 @@
+import { distanceKm } from './geo';
+import { formatDepth, formatDistance, formatMagnitude } from './format';
+import { loadLanguage, translate } from './i18n';
+import type { Language } from './i18n';
+import type { SavedLocation } from './locations';
+import { playTones } from './sound';
+import { isTsunamiThreat } from './tsunami';
+import type { Quake } from '../types';
+
+export type AlertSound = 'none' | 'chime' | 'siren';
+
+export interface QuietHours {
+  // Local wall-clock times in HH:MM; the range may wrap past midnight
+  start: string;
+  end: string;
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  minMagnitude: number | null;
+  maxDepth: number | null;
+  maxDistanceKm: number | null;
+  locationId: string | null;
+  regionKeywords: string[];
+  tsunamiOnly: boolean;
+  // Supports {magnitude}, {region}, {depth} and {distance} placeholders
+  message: string;
+  sound: AlertSound;
+  quietHours: QuietHours | null;
+}
+
+export interface AlertLogEntry {
+  id: string;
+  quakeId: string;
+  ruleIds: string[];
+  ruleNames: string[];
+  reasons: string[];
+  title: string;
+  body: string;
+  firedAt: string;
+  suppressed: boolean;
+}
+
+interface RuleMatch {
+  rule: AlertRule;
+  reasons: string[];
+  distance: number | null;
+}
+
+const RULES_KEY = 'alertRules';
+const FIRED_KEY = 'alertsFired';
+const LOG_KEY = 'alertLog';
+const MAX_FIRED = 1000;
+const MAX_LOG = 200;
+// Events older than this never alert, so a long absence doesn't end in a burst
+const MAX_ALERT_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Named in the language active when Quakemon first runs
+export const getDefaultRules = (): AlertRule[] => [
+  {
+    id: 'default-strong',
+    name: translate(loadLanguage(), 'alerts.defaultRuleName'),
+    enabled: true,
+    minMagnitude: 6.0,
+    maxDepth: null,
+    maxDistanceKm: null,
+    locationId: null,
+    regionKeywords: [],
+    tsunamiOnly: false,
+    message: 'M{magnitude} - {region}',
+    sound: 'none',
+    quietHours: null
+  }
+];
+
+export const createRule = (name: string): AlertRule => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  enabled: true,
+  minMagnitude: 5.0,
+  maxDepth: null,
+  maxDistanceKm: null,
+  locationId: null,
+  regionKeywords: [],
+  tsunamiOnly: false,
+  message: 'M{magnitude} - {region}',
+  sound: 'chime',
+  quietHours: null
+});
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const loadRules = (): AlertRule[] => readJson<AlertRule[] | null>(RULES_KEY, null) || getDefaultRules();
+
+export const saveRules = (rules: AlertRule[]) => {
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+};
+
+export const loadAlertLog = (): AlertLogEntry[] => readJson(LOG_KEY, []);
+
+export const clearAlertLog = () => {
+  localStorage.removeItem(LOG_KEY);
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export const isWithinQuietHours = (quietHours: QuietHours | null, now: Date) => {
+  if (!quietHours) return false;
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const current = now.getHours() * 60 + now.getMinutes();
+  if (start === end) return false;
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+};
+
+// Returns the reasons the rule matched, or null when any condition fails
+export const evaluateRule = (rule: AlertRule, quake: Quake, locations: SavedLocation[], language: Language = 'id'): RuleMatch | null => {
+  if (!rule.enabled) return null;
+  const reasons: string[] = [];
+  let distance: number | null = null;
+
+  if (rule.minMagnitude !== null) {
+    if (quake.magnitude < rule.minMagnitude) return null;
+    reasons.push(translate(language, 'alerts.reasonMagnitude', {
+      magnitude: formatMagnitude(quake.magnitude, language),
+      min: formatMagnitude(rule.minMagnitude, language)
+    }));
+  }
+  if (rule.maxDepth !== null) {
+    if (quake.depthKm > rule.maxDepth) return null;
+    reasons.push(translate(language, 'alerts.reasonDepth', { depth: formatDepth(quake.depthKm, language), max: rule.maxDepth }));
+  }
+  if (rule.maxDistanceKm !== null) {
+    const location = locations.find(saved => saved.id === rule.locationId);
+    if (!location) return null;
+    distance = distanceKm(location, quake);
+    if (distance > rule.maxDistanceKm) return null;
+    reasons.push(translate(language, 'alerts.reasonDistance', { distance: formatDistance(distance, language), place: location.name }));
+  }
+  if (rule.regionKeywords.length > 0) {
+    const region = quake.region.toLowerCase();
+    const keyword = rule.regionKeywords.find(candidate => region.includes(candidate.toLowerCase()));
+    if (!keyword) return null;
+    reasons.push(translate(language, 'alerts.reasonRegion', { keyword }));
+  }
+  if (rule.tsunamiOnly) {
+    if (!isTsunamiThreat(quake)) return null;
+    reasons.push(translate(language, 'alerts.reasonTsunami'));
+  }
+
+  return { rule, reasons, distance };
+};
+
+const renderMessage = (template: string, quake: Quake, distance: number | null, language: Language) =>
+  template
+    .replace(/\{magnitude\}/g, formatMagnitude(quake.magnitude, language))
+    .replace(/\{region\}/g, quake.region)
+    .replace(/\{depth\}/g, formatDepth(quake.depthKm, language))
+    .replace(/\{distance\}/g, distance === null ? '-' : formatDistance(distance, language));
+
+export const playAlertSound = (sound: AlertSound) => {
+  if (sound === 'none') return;
+  if (sound === 'siren') {
+    playTones([880, 660, 880, 660, 880, 660], 0.35, 'sawtooth');
+  } else {
+    playTones([660, 880], 0.2, 'sine');
+  }
+};
+
+const firedKey = (quake: Quake, rule: AlertRule) => `${quake.id}:${rule.id}`;
+
+// Evaluates every rule against the given events and notifies at most once per
+// event and rule, even across reloads. Only matches are remembered, so an
+// event BMKG revises upward, or one a new rule covers, can still alert. On the
+// very first run the current matches are only marked as seen, so enabling
+// Quakemon doesn't replay old quakes.
+export const processAlerts = (quakes: Quake[], locations: SavedLocation[], now: Date = new Date()): AlertLogEntry[] => {
+  const firstRun = localStorage.getItem(FIRED_KEY) === null;
+  const fired: string[] = readJson(FIRED_KEY, []);
+  const firedSet = new Set(fired);
+  const rules = loadRules();
+  const language = loadLanguage();
+  const entries: AlertLogEntry[] = [];
+
+  quakes.forEach(quake => {
+    // A bare event id was stored before alerts were tracked per rule
+    if (firedSet.has(quake.id) || now.getTime() - quake.time.getTime() > MAX_ALERT_AGE_MS) return;
+
+    const matches = rules
+      .map(rule => evaluateRule(rule, quake, locations, language))
+      .filter((match): match is RuleMatch => match !== null && !firedSet.has(firedKey(quake, match.rule)));
+    if (matches.length === 0) return;
+    matches.forEach(match => {
+      const key = firedKey(quake, match.rule);
+      firedSet.add(key);
+      fired.push(key);
+    });
+    if (firstRun) return;
+
+    // The first matching rule in the list decides how the alert looks
+    const primary = matches[0];
+    const suppressed = isWithinQuietHours(primary.rule.quietHours, now);
+    const entry: AlertLogEntry = {
+      id: `${quake.id}-${now.getTime()}`,
+      quakeId: quake.id,
+      ruleIds: matches.map(match => match.rule.id),
+      ruleNames: matches.map(match => match.rule.name),
+      reasons: matches.flatMap(match => match.reasons),
+      title: `🚨 ${primary.rule.name}`,
+      body: renderMessage(primary.rule.message, quake, primary.distance, language),
+      firedAt: now.toISOString(),
+      suppressed
+    };
+    entries.push(entry);
+
+    if (!suppressed) {
+      if ('Notification' in window && Notification.permission === 'granted') {
+        new Notification(entry.title, { body: entry.body, icon: '/favicon.ico', tag: quake.id });
+      }
+      playAlertSound(primary.rule.sound);
+    }
+  });
+
+  localStorage.setItem(FIRED_KEY, JSON.stringify(fired.slice(-MAX_FIRED)));
+  if (entries.length > 0) {
+    const log = [...entries.reverse(), ...loadAlertLog()].slice(0, MAX_LOG);
+    localStorage.setItem(LOG_KEY, JSON.stringify(log));
+  }
+  return entries;
+};
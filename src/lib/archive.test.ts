@@ -0,0 +1,59 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { archiveQuakes, getArchivedQuake, queryArchive } from './archive';
+import type { Quake } from '../types';
+
+const createQuake = (overrides: Partial<Quake> = {}): Quake => ({
+  id: '20250719063021',
+  time: new Date('2025-07-19T06:30:21Z'),
+  magnitude: 6.4,
+  depthKm: 10,
+  lat: -1.82,
+  lon: 120.14,
+  region: 'Pusat gempa berada di darat 18 km BaratLaut Poso',
+  tsunami: 'none',
+  potensi: 'Tidak berpotensi tsunami',
+  felt: null,
+  shakemap: null,
+  ...overrides
+});
+
+describe('archiveQuakes', () => {
+  it('merges copies of one event from several feeds in the same call', async () => {
+    // autogempa.xml has the shakemap and Potensi, gempadirasakan.json only the felt reports
+    const latest = createQuake({ shakemap: '20250719133021.mmi.jpg', felt: 'V Poso' });
+    const felt = createQuake({ tsunami: 'unknown', potensi: '', felt: 'V Poso, IV Palu, III Tentena' });
+    await archiveQuakes([latest, felt]);
+
+    const archived = await getArchivedQuake(latest.id);
+    expect(archived).toMatchObject({
+      shakemap: '20250719133021.mmi.jpg',
+      potensi: 'Tidak berpotensi tsunami',
+      tsunami: 'none',
+      felt: 'V Poso, IV Palu, III Tentena'
+    });
+  });
+
+  it('keeps what earlier calls stored and when the event was first seen', async () => {
+    const id = '20250718141749';
+    await archiveQuakes([createQuake({ id, shakemap: '20250718211749.mmi.jpg' })]);
+    const first = await getArchivedQuake(id);
+
+    await archiveQuakes([createQuake({ id, tsunami: 'unknown', potensi: '' }), createQuake({ id, tsunami: 'unknown', potensi: '', felt: 'III Sukabumi' })]);
+    const archived = await getArchivedQuake(id);
+    expect(archived).toMatchObject({ shakemap: '20250718211749.mmi.jpg', tsunami: 'none', felt: 'III Sukabumi' });
+    expect(archived?.firstSeen).toEqual(first?.firstSeen);
+    expect(archived?.lastSeen.getTime()).toBeGreaterThanOrEqual(first!.lastSeen.getTime());
+  });
+});
+
+describe('queryArchive', () => {
+  it('finds nothing in a date range that ends before it starts', async () => {
+    await archiveQuakes([createQuake()]);
+    const from = new Date('2025-07-20T00:00:00Z');
+    const to = new Date('2025-07-18T00:00:00Z');
+    await expect(queryArchive({ from, to })).resolves.toEqual({ items: [], total: 0 });
+    expect((await queryArchive({ from: to, to: from })).items.map(quake => quake.id)).toContain('20250719063021');
+  });
+});
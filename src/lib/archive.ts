@@ -0,0 +1,191 @@
+import { distanceKm } from './geo';
+import type { LatLon } from './geo';
+import type { Quake } from '../types';
+
+// Every event seen by the app is kept in IndexedDB so the history outlives
+// BMKG's 15-event feeds and page reloads. Events are keyed by Quake.id.
+// Shakemap images live alongside them, keyed by their BMKG file name.
+const DB_NAME = 'quakemon';
+const DB_VERSION = 2;
+const STORE = 'quakes';
+const SHAKEMAP_STORE = 'shakemaps';
+// Roughly 20-30 MB of images; the oldest saved ones are dropped first
+const MAX_SHAKEMAPS = 200;
+
+export interface ArchivedQuake extends Quake {
+  firstSeen: Date;
+  lastSeen: Date;
+}
+
+interface StoredShakemap {
+  name: string;
+  blob: Blob;
+  savedAt: Date;
+}
+
+export interface ArchiveQuery {
+  search?: string;
+  from?: Date | null;
+  to?: Date | null;
+  offset?: number;
+  limit?: number;
+}
+
+export interface ArchivePage {
+  items: ArchivedQuake[];
+  total: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openArchive = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (!('indexedDB' in window)) {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const store = db.createObjectStore(STORE, { keyPath: 'id' });
+          store.createIndex('time', 'time');
+        }
+        if (event.oldVersion < 2) {
+          const shakemaps = db.createObjectStore(SHAKEMAP_STORE, { keyPath: 'name' });
+          shakemaps.createIndex('savedAt', 'savedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+// Felt reports and shakemaps are sometimes only present in one of the feeds,
+// so never let a sparser copy of an event overwrite a richer one.
+const mergeQuake = (existing: ArchivedQuake | undefined, quake: Quake, seenAt: Date): ArchivedQuake => ({
+  ...existing,
+  ...quake,
+  felt: quake.felt || existing?.felt || null,
+  shakemap: quake.shakemap || existing?.shakemap || null,
+  potensi: quake.potensi || existing?.potensi || '',
+  tsunami: quake.tsunami === 'unknown' && existing ? existing.tsunami : quake.tsunami,
+  firstSeen: existing?.firstSeen || seenAt,
+  lastSeen: seenAt
+});
+
+// The feeds overlap, so the same event usually comes in more than once. The
+// copies are merged first: concurrent get/put pairs for one id would all read
+// the old record and the last put would win.
+export const archiveQuakes = async (quakes: Quake[]) => {
+  if (quakes.length === 0) return;
+  const seenAt = new Date();
+  const merged = new Map<string, ArchivedQuake>();
+  quakes.forEach(quake => merged.set(quake.id, mergeQuake(merged.get(quake.id), quake, seenAt)));
+
+  const db = await openArchive();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+
+  await Promise.all(Array.from(merged.values()).map(async quake => {
+    const existing = await requestToPromise(store.get(quake.id) as IDBRequest<ArchivedQuake | undefined>);
+    await requestToPromise(store.put(mergeQuake(existing, quake, seenAt)));
+  }));
+
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// A range that ends before it starts matches nothing; IDBKeyRange.bound
+// would throw a DataError for it instead
+export const queryArchive = async ({ search = '', from = null, to = null, offset = 0, limit = 20 }: ArchiveQuery = {}): Promise<ArchivePage> => {
+  if (from && to && from > to) {
+    return { items: [], total: 0 };
+  }
+  const db = await openArchive();
+  const index = db.transaction(STORE, 'readonly').objectStore(STORE).index('time');
+  const range = from && to
+    ? IDBKeyRange.bound(from, to)
+    : from
+      ? IDBKeyRange.lowerBound(from)
+      : to
+        ? IDBKeyRange.upperBound(to)
+        : undefined;
+  const needle = search.trim().toLowerCase();
+
+  return new Promise<ArchivePage>((resolve, reject) => {
+    const items: ArchivedQuake[] = [];
+    let total = 0;
+    const request = index.openCursor(range, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve({ items, total });
+        return;
+      }
+      const quake = cursor.value as ArchivedQuake;
+      if (!needle || quake.region.toLowerCase().includes(needle)) {
+        if (total >= offset && items.length < limit) {
+          items.push(quake);
+        }
+        total++;
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getArchivedQuake = async (id: string) => {
+  const db = await openArchive();
+  const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+  return requestToPromise(store.get(id) as IDBRequest<ArchivedQuake | undefined>);
+};
+
+export const getAllArchivedQuakes = async () => {
+  const db = await openArchive();
+  const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+  return requestToPromise(store.getAll() as IDBRequest<ArchivedQuake[]>);
+};
+
+// Archived events within radiusKm of the given point, newest first
+export const findNearbyQuakes = async (center: LatLon, radiusKm: number, excludeId?: string) => {
+  const all = await getAllArchivedQuakes();
+  return all
+    .filter(quake => quake.id !== excludeId && distanceKm(center, quake) <= radiusKm)
+    .sort((a, b) => b.time.getTime() - a.time.getTime());
+};
+
+export const getCachedShakemap = async (name: string) => {
+  const db = await openArchive();
+  const store = db.transaction(SHAKEMAP_STORE, 'readonly').objectStore(SHAKEMAP_STORE);
+  const stored = await requestToPromise(store.get(name) as IDBRequest<StoredShakemap | undefined>);
+  return stored?.blob;
+};
+
+export const cacheShakemap = async (name: string, blob: Blob) => {
+  const db = await openArchive();
+  const store = db.transaction(SHAKEMAP_STORE, 'readwrite').objectStore(SHAKEMAP_STORE);
+  const record: StoredShakemap = { name, blob, savedAt: new Date() };
+  await requestToPromise(store.put(record));
+
+  const count = await requestToPromise(store.count());
+  if (count <= MAX_SHAKEMAPS) return;
+  const oldest = await requestToPromise(store.index('savedAt').getAllKeys(null, count - MAX_SHAKEMAPS));
+  await Promise.all(oldest.map(key => requestToPromise(store.delete(key))));
+};
@@ -0,0 +1,150 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { parseLatestPayload, parseListPayload } from './bmkg';
+import { BmkgParseError, parseJsonPayload } from './validation';
+import type { FeedName } from './providers';
+
+// Runs the parsers over the recorded payloads in public/fixtures, with the
+// browser's DOMParser reading autogempa.xml (validation.test.ts covers Node)
+const readFixture = (path: string) =>
+  readFileSync(resolve('public/fixtures', path), 'utf8');
+
+const parseListFixture = (path: string, feed: FeedName) =>
+  parseListPayload(parseJsonPayload(readFixture(path), feed), feed);
+
+const catchParseError = (parse: () => unknown) => {
+  try {
+    parse();
+  } catch (err) {
+    return err;
+  }
+  throw new Error('Expected a BmkgParseError');
+};
+
+describe('default fixtures', () => {
+  it('reads the latest event with its shakemap and felt reports', () => {
+    const { quakes, malformed } = parseLatestPayload(readFixture('default/autogempa.xml'));
+    expect(malformed).toEqual([]);
+    expect(quakes).toHaveLength(1);
+    expect(quakes[0]).toMatchObject({
+      id: '20250719050210',
+      magnitude: 4.2,
+      depthKm: 11,
+      lat: 1.46,
+      lon: 125.12,
+      tsunami: 'none',
+      felt: 'IV Bitung, III Manado, II-III Tondano',
+      shakemap: '20250719120210.mmi.jpg'
+    });
+    expect(quakes[0].time.toISOString()).toBe('2025-07-19T05:02:10.000Z');
+  });
+
+  it('reads every record of the recent and felt lists', () => {
+    const recent = parseListFixture('default/gempaterkini.json', 'recent');
+    const felt = parseListFixture('default/gempadirasakan.json', 'felt');
+    expect(recent.malformed).toEqual([]);
+    expect(recent.quakes).toHaveLength(8);
+    expect(felt.malformed).toEqual([]);
+    expect(felt.quakes).toHaveLength(6);
+    // Deep events keep their depth, southern latitudes come out negative
+    expect(recent.quakes[7]).toMatchObject({ depthKm: 612, lat: -6.12, lon: 112.33 });
+  });
+
+  it('has no tsunami status in the felt list, which has no Potensi', () => {
+    const { quakes } = parseListFixture('default/gempadirasakan.json', 'felt');
+    quakes.forEach(quake => {
+      expect(quake.tsunami).toBe('unknown');
+      expect(quake.potensi).toBe('');
+      expect(quake.shakemap).toBeNull();
+    });
+  });
+});
+
+describe('edge-case fixtures', () => {
+  it('reads hemisphere suffixes, comma decimals and WITA when coordinates are empty', () => {
+    const { quakes, malformed } = parseLatestPayload(readFixture('edge-cases/autogempa.xml'));
+    expect(malformed).toEqual([]);
+    expect(quakes[0]).toMatchObject({ lat: -8.62, lon: 117.35, magnitude: 3.8, depthKm: 14, felt: null, shakemap: null });
+    expect(quakes[0].time.toISOString()).toBe('2025-07-19T05:40:05.000Z');
+  });
+
+  it('reads WIT times and two-digit years without DateTime', () => {
+    const { quakes } = parseListFixture('edge-cases/gempaterkini.json', 'recent');
+    const wit = quakes.find(quake => quake.id === '20250718130513');
+    expect(wit?.time.toISOString()).toBe('2025-07-18T13:05:13.000Z');
+    expect(wit).toMatchObject({ lat: -2.61, lon: 140.71 });
+  });
+
+  it('keeps the valid records and reports the five malformed ones', () => {
+    const { quakes, malformed } = parseListFixture('edge-cases/gempaterkini.json', 'recent');
+    expect(quakes.map(quake => quake.id)).toEqual(['20250719054005', '20250718130513', '20250716010247']);
+    const errors = malformed.map(record => ({
+      index: record.index,
+      errors: record.errors.map(({ code, field, value }) => ({ code, field, value }))
+    }));
+    expect(errors).toEqual([
+      { index: 2, errors: [{ code: 'invalid-field', field: 'Magnitude', value: '-' }] },
+      { index: 3, errors: [{ code: 'missing-field', field: 'Wilayah', value: null }] },
+      {
+        index: 4,
+        errors: [
+          { code: 'invalid-field', field: 'Bujur', value: '-3.21,251.90' },
+          { code: 'invalid-field', field: 'Kedalaman', value: '-12 km' }
+        ]
+      },
+      { index: 5, errors: [{ code: 'invalid-field', field: 'Magnitude', value: '5.6' }] },
+      { index: 6, errors: [{ code: 'invalid-shape', field: null, value: null }] }
+    ]);
+    malformed.forEach(record => {
+      expect(record.feed).toBe('recent');
+      record.errors.forEach(error => expect(error.index).toBe(record.index));
+    });
+  });
+
+  it('leaves felt, Shakemap and the tsunami status empty when they are missing', () => {
+    const { quakes, malformed } = parseListFixture('edge-cases/gempadirasakan.json', 'felt');
+    expect(malformed).toEqual([]);
+    expect(quakes).toHaveLength(3);
+    expect(quakes[1]).toMatchObject({ felt: null, shakemap: null, tsunami: 'unknown', potensi: '' });
+  });
+});
+
+describe('broken fixtures', () => {
+  it('rejects an HTML maintenance page as invalid XML', () => {
+    const error = catchParseError(() => parseLatestPayload(readFixture('broken/autogempa.xml')));
+    expect(error).toBeInstanceOf(BmkgParseError);
+    expect(error).toMatchObject({ code: 'invalid-xml', feed: 'latest', index: null });
+  });
+
+  it('rejects a gempa object where an array is expected', () => {
+    const error = catchParseError(() => parseListFixture('broken/gempaterkini.json', 'recent'));
+    expect(error).toBeInstanceOf(BmkgParseError);
+    expect(error).toMatchObject({ code: 'invalid-shape', feed: 'recent', index: null });
+  });
+
+  it('rejects truncated JSON', () => {
+    const error = catchParseError(() => parseListFixture('broken/gempadirasakan.json', 'felt'));
+    expect(error).toBeInstanceOf(BmkgParseError);
+    expect(error).toMatchObject({ code: 'invalid-json', feed: 'felt', index: null });
+  });
+});
+
+describe('replay fixtures', () => {
+  it('brings the M6.4 Poso event into every feed in the second step', () => {
+    const before = parseLatestPayload(readFixture('replay/autogempa-1.xml')).quakes[0];
+    const after = parseLatestPayload(readFixture('replay/autogempa-2.xml')).quakes[0];
+    expect(before.id).toBe('20250719050210');
+    expect(after).toMatchObject({ id: '20250719063021', magnitude: 6.4, lat: -1.82, lon: 120.14 });
+
+    const recent = parseListFixture('replay/gempaterkini-2.json', 'recent');
+    const felt = parseListFixture('replay/gempadirasakan-2.json', 'felt');
+    expect(recent.malformed).toEqual([]);
+    expect(felt.malformed).toEqual([]);
+    expect(parseListFixture('replay/gempaterkini-1.json', 'recent').quakes).toHaveLength(8);
+    expect(recent.quakes).toHaveLength(9);
+    expect(recent.quakes.map(quake => quake.id)).toContain(after.id);
+    expect(felt.quakes.map(quake => quake.id)).toContain(after.id);
+  });
+});
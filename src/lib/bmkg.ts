@@ -0,0 +1,163 @@
+import { BmkgParseError, parseJsonPayload, readListPayload, readXmlPayload } from './validation';
+import type { MalformedRecord, RawRecord } from './validation';
+import type { FeedName } from './providers';
+import type { EarthquakeData, Quake, RecentEarthquake, TsunamiPotential } from '../types';
+
+type RawEarthquake = EarthquakeData | RecentEarthquake;
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, mei: 4, may: 4, jun: 5, jul: 6,
+  agu: 7, ags: 7, aug: 7, sep: 8, okt: 9, oct: 9, nov: 10, des: 11, dec: 11
+};
+
+export interface ParsedFeed {
+  quakes: Quake[];
+  // Records that were dropped, kept for the feed health panel
+  malformed: MalformedRecord[];
+}
+
+// "3.45 LS" -> -3.45, "1.20 LU" -> 1.2, "3,45 LS" -> -3.45
+export const parseLatitude = (text: string) => {
+  const value = parseFloat(text.replace(',', '.'));
+  if (Number.isNaN(value)) return NaN;
+  return /LS/i.test(text) ? -Math.abs(value) : value;
+};
+
+// "128.12 BT" -> 128.12, "10.5 BB" -> -10.5
+export const parseLongitude = (text: string) => {
+  const value = parseFloat(text.replace(',', '.'));
+  if (Number.isNaN(value)) return NaN;
+  return /BB/i.test(text) ? -Math.abs(value) : value;
+};
+
+// "10 km" -> 10
+export const parseDepth = (text: string) => parseFloat(text.replace(',', '.'));
+
+export const parseMagnitude = (text: string) => parseFloat(text.replace(',', '.'));
+
+// Checked in this order: "Peringatan dini tsunami telah berakhir" mentions a
+// warning but ends it, and "Tidak berpotensi tsunami" mentions tsunami
+export const parseTsunamiPotential = (potensi: string): TsunamiPotential => {
+  const text = potensi.toLowerCase();
+  if (!text) return 'unknown';
+  if (/berakhir|diakhiri|dicabut/.test(text)) return 'ended';
+  if (/peringatan dini|tsunami (telah )?(terjadi|terdeteksi|teramati)/.test(text)) return 'warning';
+  if (text.includes('tidak')) return 'none';
+  if (text.includes('tsunami')) return 'potential';
+  return 'unknown';
+};
+
+// BMKG gives a UTC ISO DateTime; older payloads only carry the local WIB
+// date ("19 Jul 2025") and time ("01:25:55 WIB").
+export const parseEventTime = (dateTime: string, tanggal: string, jam: string): Date | null => {
+  if (dateTime) {
+    const date = new Date(dateTime);
+    if (!Number.isNaN(date.getTime())) return date;
+  }
+
+  const dateMatch = tanggal.match(/(\d{1,2})[\s-]+([A-Za-z]{3})[A-Za-z]*[\s-]+(\d{2,4})/);
+  const timeMatch = jam.match(/(\d{1,2}):(\d{2})(?::(\d{2}))?/);
+  if (!dateMatch || !timeMatch) return null;
+
+  const month = MONTHS[dateMatch[2].toLowerCase()];
+  if (month === undefined) return null;
+  const year = dateMatch[3].length === 2 ? 2000 + parseInt(dateMatch[3], 10) : parseInt(dateMatch[3], 10);
+  const offsetHours = /WITA/i.test(jam) ? 8 : /WIT/i.test(jam) ? 9 : 7;
+
+  return new Date(Date.UTC(
+    year,
+    month,
+    parseInt(dateMatch[1], 10),
+    parseInt(timeMatch[1], 10) - offsetHours,
+    parseInt(timeMatch[2], 10),
+    parseInt(timeMatch[3] || '0', 10)
+  ));
+};
+
+// The origin time in UTC as digits only, e.g. "20250719182555"
+export const buildQuakeId = (time: Date) =>
+  time.toISOString().replace(/\D/g, '').slice(0, 14);
+
+const MAX_MAGNITUDE = 10;
+// Deepest recorded earthquakes are around 700 km
+const MAX_DEPTH_KM = 1000;
+
+const invalidField = (feed: FeedName, index: number, field: string, value: string | undefined) =>
+  new BmkgParseError('invalid-field', feed, `Record ${index} has an invalid ${field}: "${value ?? ''}"`, { field, index, value });
+
+const inRange = (value: number, min: number, max: number) => !Number.isNaN(value) && value >= min && value <= max;
+
+// Converts one record that passed the structural checks, or explains why it
+// can't be. Values are range-checked so a garbled field never reaches the map.
+export const normalizeQuake = (raw: RawEarthquake, feed: FeedName, index: number): { quake: Quake | null; errors: BmkgParseError[] } => {
+  const errors: BmkgParseError[] = [];
+  const time = parseEventTime(raw.DateTime, raw.Tanggal, raw.Jam);
+  const coordinates = 'coordinates' in raw ? raw.coordinates : raw.Coordinates;
+  const [coordLat, coordLon] = (coordinates || '').split(',').map(value => parseFloat(value));
+  const lat = Number.isNaN(coordLat) || coordLat === undefined ? parseLatitude(raw.Lintang) : coordLat;
+  const lon = Number.isNaN(coordLon) || coordLon === undefined ? parseLongitude(raw.Bujur) : coordLon;
+  const magnitude = parseMagnitude(raw.Magnitude);
+  const depthKm = parseDepth(raw.Kedalaman);
+
+  if (!time) errors.push(invalidField(feed, index, 'DateTime', raw.DateTime || `${raw.Tanggal} ${raw.Jam}`));
+  if (!inRange(lat, -90, 90)) errors.push(invalidField(feed, index, 'Lintang', coordinates || raw.Lintang));
+  if (!inRange(lon, -180, 180)) errors.push(invalidField(feed, index, 'Bujur', coordinates || raw.Bujur));
+  if (!inRange(magnitude, 0, MAX_MAGNITUDE)) errors.push(invalidField(feed, index, 'Magnitude', raw.Magnitude));
+  if (!inRange(depthKm, 0, MAX_DEPTH_KM)) errors.push(invalidField(feed, index, 'Kedalaman', raw.Kedalaman));
+
+  if (!time || errors.length > 0) {
+    return { quake: null, errors };
+  }
+
+  const quake: Quake = {
+    id: buildQuakeId(time),
+    time,
+    magnitude,
+    depthKm,
+    lat,
+    lon,
+    region: raw.Wilayah,
+    tsunami: parseTsunamiPotential(raw.Potensi || ''),
+    potensi: raw.Potensi || '',
+    felt: raw.Dirasakan || null,
+    shakemap: 'Shakemap' in raw && raw.Shakemap ? raw.Shakemap : null
+  };
+  return { quake, errors };
+};
+
+const toParsedFeed = (feed: FeedName, records: RawRecord<RawEarthquake>[]): ParsedFeed => {
+  const parsed: ParsedFeed = { quakes: [], malformed: [] };
+  records.forEach(({ index, record, errors, raw }) => {
+    const result = errors.length > 0 ? { quake: null, errors } : normalizeQuake(record, feed, index);
+    if (result.quake) {
+      parsed.quakes.push(result.quake);
+    } else {
+      parsed.malformed.push({ feed, index, errors: result.errors, raw });
+    }
+  });
+  return parsed;
+};
+
+// autogempa.xml. Throws BmkgParseError when the document itself is unusable;
+// a single bad event comes back in malformed with an empty quakes list.
+export const parseLatestPayload = (xmlText: string): ParsedFeed =>
+  toParsedFeed('latest', [readXmlPayload(xmlText)]);
+
+// gempaterkini.json and gempadirasakan.json. Bad records are dropped and
+// reported, the rest of the list is kept.
+export const parseListPayload = (payload: unknown, feed: FeedName): ParsedFeed =>
+  toParsedFeed(feed, readListPayload(payload, feed));
+
+// Response parsers for fetchFeedWithRetry. autogempa.xml holds a single
+// event, so a latest payload without a usable one counts as a failure.
+export const FEED_PARSERS: Record<FeedName, (response: Response) => Promise<ParsedFeed>> = {
+  latest: async response => {
+    const parsed = parseLatestPayload(await response.text());
+    if (parsed.quakes.length === 0) {
+      throw parsed.malformed[0].errors[0];
+    }
+    return parsed;
+  },
+  recent: async response => parseListPayload(parseJsonPayload(await response.text(), 'recent'), 'recent'),
+  felt: async response => parseListPayload(parseJsonPayload(await response.text(), 'felt'), 'felt')
+};
@@ -0,0 +1,151 @@
+import { formatMagnitude } from './format';
+import { loadLanguage, translate } from './i18n';
+import type { Language } from './i18n';
+import type { Quake } from '../types';
+
+export type ChangeKind = 'added' | 'revised';
+
+export interface QuakeChange {
+  quakeId: string;
+  kind: ChangeKind;
+  region: string;
+  magnitude: number;
+  // Human readable field changes, e.g. "magnitudo 5.2 → 5.0"
+  details: string[];
+  detectedAt: string;
+}
+
+// The fields BMKG is known to revise after the first release
+interface SnapshotEntry {
+  magnitude: number;
+  depthKm: number;
+  lat: number;
+  lon: number;
+  region: string;
+  felt: string | null;
+  time: string;
+}
+
+const SEEN_KEY = 'seenQuakes';
+const SNAPSHOT_KEY = 'quakeSnapshot';
+const CHANGELOG_KEY = 'quakeChangelog';
+const MAX_SNAPSHOT = 300;
+const MAX_CHANGELOG = 100;
+
+export type SeenQuakes = Record<string, string>;
+
+const readJson = <T>(key: string): T | null => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Felt reports are left out on purpose: the same event carries them in the
+// felt feed but not in the M≥5.0 feed, which would flip it back to unread
+export const quakeSignature = (quake: Quake) =>
+  [quake.magnitude, quake.depthKm, quake.lat, quake.lon].join('|');
+
+export const loadSeen = () => readJson<SeenQuakes>(SEEN_KEY);
+
+export const saveSeen = (seen: SeenQuakes) => {
+  const entries = Object.entries(seen).slice(-MAX_SNAPSHOT);
+  localStorage.setItem(SEEN_KEY, JSON.stringify(Object.fromEntries(entries)));
+};
+
+export const markSeen = (seen: SeenQuakes, quakes: Quake[]): SeenQuakes => ({
+  ...seen,
+  ...Object.fromEntries(quakes.map(quake => [quake.id, quakeSignature(quake)]))
+});
+
+export const getUnseenKind = (quake: Quake, seen: SeenQuakes | null): ChangeKind | null => {
+  if (!seen) return null;
+  const signature = seen[quake.id];
+  if (signature === undefined) return 'added';
+  return signature === quakeSignature(quake) ? null : 'revised';
+};
+
+export const loadChangelog = () => readJson<QuakeChange[]>(CHANGELOG_KEY) || [];
+
+const toSnapshotEntry = (quake: Quake): SnapshotEntry => ({
+  magnitude: quake.magnitude,
+  depthKm: quake.depthKm,
+  lat: quake.lat,
+  lon: quake.lon,
+  region: quake.region,
+  felt: quake.felt,
+  time: quake.time.toISOString()
+});
+
+const describeRevision = (before: SnapshotEntry, after: SnapshotEntry, language: Language) => {
+  const details: string[] = [];
+  if (before.magnitude !== after.magnitude) {
+    details.push(translate(language, 'changes.magnitude', {
+      before: formatMagnitude(before.magnitude, language),
+      after: formatMagnitude(after.magnitude, language)
+    }));
+  }
+  if (before.depthKm !== after.depthKm) {
+    details.push(translate(language, 'changes.depth', { before: before.depthKm, after: after.depthKm }));
+  }
+  if (before.lat !== after.lat || before.lon !== after.lon) {
+    details.push(translate(language, 'changes.epicenter'));
+  }
+  // Only a new or changed report counts; dropping out of the felt feed does not
+  if (after.felt && before.felt !== after.felt) {
+    details.push(translate(language, before.felt ? 'changes.feltUpdated' : 'changes.feltAdded'));
+  }
+  return details;
+};
+
+// Compares the merged events of one refresh against what was stored last time,
+// even if that was in a previous session, and appends any changes to the
+// persistent changelog. The very first call only stores the snapshot.
+export const recordChanges = (quakes: Quake[], now: Date = new Date()): QuakeChange[] => {
+  const snapshot = readJson<Record<string, SnapshotEntry>>(SNAPSHOT_KEY);
+  const nextSnapshot: Record<string, SnapshotEntry> = { ...snapshot };
+  const changes: QuakeChange[] = [];
+  const language = loadLanguage();
+
+  // The same event usually arrives through several feeds
+  const merged = new Map<string, Quake>();
+  quakes.forEach(quake => {
+    const existing = merged.get(quake.id);
+    merged.set(quake.id, existing && !quake.felt ? { ...quake, felt: existing.felt } : quake);
+  });
+
+  merged.forEach(quake => {
+    const before = snapshot?.[quake.id];
+    const after = toSnapshotEntry(quake);
+    nextSnapshot[quake.id] = before && !after.felt ? { ...after, felt: before.felt } : after;
+
+    if (!snapshot) return;
+    const base = {
+      quakeId: quake.id,
+      region: quake.region,
+      magnitude: quake.magnitude,
+      detectedAt: now.toISOString()
+    };
+    if (!before) {
+      changes.push({ ...base, kind: 'added', details: [] });
+      return;
+    }
+    const details = describeRevision(before, after, language);
+    if (details.length > 0) {
+      changes.push({ ...base, kind: 'revised', details });
+    }
+  });
+
+  const trimmed = Object.entries(nextSnapshot)
+    .sort(([, a], [, b]) => b.time.localeCompare(a.time))
+    .slice(0, MAX_SNAPSHOT);
+  localStorage.setItem(SNAPSHOT_KEY, JSON.stringify(Object.fromEntries(trimmed)));
+
+  if (changes.length > 0) {
+    const changelog = [...changes, ...loadChangelog()].slice(0, MAX_CHANGELOG);
+    localStorage.setItem(CHANGELOG_KEY, JSON.stringify(changelog));
+  }
+  return changes;
+};
@@ -0,0 +1,56 @@
+import type { CSSProperties } from 'react';
+import type { MessageKey } from './i18n';
+import type { Quake } from '../types';
+
+export interface MagnitudeInfo {
+  labelKey: MessageKey;
+  color: string;
+  bgColor: string;
+  borderColor: string;
+  icon: string;
+}
+
+export const getMagnitudeInfo = (mag: number, darkMode: boolean): MagnitudeInfo => {
+  if (mag < 5.0) {
+    return {
+      labelKey: 'magnitude.light',
+      color: darkMode ? 'text-green-400' : 'text-green-600',
+      bgColor: darkMode ? 'bg-green-900/20' : 'bg-green-50',
+      borderColor: darkMode ? 'border-green-700' : 'border-green-200',
+      icon: '🟢'
+    };
+  } else if (mag < 6.0) {
+    return {
+      labelKey: 'magnitude.moderate',
+      color: darkMode ? 'text-yellow-400' : 'text-yellow-600',
+      bgColor: darkMode ? 'bg-yellow-900/20' : 'bg-yellow-50',
+      borderColor: darkMode ? 'border-yellow-700' : 'border-yellow-200',
+      icon: '🟡'
+    };
+  } else {
+    return {
+      labelKey: 'magnitude.strong',
+      color: darkMode ? 'text-red-400' : 'text-red-600',
+      bgColor: darkMode ? 'bg-red-900/20' : 'bg-red-50',
+      borderColor: darkMode ? 'border-red-700' : 'border-red-200',
+      icon: '🔴'
+    };
+  }
+};
+
+// USGS ShakeMap intensity colours, indexed by MMI level; X and above share red
+const INTENSITY_COLORS = ['#ffffff', '#ffffff', '#bfccff', '#bfccff', '#a0e6ff', '#80ffff', '#7aff93', '#ffff00', '#ffc800', '#ff9100', '#ff0000'];
+
+// Inline style because the scale's colours are not in the Tailwind palette
+export const getIntensityStyle = (intensity: number): CSSProperties => ({
+  backgroundColor: INTENSITY_COLORS[Math.min(Math.max(Math.round(intensity), 1), INTENSITY_COLORS.length - 1)],
+  color: intensity >= 9 ? '#ffffff' : '#1f2937'
+});
+
+export const getTsunamiBadgeClass = (quake: Quake) => {
+  if (quake.tsunami === 'none') return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400';
+  if (quake.tsunami === 'potential') return 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400';
+  if (quake.tsunami === 'warning') return 'bg-red-600 text-white font-semibold';
+  if (quake.tsunami === 'ended') return 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300';
+  return 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300';
+};
@@ -0,0 +1,108 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { exportQuakes, toCsv, toGeoJson, toKml, toQuakeMl } from './export';
+import type { Quake } from '../types';
+
+const createQuake = (overrides: Partial<Quake> = {}): Quake => ({
+  id: '20250719063021',
+  time: new Date('2025-07-19T06:30:21Z'),
+  magnitude: 6.4,
+  depthKm: 10.5,
+  lat: -1.82,
+  lon: 120.14,
+  region: 'Pusat gempa berada di darat 18 km BaratLaut Poso',
+  tsunami: 'none',
+  potensi: 'Tidak berpotensi tsunami',
+  felt: 'V Poso, IV Palu',
+  shakemap: '20250719133021.mmi.jpg',
+  ...overrides
+});
+
+// Everything XML and CSV treat specially
+const AWKWARD = createQuake({ id: 'usgs-us7000<&>', region: 'Selat "Makassar" & <Laut> Sulawesi\'s, barat', felt: null, potensi: 'Baris 1\nBaris 2' });
+
+const parseXml = (text: string) => {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  expect(document.getElementsByTagName('parsererror')).toHaveLength(0);
+  return document;
+};
+
+describe('toCsv', () => {
+  it('writes only the header for an empty catalog', () => {
+    expect(toCsv([])).toBe('id,time,latitude,longitude,depth_km,magnitude,region,tsunami,potensi,felt,shakemap,source,other_agencies\r\n');
+  });
+
+  it('quotes fields with commas, quotes or line breaks', () => {
+    const [, row] = toCsv([AWKWARD]).split('\r\n');
+    expect(row).toBe('usgs-us7000<&>,2025-07-19T06:30:21.000Z,-1.82,120.14,10.5,6.4,"Selat ""Makassar"" & <Laut> Sulawesi\'s, barat",none,"Baris 1\nBaris 2",,20250719133021.mmi.jpg,bmkg,');
+  });
+
+  it('lists other agencies\' solutions', () => {
+    const solution = { agency: 'usgs' as const, eventId: 'us7000', time: new Date('2025-07-19T06:30:20Z'), magnitude: 5.6, magnitudeType: 'mww', depthKm: 45, lat: -1.8, lon: 120.1, region: '', url: null };
+    expect(toCsv([createQuake({ solutions: [solution, { ...solution, agency: 'emsc', magnitudeType: 'mb', magnitude: 5 }] })]))
+      .toContain(',bmkg,usgs mww 5.6 45km; emsc mb 5 45km\r\n');
+  });
+});
+
+describe('toGeoJson', () => {
+  it('writes an empty collection for an empty catalog', () => {
+    expect(JSON.parse(toGeoJson([]))).toEqual({ type: 'FeatureCollection', features: [] });
+  });
+
+  it('puts longitude first and the depth in the properties', () => {
+    const [feature] = JSON.parse(toGeoJson([createQuake()])).features;
+    expect(feature.geometry).toEqual({ type: 'Point', coordinates: [120.14, -1.82] });
+    expect(feature.properties).toMatchObject({ depthKm: 10.5, time: '2025-07-19T06:30:21.000Z', source: 'bmkg', solutions: [] });
+  });
+});
+
+describe('toKml', () => {
+  it('escapes text and attributes', () => {
+    const document = parseXml(toKml([AWKWARD]));
+    const placemark = document.getElementsByTagName('Placemark')[0];
+    expect(placemark.getAttribute('id')).toBe('usgs-us7000<&>');
+    expect(placemark.getElementsByTagName('name')[0].textContent).toBe('M 6.4 - Selat "Makassar" & <Laut> Sulawesi\'s, barat');
+    expect(placemark.getElementsByTagName('coordinates')[0].textContent).toBe('120.14,-1.82');
+  });
+
+  it('is still a document for an empty catalog', () => {
+    expect(parseXml(toKml([])).getElementsByTagName('Placemark')).toHaveLength(0);
+  });
+});
+
+describe('toQuakeMl', () => {
+  it('escapes text and encodes the event id into the public ids', () => {
+    const document = parseXml(toQuakeMl([AWKWARD]));
+    const event = document.getElementsByTagName('event')[0];
+    expect(event.getAttribute('publicID')).toBe('smi:quakemon/event/usgs-us7000%3C%26%3E');
+    expect(event.getElementsByTagName('text')[0].textContent).toBe(AWKWARD.region);
+    expect(event.getElementsByTagName('comment')[0].textContent).toBe('Baris 1\nBaris 2');
+    expect(event.getElementsByTagName('preferredOriginID')[0].textContent)
+      .toBe(event.getElementsByTagName('origin')[0].getAttribute('publicID'));
+  });
+
+  it('gives the depth in metres with a generic magnitude type', () => {
+    const event = parseXml(toQuakeMl([createQuake()])).getElementsByTagName('event')[0];
+    expect(event.querySelector('depth > value')?.textContent).toBe('10500');
+    expect(event.querySelector('magnitude > type')?.textContent).toBe('M');
+    expect(Array.from(event.getElementsByTagName('type'), node => node.textContent)).toContain('felt report');
+  });
+
+  it('names the locating agency only in creationInfo', () => {
+    const xml = toQuakeMl([createQuake(), createQuake({ id: 'usgs-us7000', source: 'usgs' })]);
+    const agencies = Array.from(parseXml(xml).getElementsByTagName('agencyID'), node => node.textContent);
+    expect(agencies).toEqual(['BMKG', 'BMKG', 'USGS', 'USGS']);
+    expect(xml.match(/bmkg/gi)).toHaveLength(2);
+  });
+
+  it('is still a document for an empty catalog', () => {
+    expect(parseXml(toQuakeMl([])).getElementsByTagName('eventParameters')[0].getAttribute('publicID')).toBe('smi:quakemon/eventParameters');
+  });
+});
+
+describe('exportQuakes', () => {
+  it('names the file type for each format', () => {
+    expect(exportQuakes([], 'quakeml')).toMatchObject({ mimeType: 'application/xml', extension: 'xml' });
+    expect(exportQuakes([], 'geojson')).toMatchObject({ mimeType: 'application/geo+json', extension: 'geojson' });
+  });
+});
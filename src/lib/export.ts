@@ -0,0 +1,218 @@
+import { AGENCY_NAMES } from './agencies';
+import type { Quake } from '../types';
+
+export type ExportFormat = 'csv' | 'geojson' | 'kml' | 'quakeml';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'geojson', 'kml', 'quakeml'];
+
+export const EXPORT_FORMAT_NAMES: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  geojson: 'GeoJSON',
+  kml: 'KML',
+  quakeml: 'QuakeML'
+};
+
+interface ExportFile {
+  content: string;
+  mimeType: string;
+  extension: string;
+}
+
+// Namespace for QuakeML resource identifiers. These are Quakemon's own ids,
+// not BMKG's; the agency that located the event goes in creationInfo.
+const PUBLIC_ID_PREFIX = 'smi:quakemon';
+
+const CSV_COLUMNS = [
+  'id',
+  'time',
+  'latitude',
+  'longitude',
+  'depth_km',
+  'magnitude',
+  'region',
+  'tsunami',
+  'potensi',
+  'felt',
+  'shakemap',
+  'source',
+  'other_agencies'
+] as const;
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// RFC 4180: quote when needed and double embedded quotes
+const escapeCsv = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// "usgs mww 5.6 45km; emsc mb 5.0 50km", for reconciling magnitudes
+const formatSolutions = (quake: Quake) =>
+  (quake.solutions || [])
+    .map(solution => `${solution.agency} ${solution.magnitudeType} ${solution.magnitude} ${solution.depthKm}km`)
+    .join('; ');
+
+export const toCsv = (quakes: Quake[]) => {
+  const rows = quakes.map(quake => [
+    quake.id,
+    quake.time.toISOString(),
+    quake.lat,
+    quake.lon,
+    quake.depthKm,
+    quake.magnitude,
+    quake.region,
+    quake.tsunami,
+    quake.potensi,
+    quake.felt || '',
+    quake.shakemap || '',
+    quake.source || 'bmkg',
+    formatSolutions(quake)
+  ].map(escapeCsv).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+// Positions are plain [lon, lat]; depth goes into the properties, since a
+// GeoJSON third coordinate means height above the ellipsoid
+export const toGeoJson = (quakes: Quake[]) =>
+  JSON.stringify({
+    type: 'FeatureCollection',
+    features: quakes.map(quake => ({
+      type: 'Feature',
+      id: quake.id,
+      geometry: { type: 'Point', coordinates: [quake.lon, quake.lat] },
+      properties: {
+        time: quake.time.toISOString(),
+        magnitude: quake.magnitude,
+        depthKm: quake.depthKm,
+        region: quake.region,
+        tsunami: quake.tsunami,
+        potensi: quake.potensi,
+        felt: quake.felt,
+        shakemap: quake.shakemap,
+        source: quake.source || 'bmkg',
+        solutions: (quake.solutions || []).map(solution => ({
+          agency: solution.agency,
+          eventId: solution.eventId,
+          time: solution.time.toISOString(),
+          magnitude: solution.magnitude,
+          magnitudeType: solution.magnitudeType,
+          depthKm: solution.depthKm,
+          latitude: solution.lat,
+          longitude: solution.lon
+        }))
+      }
+    }))
+  }, null, 2);
+
+export const toKml = (quakes: Quake[]) => {
+  const placemarks = quakes.map(quake => {
+    const data: [string, string | number][] = [
+      ['magnitude', quake.magnitude],
+      ['depth_km', quake.depthKm],
+      ['tsunami', quake.tsunami],
+      ['potensi', quake.potensi],
+      ['felt', quake.felt || '']
+    ];
+    return [
+      `    <Placemark id="${escapeXml(quake.id)}">`,
+      `      <name>M ${quake.magnitude.toFixed(1)} - ${escapeXml(quake.region)}</name>`,
+      `      <description>${escapeXml(quake.felt || quake.potensi)}</description>`,
+      `      <TimeStamp><when>${quake.time.toISOString()}</when></TimeStamp>`,
+      '      <ExtendedData>',
+      ...data.map(([name, value]) => `        <Data name="${name}"><value>${escapeXml(String(value))}</value></Data>`),
+      '      </ExtendedData>',
+      `      <Point><coordinates>${quake.lon},${quake.lat}</coordinates></Point>`,
+      '    </Placemark>'
+    ].join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    '    <name>Quakemon</name>',
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    ''
+  ].join('\n');
+};
+
+// QuakeML 1.2 BED: one event per quake with a single origin and magnitude.
+// Depth is in metres there, and BMKG's magnitude type is not published, so
+// it is left as the generic "M".
+export const toQuakeMl = (quakes: Quake[]) => {
+  const events = quakes.map(quake => {
+    const eventId = `${PUBLIC_ID_PREFIX}/event/${encodeURIComponent(quake.id)}`;
+    const originId = `${eventId}/origin`;
+    const magnitudeId = `${eventId}/magnitude`;
+    const creationInfo = `<creationInfo><agencyID>${AGENCY_NAMES[quake.source || 'bmkg']}</agencyID></creationInfo>`;
+    const descriptions: [string, string][] = [['region name', quake.region]];
+    if (quake.felt) descriptions.push(['felt report', quake.felt]);
+    return [
+      `    <event publicID="${escapeXml(eventId)}">`,
+      ...descriptions.map(([type, text]) =>
+        `      <description><text>${escapeXml(text)}</text><type>${type}</type></description>`),
+      ...(quake.potensi ? [`      <comment><text>${escapeXml(quake.potensi)}</text></comment>`] : []),
+      `      <preferredOriginID>${escapeXml(originId)}</preferredOriginID>`,
+      `      <preferredMagnitudeID>${escapeXml(magnitudeId)}</preferredMagnitudeID>`,
+      '      <type>earthquake</type>',
+      `      <origin publicID="${escapeXml(originId)}">`,
+      `        <time><value>${quake.time.toISOString()}</value></time>`,
+      `        <latitude><value>${quake.lat}</value></latitude>`,
+      `        <longitude><value>${quake.lon}</value></longitude>`,
+      `        <depth><value>${Math.round(quake.depthKm * 1000)}</value></depth>`,
+      `        ${creationInfo}`,
+      '      </origin>',
+      `      <magnitude publicID="${escapeXml(magnitudeId)}">`,
+      `        <mag><value>${quake.magnitude}</value></mag>`,
+      '        <type>M</type>',
+      `        <originID>${escapeXml(originId)}</originID>`,
+      `        ${creationInfo}`,
+      '      </magnitude>',
+      '    </event>'
+    ].join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<q:quakeml xmlns:q="http://quakeml.org/xmlns/quakeml/1.2" xmlns="http://quakeml.org/xmlns/bed/1.2">',
+    `  <eventParameters publicID="${PUBLIC_ID_PREFIX}/eventParameters">`,
+    ...events,
+    '  </eventParameters>',
+    '</q:quakeml>',
+    ''
+  ].join('\n');
+};
+
+export const exportQuakes = (quakes: Quake[], format: ExportFormat): ExportFile => {
+  switch (format) {
+    case 'csv':
+      return { content: toCsv(quakes), mimeType: 'text/csv', extension: 'csv' };
+    case 'geojson':
+      return { content: toGeoJson(quakes), mimeType: 'application/geo+json', extension: 'geojson' };
+    case 'kml':
+      return { content: toKml(quakes), mimeType: 'application/vnd.google-earth.kml+xml', extension: 'kml' };
+    case 'quakeml':
+      return { content: toQuakeMl(quakes), mimeType: 'application/xml', extension: 'xml' };
+  }
+};
+
+// Saves the file through a temporary object URL, e.g. quakemon-felt-20250719.csv
+export const downloadQuakes = (quakes: Quake[], format: ExportFormat, name: string) => {
+  const { content, mimeType, extension } = exportQuakes(quakes, format);
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const stamp = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `quakemon-${name}-${stamp}.${extension}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,94 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchFeedWithRetry } from './feeds';
+import type { RetryOptions } from './feeds';
+import type { FeedName, QuakeProvider } from './providers';
+
+const NO_RETRIES: RetryOptions = { timeoutMs: 1000, retries: 0, baseDelayMs: 0, maxDelayMs: 0 };
+
+// Answers every request with the given responses in turn and records the
+// headers it was sent
+const createProvider = (id: string, responses: (() => Response)[]) => {
+  const requests: (HeadersInit | undefined)[] = [];
+  const provider = {
+    id,
+    fetchFeed: async (_feed: FeedName, init?: RequestInit) => {
+      requests.push(init?.headers);
+      return responses[requests.length - 1]();
+    }
+  } as unknown as QuakeProvider;
+  return { provider, requests };
+};
+
+const ok = (body: string, headers: Record<string, string>) => () => new Response(body, { headers });
+
+const fetchRecent = (provider: QuakeProvider) => {
+  const parse = vi.fn((response: Response) => response.json());
+  return fetchFeedWithRetry(provider, 'recent', parse, NO_RETRIES).then(result => ({ result, parse }));
+};
+
+describe('fetchFeedWithRetry in the browser', () => {
+  it('leaves revalidation to the HTTP cache, without headers that need a preflight', async () => {
+    const { provider, requests } = createProvider('browser-headers', [ok('{"v":1}', { ETag: '"v1"' }), ok('{"v":1}', { ETag: '"v1"' })]);
+    await fetchRecent(provider);
+    await fetchRecent(provider);
+    expect(requests).toEqual([undefined, undefined]);
+  });
+
+  it('recognizes the cached copy of an unchanged payload by its ETag', async () => {
+    const { provider } = createProvider('browser-etag', [ok('{"v":1}', { ETag: '"v1"' }), ok('{"v":1}', { ETag: '"v1"' }), ok('{"v":2}', { ETag: '"v2"' })]);
+    await fetchRecent(provider);
+    const unchanged = await fetchRecent(provider);
+    expect(unchanged.result).toMatchObject({ ok: true, notModified: true, data: { v: 1 }, health: { status: 'unchanged' } });
+    expect(unchanged.parse).not.toHaveBeenCalled();
+    const changed = await fetchRecent(provider);
+    expect(changed.result).toMatchObject({ ok: true, notModified: false, data: { v: 2 } });
+  });
+
+  it('falls back to Last-Modified when the ETag is not exposed', async () => {
+    const lastModified = 'Sat, 19 Jul 2025 05:02:10 GMT';
+    const { provider } = createProvider('browser-last-modified', [ok('{"v":1}', { 'Last-Modified': lastModified }), ok('{"v":1}', { 'Last-Modified': lastModified })]);
+    await fetchRecent(provider);
+    expect((await fetchRecent(provider)).result).toMatchObject({ notModified: true });
+  });
+
+  it('parses every response when there are no validators', async () => {
+    const { provider } = createProvider('browser-none', [ok('{"v":1}', {}), ok('{"v":1}', {})]);
+    await fetchRecent(provider);
+    expect((await fetchRecent(provider)).result).toMatchObject({ notModified: false });
+  });
+});
+
+describe('fetchFeedWithRetry in Node', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends the validators itself and reuses the payload on a 304', async () => {
+    vi.stubGlobal('window', undefined);
+    const lastModified = 'Sat, 19 Jul 2025 05:02:10 GMT';
+    const { provider, requests } = createProvider('node', [
+      ok('{"v":1}', { ETag: '"v1"', 'Last-Modified': lastModified }),
+      () => new Response(null, { status: 304 })
+    ]);
+    await fetchRecent(provider);
+    const unchanged = await fetchRecent(provider);
+    expect(requests[1]).toEqual({ 'If-None-Match': '"v1"', 'If-Modified-Since': lastModified });
+    expect(unchanged.result).toMatchObject({ ok: true, notModified: true, data: { v: 1 } });
+  });
+
+  it('keeps sending the validators after a network error', async () => {
+    vi.stubGlobal('window', undefined);
+    const { provider, requests } = createProvider('node-offline', [
+      ok('{"v":1}', { ETag: '"v1"' }),
+      () => {
+        throw new TypeError('fetch failed');
+      },
+      () => new Response(null, { status: 304 })
+    ]);
+    await fetchRecent(provider);
+    expect((await fetchRecent(provider)).result.ok).toBe(false);
+    await fetchRecent(provider);
+    expect(requests[2]).toEqual({ 'If-None-Match': '"v1"' });
+  });
+});
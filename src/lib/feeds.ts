@@ -0,0 +1,233 @@
+import { FEED_FILES } from './providers';
+import type { FeedName, QuakeProvider } from './providers';
+import { getCachedAt } from './serviceWorker';
+import { BmkgParseError } from './validation';
+import type { MalformedRecord } from './validation';
+
+export const FEED_NAMES: FeedName[] = ['latest', 'recent', 'felt'];
+
+// 'unchanged' is a revalidated payload that didn't change; 'cached' means
+// the service worker answered with its last good copy
+export type FeedStatus = 'pending' | 'ok' | 'unchanged' | 'cached' | 'error';
+
+export interface FeedHealth {
+  feed: FeedName;
+  file: string;
+  status: FeedStatus;
+  // Of the last attempt that got a response, retries included
+  latencyMs: number | null;
+  attempts: number;
+  lastAttempt: Date | null;
+  lastSuccess: Date | null;
+  error: string | null;
+  // Records of the last parsed payload that failed validation; filled in by
+  // the caller, which knows how the feed is parsed
+  malformed: MalformedRecord[];
+}
+
+export type FeedResult<T> =
+  | { ok: true; data: T; response: Response; notModified: boolean; health: FeedHealth }
+  | { ok: false; health: FeedHealth };
+
+export interface RetryOptions {
+  timeoutMs: number;
+  // Retries after the first attempt
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  timeoutMs: 10000,
+  retries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000
+};
+
+const HEALTH_KEY = 'feedHealth';
+
+interface ValidatedPayload {
+  etag: string | null;
+  lastModified: string | null;
+  data: unknown;
+}
+
+// Last parsed payload per provider and feed, with the validators it came with
+const validatedPayloads = new Map<string, ValidatedPayload>();
+
+// Browsers revalidate through their HTTP cache (the providers fetch with
+// cache: 'no-cache'), while validators set by hand aren't CORS-safelisted and
+// would cost a preflight per poll. Only Node (the CLI), which has no HTTP
+// cache, sends them itself.
+const sendsValidators = () => typeof window === 'undefined';
+
+const payloadKey = (provider: QuakeProvider, feed: FeedName) => `${provider.id}:${feed}`;
+
+const conditionalHeaders = (key: string): Record<string, string> | null => {
+  const payload = validatedPayloads.get(key);
+  if (!payload || !sendsValidators()) return null;
+  const headers: Record<string, string> = {};
+  if (payload.etag) headers['If-None-Match'] = payload.etag;
+  if (payload.lastModified) headers['If-Modified-Since'] = payload.lastModified;
+  return Object.keys(headers).length > 0 ? headers : null;
+};
+
+// The browser hands a 304 from its HTTP cache to the page as the cached 200,
+// so there an unchanged payload is recognized by its validators. ETag is only
+// readable cross-origin when the server exposes it; Last-Modified always is.
+const hasSameValidators = (response: Response, previous: ValidatedPayload) => {
+  const etag = response.headers.get('ETag');
+  if (etag !== null) return etag === previous.etag;
+  const lastModified = response.headers.get('Last-Modified');
+  return lastModified !== null && lastModified === previous.lastModified;
+};
+
+// Thrown for responses that are worth retrying (5xx, 429) or not (other 4xx).
+// A payload that fails validation won't parse any better the second time.
+class FeedHttpError extends Error {
+  status: number;
+
+  constructor(status: number) {
+    super(`HTTP error! status: ${status}`);
+    this.name = 'FeedHttpError';
+    this.status = status;
+  }
+}
+
+const isRetryable = (err: unknown) => {
+  if (err instanceof BmkgParseError) return false;
+  return !(err instanceof FeedHttpError) || err.status >= 500 || err.status === 429;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Exponential backoff with "equal jitter": half the delay is fixed, the other
+// half random, so clients that failed together don't retry in lockstep
+export const backoffDelay = (attempt: number, { baseDelayMs, maxDelayMs }: RetryOptions, random: () => number = Math.random) => {
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return delay / 2 + random() * (delay / 2);
+};
+
+export const createFeedHealth = (feed: FeedName): FeedHealth => ({
+  feed,
+  file: FEED_FILES[feed],
+  status: 'pending',
+  latencyMs: null,
+  attempts: 0,
+  lastAttempt: null,
+  lastSuccess: null,
+  error: null,
+  malformed: []
+});
+
+// Only the last success is worth keeping across reloads; everything else
+// describes the current session
+export const loadFeedHealth = (): Record<FeedName, FeedHealth> => {
+  let saved: Partial<Record<FeedName, string>> = {};
+  try {
+    saved = JSON.parse(localStorage.getItem(HEALTH_KEY) || '{}');
+  } catch {
+    saved = {};
+  }
+  return Object.fromEntries(FEED_NAMES.map(feed => {
+    const lastSuccess = saved[feed] ? new Date(saved[feed] as string) : null;
+    return [feed, {
+      ...createFeedHealth(feed),
+      lastSuccess: lastSuccess && !Number.isNaN(lastSuccess.getTime()) ? lastSuccess : null
+    }];
+  })) as Record<FeedName, FeedHealth>;
+};
+
+export const saveFeedHealth = (health: Record<FeedName, FeedHealth>) => {
+  const lastSuccess = Object.fromEntries(FEED_NAMES
+    .filter(feed => health[feed].lastSuccess)
+    .map(feed => [feed, health[feed].lastSuccess?.toISOString()]));
+  localStorage.setItem(HEALTH_KEY, JSON.stringify(lastSuccess));
+};
+
+// A failed or cached refresh must not hide an earlier, fresher success
+export const mergeFeedHealth = (previous: FeedHealth, next: FeedHealth): FeedHealth => ({
+  ...next,
+  lastSuccess: previous.lastSuccess && (!next.lastSuccess || previous.lastSuccess > next.lastSuccess)
+    ? previous.lastSuccess
+    : next.lastSuccess
+});
+
+// Fetches and parses one feed with a timeout per attempt and retries with
+// backoff. Never throws: failures come back as { ok: false } so one broken
+// feed doesn't take the others down with it. Once a feed has been loaded it
+// is revalidated with ETag/If-Modified-Since, and an unchanged payload reuses
+// what was parsed last time.
+export const fetchFeedWithRetry = async <T>(
+  provider: QuakeProvider,
+  feed: FeedName,
+  parse: (response: Response) => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS
+): Promise<FeedResult<T>> => {
+  let lastError: unknown = null;
+  let latencyMs: number | null = null;
+  let attempts = 0;
+  const key = payloadKey(provider, feed);
+
+  for (let attempt = 0; attempt <= options.retries; attempt++) {
+    if (attempt > 0) {
+      await sleep(backoffDelay(attempt - 1, options));
+    }
+    attempts++;
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), options.timeoutMs);
+    const headers = conditionalHeaders(key);
+    const startedAt = performance.now();
+    try {
+      const response = await provider.fetchFeed(feed, headers ? { signal: controller.signal, headers } : { signal: controller.signal });
+      latencyMs = Math.round(performance.now() - startedAt);
+      const previous = validatedPayloads.get(key);
+      // A cached copy only proves the feed worked when it was stored
+      const cachedAt = getCachedAt(response);
+      const notModified = previous !== undefined && !cachedAt && (response.status === 304 || (response.ok && hasSameValidators(response, previous)));
+      if (!response.ok && !notModified) {
+        throw new FeedHttpError(response.status);
+      }
+      const data = notModified ? previous.data as T : await parse(response);
+      const fetchedAt = cachedAt || new Date();
+      if (!notModified && !cachedAt) {
+        validatedPayloads.set(key, {
+          etag: response.headers.get('ETag'),
+          lastModified: response.headers.get('Last-Modified'),
+          data
+        });
+      }
+      return {
+        ok: true,
+        data,
+        response,
+        notModified,
+        health: {
+          ...createFeedHealth(feed),
+          status: notModified ? 'unchanged' : cachedAt ? 'cached' : 'ok',
+          latencyMs,
+          attempts,
+          lastAttempt: new Date(),
+          lastSuccess: fetchedAt
+        }
+      };
+    } catch (err) {
+      lastError = controller.signal.aborted ? new Error(`Timed out after ${options.timeoutMs} ms`) : err;
+      if (!isRetryable(lastError)) break;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  return {
+    ok: false,
+    health: {
+      ...createFeedHealth(feed),
+      status: 'error',
+      latencyMs,
+      attempts,
+      lastAttempt: new Date(),
+      error: lastError instanceof Error ? lastError.message : String(lastError)
+    }
+  };
+};
@@ -0,0 +1,82 @@
+import { distanceKm } from './geo';
+import type { LatLon } from './geo';
+import { feltAtIntensity } from './intensity';
+import { isTsunamiThreat } from './tsunami';
+import type { Quake } from '../types';
+
+export interface QuakeFilters {
+  minMagnitude: number | null;
+  maxMagnitude: number | null;
+  minDepth: number | null;
+  maxDepth: number | null;
+  // Local calendar days in YYYY-MM-DD, as produced by <input type="date">
+  fromDate: string;
+  toDate: string;
+  search: string;
+  tsunamiOnly: boolean;
+  // "Felt at MMI ≥ N in place X"; either half may be left empty
+  feltIntensity: number | null;
+  feltPlace: string;
+}
+
+export type QuakeSort = 'time' | 'magnitude' | 'depth' | 'distance';
+
+export const SORT_OPTIONS: QuakeSort[] = ['time', 'magnitude', 'depth', 'distance'];
+
+export const EMPTY_FILTERS: QuakeFilters = {
+  minMagnitude: null,
+  maxMagnitude: null,
+  minDepth: null,
+  maxDepth: null,
+  fromDate: '',
+  toDate: '',
+  search: '',
+  tsunamiOnly: false,
+  feltIntensity: null,
+  feltPlace: ''
+};
+
+export const toLocalDay = (time: Date) => {
+  const month = String(time.getMonth() + 1).padStart(2, '0');
+  const day = String(time.getDate()).padStart(2, '0');
+  return `${time.getFullYear()}-${month}-${day}`;
+};
+
+export const hasActiveFilters = (filters: QuakeFilters) =>
+  (Object.keys(EMPTY_FILTERS) as (keyof QuakeFilters)[])
+    .some(key => filters[key] !== EMPTY_FILTERS[key]);
+
+export const applyFilters = (quakes: Quake[], filters: QuakeFilters) => {
+  const needle = filters.search.trim().toLowerCase();
+  return quakes.filter(quake => {
+    if (filters.minMagnitude !== null && quake.magnitude < filters.minMagnitude) return false;
+    if (filters.maxMagnitude !== null && quake.magnitude > filters.maxMagnitude) return false;
+    if (filters.minDepth !== null && quake.depthKm < filters.minDepth) return false;
+    if (filters.maxDepth !== null && quake.depthKm > filters.maxDepth) return false;
+    if (filters.fromDate && toLocalDay(quake.time) < filters.fromDate) return false;
+    if (filters.toDate && toLocalDay(quake.time) > filters.toDate) return false;
+    if (needle && !quake.region.toLowerCase().includes(needle)) return false;
+    if (filters.tsunamiOnly && !isTsunamiThreat(quake)) return false;
+    if ((filters.feltIntensity !== null || filters.feltPlace.trim())
+      && !feltAtIntensity(quake.felt, filters.feltIntensity, filters.feltPlace)) return false;
+    return true;
+  });
+};
+
+// Time, magnitude and depth sort largest first; distance sorts nearest first
+// and leaves the order untouched when there is no reference point yet.
+export const sortQuakes = (quakes: Quake[], sort: QuakeSort, reference: LatLon | null = null) => {
+  const sorted = [...quakes];
+  switch (sort) {
+    case 'magnitude':
+      return sorted.sort((a, b) => b.magnitude - a.magnitude);
+    case 'depth':
+      return sorted.sort((a, b) => b.depthKm - a.depthKm);
+    case 'distance':
+      if (!reference) return sorted;
+      return sorted.sort((a, b) => distanceKm(reference, a) - distanceKm(reference, b));
+    case 'time':
+    default:
+      return sorted.sort((a, b) => b.time.getTime() - a.time.getTime());
+  }
+};
@@ -0,0 +1,114 @@
+import { compassPoint } from './geo';
+import { LOCALES, translate } from './i18n';
+import type { Language, MessageKey } from './i18n';
+import { TIME_ZONE_PREFERENCES, ZONE_TIME_ZONES, getEpicenterZone } from './timezones';
+import type { TimeZonePreference } from './timezones';
+import type { Quake } from '../types';
+
+export const formatNumber = (value: number, fractionDigits: number, language: Language = 'id') =>
+  value.toLocaleString(LOCALES[language], {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits
+  });
+
+export const formatMagnitude = (magnitude: number, language: Language = 'id') =>
+  formatNumber(magnitude, 1, language);
+
+export const formatDepth = (depthKm: number, language: Language = 'id') =>
+  `${formatNumber(Math.round(depthKm), 0, language)} km`;
+
+export const formatLatitude = (lat: number, language: Language = 'id') =>
+  `${formatNumber(Math.abs(lat), 2, language)}° ${translate(language, lat < 0 ? 'coordinates.south' : 'coordinates.north')}`;
+
+export const formatLongitude = (lon: number, language: Language = 'id') =>
+  `${formatNumber(Math.abs(lon), 2, language)}° ${translate(language, lon < 0 ? 'coordinates.west' : 'coordinates.east')}`;
+
+export const formatCoordinates = (lat: number, lon: number, language: Language = 'id') =>
+  `${formatLatitude(lat, language)}, ${formatLongitude(lon, language)}`;
+
+export const formatDistance = (distanceKm: number, language: Language = 'id') =>
+  `${formatNumber(distanceKm < 10 ? distanceKm : Math.round(distanceKm), distanceKm < 10 ? 1 : 0, language)} km`;
+
+const COMPASS_KEYS: MessageKey[] = [
+  'direction.north',
+  'direction.northEast',
+  'direction.east',
+  'direction.southEast',
+  'direction.south',
+  'direction.southWest',
+  'direction.west',
+  'direction.northWest'
+];
+
+export const formatDirection = (bearing: number, language: Language = 'id') =>
+  translate(language, COMPASS_KEYS[compassPoint(bearing)]);
+
+// Plain local date and time, for timestamps that aren't event times
+export const formatTimestamp = (time: Date, language: Language = 'id') =>
+  time.toLocaleString(LOCALES[language]);
+
+export const formatClock = (time: Date, language: Language = 'id') =>
+  time.toLocaleTimeString(LOCALES[language]);
+
+export interface EventTime {
+  // In the zone the user picked, then the remaining zones that differ from it
+  primary: string;
+  secondary: string[];
+}
+
+const formatInZone = (time: Date, timeZone: string | undefined, language: Language) =>
+  time.toLocaleString(LOCALES[language], {
+    timeZone,
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+
+// The epicenter's own WIB/WITA/WIT clock, the viewer's clock and UTC. The
+// two are merged when the viewer is in the epicenter's zone.
+export const formatEventTime = (
+  quake: Pick<Quake, 'time' | 'lon' | 'region'>,
+  preference: TimeZonePreference = 'epicenter',
+  language: Language = 'id'
+): EventTime => {
+  const zone = getEpicenterZone(quake);
+  const epicenterTime = formatInZone(quake.time, ZONE_TIME_ZONES[zone], language);
+  const localTime = formatInZone(quake.time, undefined, language);
+  const localZoneName = new Intl.DateTimeFormat(LOCALES[language], { timeZoneName: 'short' })
+    .formatToParts(quake.time)
+    .find(part => part.type === 'timeZoneName')?.value || '';
+
+  const sameClock = localTime === epicenterTime;
+
+  const times: Record<TimeZonePreference, string | null> = {
+    epicenter: sameClock && preference === 'local' ? null : `${epicenterTime} ${zone}`,
+    local: sameClock && preference !== 'local'
+      ? null
+      : `${localTime} ${translate(language, 'time.local', { zone: localZoneName })}`,
+    utc: `${formatInZone(quake.time, 'UTC', language)} UTC`
+  };
+
+  const order = [preference, ...TIME_ZONE_PREFERENCES.filter(key => key !== preference)];
+  const [primary, ...secondary] = order
+    .map(key => times[key])
+    .filter((value): value is string => value !== null);
+  return { primary, secondary };
+};
+
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['day', 24 * 60 * 60],
+  ['hour', 60 * 60],
+  ['minute', 60]
+];
+
+// "12 menit yang lalu" / "12 minutes ago"; anything under a minute is "now"
+export const formatRelativeTime = (time: Date, now: Date, language: Language = 'id') => {
+  const formatter = new Intl.RelativeTimeFormat(LOCALES[language], { numeric: 'auto' });
+  const seconds = Math.round((time.getTime() - now.getTime()) / 1000);
+  const unit = RELATIVE_UNITS.find(([, size]) => Math.abs(seconds) >= size);
+  if (!unit) return formatter.format(0, 'second');
+  return formatter.format(Math.trunc(seconds / unit[1]), unit[0]);
+};
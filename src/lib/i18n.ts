@@ -0,0 +1,63 @@
+import en from '../locales/en';
+import id from '../locales/id';
+
+export type Language = 'id' | 'en';
+
+// The Indonesian catalog is the source of truth; every other catalog must
+// provide the same keys
+export type MessageKey = keyof typeof id;
+export type Messages = Record<MessageKey, string>;
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<Language, Messages> = { id, en };
+
+export const LANGUAGES: Language[] = ['id', 'en'];
+
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  id: 'Bahasa Indonesia',
+  en: 'English'
+};
+
+// BCP 47 tags used for every Intl date and number format
+export const LOCALES: Record<Language, string> = {
+  id: 'id-ID',
+  en: 'en-GB'
+};
+
+export interface Translator {
+  language: Language;
+  locale: string;
+  t: (key: MessageKey, params?: MessageParams) => string;
+}
+
+const LANGUAGE_KEY = 'language';
+
+// Replaces {name} placeholders; unknown placeholders are left as they are
+export const translate = (language: Language, key: MessageKey, params?: MessageParams) => {
+  const message = CATALOGS[language][key] ?? CATALOGS.id[key] ?? key;
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] === undefined ? match : String(params[name]));
+};
+
+export const createTranslator = (language: Language): Translator => ({
+  language,
+  locale: LOCALES[language],
+  t: (key, params) => translate(language, key, params)
+});
+
+const isLanguage = (value: unknown): value is Language =>
+  LANGUAGES.includes(value as Language);
+
+// Falls back to the browser language on the first visit, so partner
+// organisations abroad get English without having to find the switcher
+export const loadLanguage = (): Language => {
+  const saved = localStorage.getItem(LANGUAGE_KEY);
+  if (isLanguage(saved)) return saved;
+  const browserLanguage = navigator.language?.slice(0, 2);
+  return browserLanguage === 'id' || browserLanguage === 'ms' || !browserLanguage ? 'id' : 'en';
+};
+
+export const saveLanguage = (language: Language) => {
+  localStorage.setItem(LANGUAGE_KEY, language);
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { feltAtIntensity, formatIntensityRange, getMaxIntensity, parseFeltReports, romanToNumber, toRoman } from './intensity';
+
+describe('romanToNumber and toRoman', () => {
+  it('convert the MMI scale both ways', () => {
+    expect(romanToNumber('iv')).toBe(4);
+    expect(romanToNumber('XII')).toBe(12);
+    expect(romanToNumber('XIII')).toBeNull();
+    expect(toRoman(9)).toBe('IX');
+    expect(toRoman(13)).toBe('13');
+  });
+
+  it('format a range only when its ends differ', () => {
+    expect(formatIntensityRange({ min: 3, max: 3 })).toBe('III');
+    expect(formatIntensityRange({ min: 2, max: 3 })).toBe('II-III');
+  });
+});
+
+describe('parseFeltReports', () => {
+  it('is empty without a report', () => {
+    expect(parseFeltReports(null)).toEqual([]);
+    expect(parseFeltReports('')).toEqual([]);
+  });
+
+  it('reads single values, ranges and the MMI suffix, strongest first', () => {
+    expect(parseFeltReports('II-III Tondano, IV Bitung, III MMI Manado, III - IV Kotamobagu')).toEqual([
+      { place: 'Bitung', min: 4, max: 4 },
+      { place: 'Kotamobagu', min: 3, max: 4 },
+      { place: 'Manado', min: 3, max: 3 },
+      { place: 'Tondano', min: 2, max: 3 }
+    ]);
+  });
+
+  it('accepts reversed ranges and other separators', () => {
+    expect(parseFeltReports('III-II Palu; V Poso\nIV Tentena').map(report => [report.place, report.min, report.max])).toEqual([
+      ['Poso', 5, 5],
+      ['Tentena', 4, 4],
+      ['Palu', 2, 3]
+    ]);
+  });
+
+  it('skips entries without a valid numeral', () => {
+    expect(parseFeltReports('Dirasakan di Palu, XIII Poso, IIII Donggala, II Parigi')).toEqual([{ place: 'Parigi', min: 2, max: 2 }]);
+  });
+});
+
+describe('getMaxIntensity', () => {
+  it('takes the upper end of the strongest report', () => {
+    expect(getMaxIntensity('II-III Tondano, II Manado')).toBe(3);
+    expect(getMaxIntensity('Dirasakan')).toBeNull();
+    expect(getMaxIntensity(null)).toBeNull();
+  });
+});
+
+describe('feltAtIntensity', () => {
+  const felt = 'II-III Tondano, IV Bitung';
+
+  it('counts a range as reaching its upper end', () => {
+    expect(feltAtIntensity(felt, 3, 'tondano')).toBe(true);
+    expect(feltAtIntensity(felt, 4, 'tondano')).toBe(false);
+  });
+
+  it('matches any place or any intensity when that half is empty', () => {
+    expect(feltAtIntensity(felt, 4, ' ')).toBe(true);
+    expect(feltAtIntensity(felt, null, 'Bit')).toBe(true);
+    expect(feltAtIntensity(felt, null, '')).toBe(true);
+    expect(feltAtIntensity(null, null, '')).toBe(false);
+  });
+});
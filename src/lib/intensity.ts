@@ -0,0 +1,60 @@
+// Modified Mercalli Intensity reports from BMKG's Dirasakan field, e.g.
+// "IV Bitung, III Manado, II-III Tondano"
+
+export interface FeltReport {
+  place: string;
+  // Both ends of the reported range; equal for a single value
+  min: number;
+  max: number;
+}
+
+const ROMAN_NUMERALS: [string, number][] = [
+  ['XII', 12], ['XI', 11], ['X', 10], ['IX', 9], ['VIII', 8], ['VII', 7],
+  ['VI', 6], ['V', 5], ['IV', 4], ['III', 3], ['II', 2], ['I', 1]
+];
+
+export const MAX_INTENSITY = 12;
+
+// "II-III", "II - III" or "IV", optionally followed by "MMI", then the place
+const REPORT_PATTERN = /^([IVX]+)(?:\s*-\s*([IVX]+))?\s+(?:MMI\s+)?(.+)$/i;
+
+export const romanToNumber = (text: string) =>
+  ROMAN_NUMERALS.find(([roman]) => roman === text.toUpperCase())?.[1] ?? null;
+
+export const toRoman = (value: number) =>
+  ROMAN_NUMERALS.find(([, number]) => number === value)?.[0] ?? String(value);
+
+export const formatIntensityRange = (report: Pick<FeltReport, 'min' | 'max'>) =>
+  report.min === report.max ? toRoman(report.min) : `${toRoman(report.min)}-${toRoman(report.max)}`;
+
+// Entries that don't start with a numeral are skipped rather than guessed at.
+// The result is sorted strongest first, ties broken by the lower bound.
+export const parseFeltReports = (felt: string | null): FeltReport[] => {
+  if (!felt) return [];
+  return felt
+    .split(/[,;\n]/)
+    .map(entry => entry.trim().match(REPORT_PATTERN))
+    .flatMap(match => {
+      if (!match) return [];
+      const first = romanToNumber(match[1]);
+      const second = match[2] ? romanToNumber(match[2]) : first;
+      if (first === null || second === null) return [];
+      return [{ place: match[3].trim(), min: Math.min(first, second), max: Math.max(first, second) }];
+    })
+    .sort((a, b) => b.max - a.max || b.min - a.min);
+};
+
+export const getMaxIntensity = (felt: string | null) => {
+  const reports = parseFeltReports(felt);
+  return reports.length > 0 ? reports[0].max : null;
+};
+
+// A range counts as reaching N when its upper end does, so "II-III" matches
+// MMI ≥ III. An empty place matches any place.
+export const feltAtIntensity = (felt: string | null, minIntensity: number | null, place: string) => {
+  const needle = place.trim().toLowerCase();
+  return parseFeltReports(felt).some(report =>
+    (minIntensity === null || report.max >= minIntensity)
+    && (!needle || report.place.toLowerCase().includes(needle))
+  );
+};
@@ -0,0 +1,47 @@
+import type { LatLon } from './geo';
+
+export interface SavedLocation extends LatLon {
+  id: string;
+  name: string;
+}
+
+const LOCATIONS_KEY = 'savedLocations';
+const ACTIVE_LOCATION_KEY = 'activeLocationId';
+
+const isSavedLocation = (value: unknown): value is SavedLocation => {
+  const location = value as SavedLocation;
+  return typeof location?.id === 'string' &&
+    typeof location.name === 'string' &&
+    Number.isFinite(location.lat) &&
+    Number.isFinite(location.lon);
+};
+
+export const loadLocations = (): SavedLocation[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LOCATIONS_KEY) || '[]');
+    return Array.isArray(saved) ? saved.filter(isSavedLocation) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveLocations = (locations: SavedLocation[]) => {
+  localStorage.setItem(LOCATIONS_KEY, JSON.stringify(locations));
+};
+
+export const loadActiveLocationId = () => localStorage.getItem(ACTIVE_LOCATION_KEY);
+
+export const saveActiveLocationId = (id: string | null) => {
+  if (id) localStorage.setItem(ACTIVE_LOCATION_KEY, id);
+  else localStorage.removeItem(ACTIVE_LOCATION_KEY);
+};
+
+export const createLocation = (name: string, lat: number, lon: number): SavedLocation => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name: name.trim(),
+  lat,
+  lon
+});
+
+export const isValidCoordinate = (lat: number, lon: number) =>
+  Number.isFinite(lat) && Number.isFinite(lon) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
@@ -0,0 +1,73 @@
+import neighbors from '../data/neighbor-countries.json';
+import provinces from '../data/indonesia-provinces.json';
+
+interface MapFeature {
+  // Null for the islets Natural Earth leaves out of every province
+  properties: { name: string | null };
+  geometry: { type: 'MultiPolygon'; coordinates: number[][][][] };
+}
+
+// Equirectangular projection over the Indonesian archipelago. The map data is
+// Natural Earth (public domain): the admin-1 provinces of Indonesia (the
+// TopoJSON in the datamaps package) and, for context, the 1:50m outlines of
+// the neighboring countries (world-atlas), simplified to about 2 km and
+// clipped to the map. It is drawn as plain SVG so the maps work
+// without any tile service.
+const BOUNDS = { west: 94, east: 142, north: 6.5, south: -11.5 };
+export const MAP_WIDTH = 1000;
+const SCALE = MAP_WIDTH / (BOUNDS.east - BOUNDS.west);
+export const MAP_HEIGHT = (BOUNDS.north - BOUNDS.south) * SCALE;
+
+export const project = (lon: number, lat: number) => ({
+  x: (lon - BOUNDS.west) * SCALE,
+  y: (BOUNDS.north - lat) * SCALE
+});
+
+const ringToPath = (ring: number[][]) =>
+  ring.map(([lon, lat], i) => {
+    const { x, y } = project(lon, lat);
+    return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join('') + 'Z';
+
+const toPaths = (features: MapFeature[]) => features.map((feature, i) => ({
+  key: feature.properties.name || `unnamed-${i}`,
+  name: feature.properties.name,
+  d: feature.geometry.coordinates.flatMap(polygon => polygon.map(ringToPath)).join('')
+}));
+
+// Natural Earth still has the 34 provinces from before the 2022 Papua split
+export const PROVINCE_PATHS = toPaths(provinces.features as MapFeature[]);
+
+export const NEIGHBOR_PATHS = toPaths(neighbors.features as MapFeature[]);
+
+export const GRATICULE_LONS = [95, 100, 105, 110, 115, 120, 125, 130, 135, 140];
+export const GRATICULE_LATS = [5, 0, -5, -10];
+
+export const getMarkerRadius = (magnitude: number) =>
+  Math.max(3, (magnitude - 2) * 3);
+
+export const getDepthColor = (depthKm: number) => {
+  if (depthKm <= 70) return '#dc2626';
+  if (depthKm <= 300) return '#f59e0b';
+  return '#2563eb';
+};
+
+// The part of the map around the given points, padded and widened to the map's aspect
+// ratio, so a single sequence isn't a speck on the whole archipelago
+export const fitViewBox = (points: { x: number; y: number }[], padding = 60, minWidth = 200) => {
+  if (points.length === 0) return { x: 0, y: 0, width: MAP_WIDTH, height: MAP_HEIGHT };
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const aspect = MAP_WIDTH / MAP_HEIGHT;
+  let width = Math.max(Math.max(...xs) - Math.min(...xs) + 2 * padding, minWidth);
+  let height = Math.max(...ys) - Math.min(...ys) + 2 * padding;
+  if (width / height > aspect) height = width / aspect;
+  else width = height * aspect;
+  width = Math.min(width, MAP_WIDTH);
+  height = Math.min(height, MAP_HEIGHT);
+  const cx = (Math.max(...xs) + Math.min(...xs)) / 2;
+  const cy = (Math.max(...ys) + Math.min(...ys)) / 2;
+  const x = Math.min(Math.max(cx - width / 2, 0), MAP_WIDTH - width);
+  const y = Math.min(Math.max(cy - height / 2, 0), MAP_HEIGHT - height);
+  return { x, y, width, height };
+};
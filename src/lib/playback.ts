@@ -0,0 +1,63 @@
+import type { MessageKey } from './i18n';
+import type { Quake } from '../types';
+
+export interface PlaybackSpeed {
+  // Event time covered per second of playback
+  msPerSecond: number;
+  label: MessageKey;
+  count: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+export const PLAYBACK_SPEEDS: PlaybackSpeed[] = [
+  { msPerSecond: MINUTE_MS, label: 'playback.speedMinutes', count: 1 },
+  { msPerSecond: 10 * MINUTE_MS, label: 'playback.speedMinutes', count: 10 },
+  { msPerSecond: HOUR_MS, label: 'playback.speedHours', count: 1 },
+  { msPerSecond: 6 * HOUR_MS, label: 'playback.speedHours', count: 6 },
+  { msPerSecond: DAY_MS, label: 'playback.speedDays', count: 1 },
+  { msPerSecond: 7 * DAY_MS, label: 'playback.speedDays', count: 7 }
+];
+
+export const DEFAULT_PLAYBACK_SPEED = HOUR_MS;
+
+// How long, in seconds of playback, an epicenter takes to fade after it
+// appears. Tying it to playback time rather than event time keeps the map
+// equally readable at every speed.
+const FADE_SECONDS = 4;
+// Faded epicenters stay as a faint trace so the shape of a sequence remains
+export const TRACE_OPACITY = 0.15;
+// Epicenters younger than this, in seconds of playback, send out a ripple
+const RIPPLE_SECONDS = 1.5;
+
+export interface PlaybackRange {
+  start: number;
+  end: number;
+}
+
+// Local midnight of fromDate to the end of toDate's day; an empty bound falls
+// back to the first or last event
+export const getPlaybackRange = (quakes: Quake[], fromDate: string, toDate: string): PlaybackRange | null => {
+  const times = quakes.map(quake => quake.time.getTime());
+  const start = fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : Math.min(...times);
+  const end = toDate ? new Date(`${toDate}T23:59:59.999`).getTime() : Math.max(...times);
+  if (!Number.isFinite(start) || !Number.isFinite(end) || end < start) return null;
+  return { start, end };
+};
+
+// 1 right when the event happens, down to TRACE_OPACITY after FADE_SECONDS,
+// and null while it hasn't happened yet
+export const getPlaybackOpacity = (quake: Quake, cursor: number, msPerSecond: number) => {
+  const age = cursor - quake.time.getTime();
+  if (age < 0) return null;
+  const faded = age / (FADE_SECONDS * msPerSecond);
+  return Math.max(TRACE_OPACITY, 1 - faded * (1 - TRACE_OPACITY));
+};
+
+// From 0 when the event happens to 1 when its ripple is gone, null outside
+export const getRippleProgress = (quake: Quake, cursor: number, msPerSecond: number) => {
+  const progress = (cursor - quake.time.getTime()) / (RIPPLE_SECONDS * msPerSecond);
+  return progress >= 0 && progress < 1 ? progress : null;
+};
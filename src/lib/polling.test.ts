@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { isSignificantQuake, nextPollDelay } from './polling';
+import type { Quake } from '../types';
+
+const createQuake = (overrides: Partial<Quake> = {}): Quake => ({
+  id: '20250719050210',
+  time: new Date('2025-07-19T05:02:10Z'),
+  magnitude: 4.2,
+  depthKm: 11,
+  lat: 1.46,
+  lon: 125.12,
+  region: 'Pusat gempa berada di laut 25 km Timur Laut Bitung',
+  tsunami: 'none',
+  potensi: 'Tidak berpotensi tsunami',
+  felt: null,
+  shakemap: null,
+  ...overrides
+});
+
+describe('isSignificantQuake', () => {
+  it('counts strong events and tsunami threats', () => {
+    expect(isSignificantQuake(createQuake({ magnitude: 6 }))).toBe(true);
+    expect(isSignificantQuake(createQuake({ tsunami: 'potential' }))).toBe(true);
+    expect(isSignificantQuake(createQuake({ tsunami: 'warning' }))).toBe(true);
+  });
+
+  it('ignores small felt events', () => {
+    expect(isSignificantQuake(createQuake({ felt: 'IV Bitung, III Manado' }))).toBe(false);
+    expect(isSignificantQuake(createQuake({ magnitude: 5.9 }))).toBe(false);
+  });
+});
+
+describe('nextPollDelay', () => {
+  const now = 1_000_000;
+
+  it('uses the chosen interval', () => {
+    expect(nextPollDelay({ intervalMs: 60000, hidden: false, boostedUntil: 0, now })).toBe(60000);
+  });
+
+  it('slows down in hidden tabs, boosted or not', () => {
+    expect(nextPollDelay({ intervalMs: 30000, hidden: true, boostedUntil: now + 1000, now })).toBe(300000);
+    expect(nextPollDelay({ intervalMs: 600000, hidden: true, boostedUntil: 0, now })).toBe(600000);
+  });
+
+  it('polls at most twice as often while boosted', () => {
+    expect(nextPollDelay({ intervalMs: 300000, hidden: false, boostedUntil: now + 1000, now })).toBe(150000);
+    expect(nextPollDelay({ intervalMs: 60000, hidden: false, boostedUntil: now + 1000, now })).toBe(30000);
+  });
+
+  it('never boosts below the shortest interval on offer', () => {
+    expect(nextPollDelay({ intervalMs: 30000, hidden: false, boostedUntil: now + 1000, now })).toBe(15000);
+    expect(nextPollDelay({ intervalMs: 15000, hidden: false, boostedUntil: now + 1000, now })).toBe(15000);
+  });
+
+  it('ends the boost on time', () => {
+    expect(nextPollDelay({ intervalMs: 60000, hidden: false, boostedUntil: now, now })).toBe(60000);
+  });
+});
@@ -0,0 +1,98 @@
+import { useEffect, useRef } from 'react';
+import { isTsunamiThreat } from './tsunami';
+import type { Quake } from '../types';
+
+export const POLL_INTERVALS_MS = [15000, 30000, 60000, 120000, 300000];
+export const DEFAULT_POLL_INTERVAL_MS = 30000;
+
+// Hidden tabs keep polling, only slower, so alert notifications still arrive
+const HIDDEN_INTERVAL_MS = 5 * 60 * 1000;
+// BMKG revises magnitude, depth and felt reports in the first minutes after
+// a strong event or a tsunami threat, so those are followed more closely for
+// a while: twice as often as the chosen interval, but never faster than the
+// shortest one on offer, since every poll costs data on metered connections
+const BOOST_FACTOR = 2;
+const BOOST_DURATION_MS = 5 * 60 * 1000;
+const SIGNIFICANT_MAGNITUDE = 6;
+
+const POLL_INTERVAL_KEY = 'pollInterval';
+
+export interface PollState {
+  intervalMs: number;
+  hidden: boolean;
+  boostedUntil: number;
+  now: number;
+}
+
+// New felt reports alone don't count: they come in for many small events
+export const isSignificantQuake = (quake: Quake) =>
+  quake.magnitude >= SIGNIFICANT_MAGNITUDE || isTsunamiThreat(quake);
+
+export const nextPollDelay = ({ intervalMs, hidden, boostedUntil, now }: PollState) => {
+  if (hidden) return Math.max(intervalMs, HIDDEN_INTERVAL_MS);
+  if (boostedUntil > now) return Math.max(intervalMs / BOOST_FACTOR, Math.min(intervalMs, POLL_INTERVALS_MS[0]));
+  return intervalMs;
+};
+
+export const loadPollInterval = () => {
+  const saved = Number(localStorage.getItem(POLL_INTERVAL_KEY));
+  return POLL_INTERVALS_MS.includes(saved) ? saved : DEFAULT_POLL_INTERVAL_MS;
+};
+
+export const savePollInterval = (intervalMs: number) => {
+  localStorage.setItem(POLL_INTERVAL_KEY, String(intervalMs));
+};
+
+// Calls poll() on a timeout chain, so a slow refresh never overlaps the next
+// one. poll resolves to true when it saw a significant new event, which
+// shortens the interval for a while. The first poll is left to the caller.
+export const usePolling = (poll: () => Promise<boolean>, intervalMs: number, enabled: boolean) => {
+  const pollRef = useRef(poll);
+
+  useEffect(() => {
+    pollRef.current = poll;
+  }, [poll]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+    let running = false;
+    let lastPoll = Date.now();
+    let boostedUntil = 0;
+
+    const schedule = () => {
+      clearTimeout(timer);
+      if (stopped || running) return;
+      const now = Date.now();
+      const delay = nextPollDelay({ intervalMs, hidden: document.hidden, boostedUntil, now });
+      timer = setTimeout(run, Math.max(0, lastPoll + delay - now));
+    };
+
+    const run = async () => {
+      running = true;
+      lastPoll = Date.now();
+      try {
+        if (await pollRef.current()) {
+          boostedUntil = Date.now() + BOOST_DURATION_MS;
+        }
+      } catch (err) {
+        console.warn('Scheduled refresh failed:', err);
+      } finally {
+        running = false;
+        schedule();
+      }
+    };
+
+    // Coming back to the tab refreshes right away if the data is overdue
+    const handleVisibilityChange = () => schedule();
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    schedule();
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [enabled, intervalMs]);
+};
@@ -0,0 +1,127 @@
+import { buildAgencyQueryUrl } from './agencies';
+import type { ExternalAgency } from './agencies';
+
+export type FeedName = 'latest' | 'recent' | 'felt';
+
+// A provider only knows where the raw payloads come from. Parsing and
+// normalization stay in lib/bmkg.ts and lib/agencies.ts so every provider
+// yields the same data.
+export interface QuakeProvider {
+  id: string;
+  label: string;
+  endpoints: Record<FeedName, string>;
+  fetchFeed: (feed: FeedName, init?: RequestInit) => Promise<Response>;
+  // USGS and EMSC catalogs for the Indonesian region, as GeoJSON
+  fetchAgencyFeed: (agency: ExternalAgency, init?: RequestInit) => Promise<Response>;
+  getShakemapUrl: (shakemap: string) => string;
+}
+
+export interface FixtureStep {
+  // Seconds since the provider was created after which this step is served
+  at: number;
+  latest?: string;
+  recent?: string;
+  felt?: string;
+}
+
+export interface FixtureManifest {
+  name: string;
+  steps: FixtureStep[];
+}
+
+export const BMKG_BASE_URL = 'https://data.bmkg.go.id/DataMKG/TEWS';
+
+export const FEED_FILES: Record<FeedName, string> = {
+  latest: 'autogempa.xml',
+  recent: 'gempaterkini.json',
+  felt: 'gempadirasakan.json'
+};
+
+const FEED_ACCEPT: Record<FeedName, string> = {
+  latest: 'application/xml, text/xml',
+  recent: 'application/json',
+  felt: 'application/json'
+};
+
+const withAccept = (feed: FeedName, init?: RequestInit): RequestInit => ({
+  method: 'GET',
+  cache: 'no-cache',
+  ...init,
+  headers: { Accept: FEED_ACCEPT[feed], ...init?.headers }
+});
+
+export const createBmkgProvider = (baseUrl: string = BMKG_BASE_URL): QuakeProvider => {
+  const endpoints: Record<FeedName, string> = {
+    latest: `${baseUrl}/${FEED_FILES.latest}`,
+    recent: `${baseUrl}/${FEED_FILES.recent}`,
+    felt: `${baseUrl}/${FEED_FILES.felt}`
+  };
+
+  return {
+    id: 'bmkg',
+    label: 'BMKG',
+    endpoints,
+    fetchFeed: (feed, init) => fetch(endpoints[feed], withAccept(feed, init)),
+    fetchAgencyFeed: (agency, init) => fetch(buildAgencyQueryUrl(agency), { ...init, headers: { Accept: 'application/json' } }),
+    getShakemapUrl: shakemap => `${baseUrl}/${shakemap}`
+  };
+};
+
+// Serves recorded payloads from a directory (public/fixtures/<scenario> or a
+// local mock server). When the directory has a manifest.json, its steps are
+// replayed over time to simulate new events arriving mid-session.
+export const createFixtureProvider = (baseUrl: string, now: () => number = Date.now): QuakeProvider => {
+  const startedAt = now();
+  let manifest: Promise<FixtureManifest | null> | null = null;
+
+  const loadManifest = () => {
+    if (!manifest) {
+      manifest = fetch(`${baseUrl}/manifest.json`, { cache: 'no-cache' })
+        .then(response => (response.ok ? response.json() as Promise<FixtureManifest> : null))
+        .catch(() => null);
+    }
+    return manifest;
+  };
+
+  const resolveFile = async (feed: FeedName) => {
+    const loaded = await loadManifest();
+    if (!loaded || loaded.steps.length === 0) return FEED_FILES[feed];
+
+    const elapsedSeconds = (now() - startedAt) / 1000;
+    let file = FEED_FILES[feed];
+    // Later steps inherit any feed they don't override from earlier ones
+    for (const step of [...loaded.steps].sort((a, b) => a.at - b.at)) {
+      if (step.at > elapsedSeconds) break;
+      file = step[feed] || file;
+    }
+    return file;
+  };
+
+  return {
+    id: 'fixture',
+    label: 'Fixture',
+    endpoints: {
+      latest: `${baseUrl}/${FEED_FILES.latest}`,
+      recent: `${baseUrl}/${FEED_FILES.recent}`,
+      felt: `${baseUrl}/${FEED_FILES.felt}`
+    },
+    fetchFeed: async (feed, init) => fetch(`${baseUrl}/${await resolveFile(feed)}`, withAccept(feed, init)),
+    // Recorded catalog responses sit next to the BMKG files as usgs.json / emsc.json
+    fetchAgencyFeed: (agency, init) => fetch(`${baseUrl}/${agency}.json`, { cache: 'no-cache', ...init }),
+    getShakemapUrl: shakemap => `${baseUrl}/${shakemap}`
+  };
+};
+
+// Build-time defaults come from VITE_QUAKE_PROVIDER / VITE_FIXTURE_URL and can
+// be overridden at runtime with ?provider=fixture&fixture=/fixtures/replay
+export const getQuakeProvider = (): QuakeProvider => {
+  const params = new URLSearchParams(window.location.search);
+  const providerId = params.get('provider') || import.meta.env.VITE_QUAKE_PROVIDER || 'bmkg';
+
+  if (providerId === 'fixture') {
+    const fixtureUrl = params.get('fixture') || import.meta.env.VITE_FIXTURE_URL || '/fixtures/default';
+    return createFixtureProvider(fixtureUrl.replace(/\/$/, ''));
+  }
+
+  return createBmkgProvider(import.meta.env.VITE_BMKG_URL || BMKG_BASE_URL);
+};
@@ -0,0 +1,60 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { EMPTY_FILTERS } from './filters';
+import { readQueryState, writeQueryState } from './queryState';
+import type { QueryState } from './queryState';
+
+const DEFAULT_STATE: QueryState = { tab: 'latest', filters: EMPTY_FILTERS, sort: 'time' };
+
+describe('readQueryState', () => {
+  it('falls back to the defaults for an empty or unknown query', () => {
+    expect(readQueryState('')).toEqual(DEFAULT_STATE);
+    expect(readQueryState('?tab=settings&sort=random&provider=fixture')).toEqual(DEFAULT_STATE);
+  });
+
+  it('drops values it cannot read', () => {
+    const { filters } = readQueryState('?mmin=abc&dmax=&from=2025-7-1&to=19-07-2025&mmi=13&tsunami=yes');
+    expect(filters).toEqual(EMPTY_FILTERS);
+  });
+
+  it('keeps felt intensities on the scale, rounded', () => {
+    expect(readQueryState('?mmi=3.6').filters.feltIntensity).toBe(4);
+    expect(readQueryState('?mmi=0').filters.feltIntensity).toBeNull();
+    expect(readQueryState('?mmi=12').filters.feltIntensity).toBe(12);
+  });
+});
+
+describe('writeQueryState', () => {
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/?provider=fixture');
+  });
+
+  it('round-trips every filter', () => {
+    const state: QueryState = {
+      tab: 'map',
+      filters: {
+        minMagnitude: 4.5,
+        maxMagnitude: 7,
+        minDepth: 0,
+        maxDepth: 70.5,
+        fromDate: '2025-07-01',
+        toDate: '2025-07-19',
+        search: 'Poso & Palu, "Sulteng"?',
+        tsunamiOnly: true,
+        feltIntensity: 3,
+        feltPlace: 'Kota Palu'
+      },
+      sort: 'magnitude'
+    };
+    writeQueryState(state);
+    expect(readQueryState(window.location.search)).toEqual(state);
+  });
+
+  it('leaves defaults out and keeps parameters it does not own', () => {
+    writeQueryState({ tab: 'recent', filters: { ...EMPTY_FILTERS, minMagnitude: 5 }, sort: 'time' });
+    writeQueryState({ ...DEFAULT_STATE, filters: { ...EMPTY_FILTERS, minDepth: 0 } });
+    expect(window.location.search).toBe('?provider=fixture&dmin=0');
+    writeQueryState(DEFAULT_STATE);
+    expect(window.location.search).toBe('?provider=fixture');
+  });
+});
@@ -0,0 +1,99 @@
+import { EMPTY_FILTERS, SORT_OPTIONS } from './filters';
+import type { QuakeFilters, QuakeSort } from './filters';
+import { MAX_INTENSITY } from './intensity';
+
+export const TABS = ['latest', 'recent', 'felt', 'map', 'history', 'stats', 'alerts', 'tsunami', 'playback'] as const;
+
+export type TabId = typeof TABS[number];
+
+export interface QueryState {
+  tab: TabId;
+  filters: QuakeFilters;
+  sort: QuakeSort;
+}
+
+// Short URL parameter names so shared links stay readable
+const PARAMS = {
+  tab: 'tab',
+  minMagnitude: 'mmin',
+  maxMagnitude: 'mmax',
+  minDepth: 'dmin',
+  maxDepth: 'dmax',
+  fromDate: 'from',
+  toDate: 'to',
+  search: 'q',
+  tsunamiOnly: 'tsunami',
+  feltIntensity: 'mmi',
+  feltPlace: 'felt',
+  sort: 'sort'
+} as const;
+
+const NUMBER_FILTERS = ['minMagnitude', 'maxMagnitude', 'minDepth', 'maxDepth'] as const;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const readNumber = (params: URLSearchParams, name: string) => {
+  const value = params.get(name);
+  if (value === null || value === '') return null;
+  const parsed = parseFloat(value);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+const readDate = (params: URLSearchParams, name: string) => {
+  const value = params.get(name) || '';
+  return DATE_PATTERN.test(value) ? value : '';
+};
+
+export const readQueryState = (search: string = window.location.search): QueryState => {
+  const params = new URLSearchParams(search);
+  const tab = params.get(PARAMS.tab);
+  const sort = params.get(PARAMS.sort);
+
+  const filters: QuakeFilters = { ...EMPTY_FILTERS };
+  NUMBER_FILTERS.forEach(key => {
+    filters[key] = readNumber(params, PARAMS[key]);
+  });
+  filters.fromDate = readDate(params, PARAMS.fromDate);
+  filters.toDate = readDate(params, PARAMS.toDate);
+  filters.search = params.get(PARAMS.search) || '';
+  filters.tsunamiOnly = params.get(PARAMS.tsunamiOnly) === '1';
+  const feltIntensity = readNumber(params, PARAMS.feltIntensity);
+  filters.feltIntensity = feltIntensity !== null && feltIntensity >= 1 && feltIntensity <= MAX_INTENSITY
+    ? Math.round(feltIntensity)
+    : null;
+  filters.feltPlace = params.get(PARAMS.feltPlace) || '';
+
+  return {
+    tab: TABS.includes(tab as TabId) ? tab as TabId : 'latest',
+    filters,
+    sort: SORT_OPTIONS.includes(sort as QuakeSort) ? sort as QuakeSort : 'time'
+  };
+};
+
+// Rewrites only the parameters owned by this module, so unrelated ones such as
+// ?provider=fixture survive. Defaults are left out to keep links short.
+export const writeQueryState = ({ tab, filters, sort }: QueryState) => {
+  const url = new URL(window.location.href);
+  const params = url.searchParams;
+  const set = (name: string, value: string | null) => {
+    if (value === null || value === '') params.delete(name);
+    else params.set(name, value);
+  };
+
+  set(PARAMS.tab, tab === 'latest' ? null : tab);
+  NUMBER_FILTERS.forEach(key => {
+    const value = filters[key];
+    set(PARAMS[key], value === null ? null : String(value));
+  });
+  set(PARAMS.fromDate, filters.fromDate);
+  set(PARAMS.toDate, filters.toDate);
+  set(PARAMS.search, filters.search);
+  set(PARAMS.tsunamiOnly, filters.tsunamiOnly ? '1' : null);
+  set(PARAMS.feltIntensity, filters.feltIntensity === null ? null : String(filters.feltIntensity));
+  set(PARAMS.feltPlace, filters.feltPlace);
+  set(PARAMS.sort, sort === 'time' ? null : sort);
+
+  if (url.href !== window.location.href) {
+    window.history.replaceState(null, '', url);
+  }
+};
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+
+// Just enough client-side routing for shareable event pages, on top of the
+// History API. Query parameters (filters, provider) are kept when navigating.
+export type Route =
+  | { name: 'home' }
+  | { name: 'event'; id: string };
+
+const EVENT_PATH = /^\/event\/([^/]+)\/?$/;
+
+export const parseRoute = (pathname: string): Route => {
+  const match = pathname.match(EVENT_PATH);
+  return match ? { name: 'event', id: decodeURIComponent(match[1]) } : { name: 'home' };
+};
+
+export const eventPath = (id: string) => `/event/${encodeURIComponent(id)}`;
+
+const ROUTE_CHANGE = 'quakemon:routechange';
+
+export const navigate = (path: string) => {
+  if (path === window.location.pathname) return;
+  window.history.pushState(null, '', `${path}${window.location.search}`);
+  window.dispatchEvent(new Event(ROUTE_CHANGE));
+  window.scrollTo({ top: 0 });
+};
+
+export const useRoute = () => {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.pathname));
+
+  useEffect(() => {
+    const handleChange = () => setRoute(parseRoute(window.location.pathname));
+    window.addEventListener('popstate', handleChange);
+    window.addEventListener(ROUTE_CHANGE, handleChange);
+    return () => {
+      window.removeEventListener('popstate', handleChange);
+      window.removeEventListener(ROUTE_CHANGE, handleChange);
+    };
+  }, []);
+
+  return route;
+};
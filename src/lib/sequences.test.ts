@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { detectSequences, getSequenceRole, groupBySequence, sequenceWindow } from './sequences';
+import type { Quake } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAINSHOCK_TIME = new Date('2025-07-19T06:30:21Z').getTime();
+
+const createQuake = (overrides: Partial<Quake> = {}): Quake => ({
+  id: '20250719063021',
+  time: new Date(MAINSHOCK_TIME),
+  magnitude: 5,
+  depthKm: 10,
+  lat: -1.82,
+  lon: 120.14,
+  region: 'Pusat gempa berada di darat 18 km BaratLaut Poso',
+  tsunami: 'none',
+  potensi: 'Tidak berpotensi tsunami',
+  felt: null,
+  shakemap: null,
+  ...overrides
+});
+
+// A smaller event at the given offset from the mainshock, due north of it
+const createShock = (id: string, offsetMs: number, northKm = 0, magnitude = 3.5) =>
+  createQuake({ id, time: new Date(MAINSHOCK_TIME + offsetMs), lat: -1.82 + northKm / 111.19, magnitude });
+
+describe('sequenceWindow', () => {
+  it('grows with the magnitude', () => {
+    expect(sequenceWindow(5).distanceKm).toBeCloseTo(40, 0);
+    expect(sequenceWindow(6).distanceKm).toBeCloseTo(53, 0);
+    expect(sequenceWindow(5).durationMs / DAY_MS).toBeCloseTo(144, 0);
+    expect(sequenceWindow(7).durationMs / DAY_MS).toBeGreaterThan(900);
+  });
+});
+
+describe('detectSequences', () => {
+  it('finds nothing in an empty catalog or among unrelated events', () => {
+    expect(detectSequences([]).size).toBe(0);
+    expect(detectSequences([createQuake(), createShock('far', DAY_MS, 100)]).size).toBe(0);
+  });
+
+  it('groups aftershocks and recent foreshocks around the largest event', () => {
+    const mainshock = createQuake();
+    const membership = detectSequences([createShock('before', -DAY_MS, 5), mainshock, createShock('after', DAY_MS, 10)]);
+    const sequence = membership.get(mainshock.id);
+    expect(sequence).toMatchObject({ id: mainshock.id, foreshocks: 1, aftershocks: 1 });
+    expect(sequence?.events.map(quake => quake.id)).toEqual(['before', mainshock.id, 'after']);
+    expect(membership.get('before')).toBe(sequence);
+    expect(getSequenceRole(sequence!.events[0], sequence!)).toBe('foreshock');
+    expect(getSequenceRole(mainshock, sequence!)).toBe('mainshock');
+    expect(getSequenceRole(sequence!.events[2], sequence!)).toBe('aftershock');
+  });
+
+  it('includes the end of the aftershock window but nothing after it', () => {
+    const { durationMs } = sequenceWindow(5);
+    expect(detectSequences([createQuake(), createShock('edge', durationMs)]).has('edge')).toBe(true);
+    expect(detectSequences([createQuake(), createShock('late', durationMs + 1)]).has('late')).toBe(false);
+  });
+
+  it('looks for foreshocks only three days back', () => {
+    expect(detectSequences([createQuake(), createShock('edge', -3 * DAY_MS)]).has('edge')).toBe(true);
+    expect(detectSequences([createQuake(), createShock('early', -3 * DAY_MS - 1)]).has('early')).toBe(false);
+  });
+
+  it('includes the edge of the distance window but nothing beyond it', () => {
+    const { distanceKm } = sequenceWindow(5);
+    expect(detectSequences([createQuake(), createShock('edge', DAY_MS, distanceKm - 0.1)]).has('edge')).toBe(true);
+    expect(detectSequences([createQuake(), createShock('far', DAY_MS, distanceKm + 0.1)]).has('far')).toBe(false);
+  });
+
+  it('makes the earlier of two equal events the mainshock', () => {
+    const membership = detectSequences([createShock('second', DAY_MS, 0, 5), createQuake()]);
+    expect(membership.get('second')?.id).toBe('20250719063021');
+  });
+
+  it('ignores repeated copies of an event', () => {
+    const membership = detectSequences([createQuake(), createQuake(), createShock('after', DAY_MS)]);
+    expect(membership.get('after')?.events).toHaveLength(2);
+  });
+});
+
+describe('groupBySequence', () => {
+  const mainshock = createQuake();
+  const after = createShock('after', DAY_MS);
+  const other = createQuake({ id: 'other', lat: 3.5, lon: 96 });
+  const membership = detectSequences([mainshock, after, other]);
+
+  it('puts a sequence where its first listed member was', () => {
+    const items = groupBySequence([after, other, mainshock], membership);
+    expect(items.map(item => item.kind)).toEqual(['sequence', 'quake']);
+    expect(items[0]).toMatchObject({ kind: 'sequence', quakes: [after, mainshock] });
+  });
+
+  it('leaves a lone visible member ungrouped', () => {
+    expect(groupBySequence([after, other], membership)).toEqual([
+      { kind: 'quake', quake: after },
+      { kind: 'quake', quake: other }
+    ]);
+    expect(groupBySequence([], membership)).toEqual([]);
+  });
+});
@@ -0,0 +1,104 @@
+import { distanceKm } from './geo';
+import type { Quake } from '../types';
+
+export interface QuakeSequence {
+  // Id of the mainshock, which is the largest event
+  id: string;
+  mainshock: Quake;
+  // Every member, mainshock included, oldest first
+  events: Quake[];
+  foreshocks: number;
+  aftershocks: number;
+}
+
+export type SequenceRole = 'mainshock' | 'foreshock' | 'aftershock';
+
+export type QuakeListItem =
+  | { kind: 'quake'; quake: Quake }
+  | { kind: 'sequence'; sequence: QuakeSequence; quakes: Quake[] };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Foreshocks are only looked for shortly before the mainshock; the
+// magnitude-scaled window would swallow unrelated earlier events
+const FORESHOCK_WINDOW_MS = 3 * DAY_MS;
+
+const GROUP_SEQUENCES_KEY = 'groupSequences';
+
+// Gardner & Knopoff (1974) windows, as parameterized by van Stiphout et al.
+// (2012): an M5 reaches about 40 km and 5 months, an M6 about 53 km and
+// 16 months, an M7 about 71 km and 2.5 years.
+export const sequenceWindow = (magnitude: number) => ({
+  distanceKm: 10 ** (0.1238 * magnitude + 0.983),
+  durationMs: (magnitude >= 6.5 ? 10 ** (0.032 * magnitude + 2.7389) : 10 ** (0.5409 * magnitude - 0.547)) * DAY_MS
+});
+
+// Window declustering: the largest event not yet placed claims everything in
+// its window, then the next largest, and so on. Returns the sequence of every
+// event that has one, keyed by event id; single events are left out.
+export const detectSequences = (quakes: Quake[]): Map<string, QuakeSequence> => {
+  const unique = Array.from(new Map(quakes.map(quake => [quake.id, quake])).values());
+  const byMagnitude = [...unique].sort((a, b) => b.magnitude - a.magnitude || a.time.getTime() - b.time.getTime());
+  const placed = new Set<string>();
+  const membership = new Map<string, QuakeSequence>();
+
+  byMagnitude.forEach(mainshock => {
+    if (placed.has(mainshock.id)) return;
+    placed.add(mainshock.id);
+    const window = sequenceWindow(mainshock.magnitude);
+    const members = unique.filter(quake => {
+      if (placed.has(quake.id)) return false;
+      const dt = quake.time.getTime() - mainshock.time.getTime();
+      if (dt > window.durationMs || dt < -FORESHOCK_WINDOW_MS) return false;
+      return distanceKm(mainshock, quake) <= window.distanceKm;
+    });
+    if (members.length === 0) return;
+
+    members.forEach(quake => placed.add(quake.id));
+    const events = [mainshock, ...members].sort((a, b) => a.time.getTime() - b.time.getTime());
+    const sequence: QuakeSequence = {
+      id: mainshock.id,
+      mainshock,
+      events,
+      foreshocks: members.filter(quake => quake.time < mainshock.time).length,
+      aftershocks: members.filter(quake => quake.time >= mainshock.time).length
+    };
+    events.forEach(quake => membership.set(quake.id, sequence));
+  });
+
+  return membership;
+};
+
+export const getSequenceRole = (quake: Quake, sequence: QuakeSequence): SequenceRole => {
+  if (quake.id === sequence.id) return 'mainshock';
+  return quake.time < sequence.mainshock.time ? 'foreshock' : 'aftershock';
+};
+
+// Keeps the list order; a sequence takes the place of its first member, and
+// only becomes a group when at least two of its members are in the list
+export const groupBySequence = (quakes: Quake[], membership: Map<string, QuakeSequence>): QuakeListItem[] => {
+  const visible = new Map<string, Quake[]>();
+  quakes.forEach(quake => {
+    const sequence = membership.get(quake.id);
+    if (sequence) visible.set(sequence.id, [...(visible.get(sequence.id) || []), quake]);
+  });
+
+  const items: QuakeListItem[] = [];
+  const emitted = new Set<string>();
+  quakes.forEach(quake => {
+    const sequence = membership.get(quake.id);
+    const members = sequence ? visible.get(sequence.id) || [] : [];
+    if (!sequence || members.length < 2) {
+      items.push({ kind: 'quake', quake });
+    } else if (!emitted.has(sequence.id)) {
+      emitted.add(sequence.id);
+      items.push({ kind: 'sequence', sequence, quakes: members });
+    }
+  });
+  return items;
+};
+
+export const loadGroupSequences = () => localStorage.getItem(GROUP_SEQUENCES_KEY) !== 'false';
+
+export const saveGroupSequences = (enabled: boolean) => {
+  localStorage.setItem(GROUP_SEQUENCES_KEY, String(enabled));
+};
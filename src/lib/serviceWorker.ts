@@ -0,0 +1,54 @@
+// Header the service worker (public/sw.js) adds to feed responses it served
+// from cache, holding the time the payload was originally fetched
+export const CACHED_AT_HEADER = 'X-Quakemon-Cached-At';
+
+const REFRESH_TAG = 'quakemon-refresh';
+const REFRESH_INTERVAL_MS = 15 * 60 * 1000;
+
+interface PeriodicSyncManager {
+  register: (tag: string, options: { minInterval: number }) => Promise<void>;
+}
+
+interface SyncManager {
+  register: (tag: string) => Promise<void>;
+}
+
+type SyncCapableRegistration = ServiceWorkerRegistration & {
+  periodicSync?: PeriodicSyncManager;
+  sync?: SyncManager;
+};
+
+export const getCachedAt = (response: Response) => {
+  const cachedAt = response.headers.get(CACHED_AT_HEADER);
+  if (!cachedAt) return null;
+  const date = new Date(cachedAt);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// Registers public/sw.js in production builds and hands it the feed URLs so it
+// can refresh them in the background where the browser allows it
+export const registerServiceWorker = async (feedUrls: string[]) => {
+  if (!('serviceWorker' in navigator) || !import.meta.env.PROD) return;
+
+  try {
+    await navigator.serviceWorker.register('/sw.js');
+    const registration = await navigator.serviceWorker.ready as SyncCapableRegistration;
+    const absoluteUrls = feedUrls.map(url => new URL(url, window.location.href).href);
+    registration.active?.postMessage({ type: 'feeds', urls: absoluteUrls });
+
+    if (registration.periodicSync) {
+      await registration.periodicSync
+        .register(REFRESH_TAG, { minInterval: REFRESH_INTERVAL_MS })
+        .catch(err => console.warn('Periodic background sync unavailable:', err));
+    }
+  } catch (err) {
+    console.warn('Service worker registration failed:', err);
+  }
+};
+
+// Queues a one-off background refresh for when connectivity returns
+export const requestBackgroundRefresh = async () => {
+  if (!('serviceWorker' in navigator) || !import.meta.env.PROD) return;
+  const registration = await navigator.serviceWorker.ready as SyncCapableRegistration;
+  await registration.sync?.register(REFRESH_TAG).catch(() => undefined);
+};
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useState } from 'react';
+import { cacheShakemap, getCachedShakemap } from './archive';
+
+export type ShakemapStatus = 'loading' | 'ready' | 'error';
+
+interface ShakemapState {
+  src: string | null;
+  status: ShakemapStatus;
+}
+
+// The archived copy wins, so events that have dropped out of BMKG's feeds
+// (or a device that is offline) still get their image
+const loadShakemap = async (name: string, url: string) => {
+  const cached = await getCachedShakemap(name).catch(() => undefined);
+  if (cached) return cached;
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Shakemap request failed with ${response.status}`);
+  }
+  const blob = await response.blob();
+  if (!blob.type.startsWith('image/')) {
+    throw new Error(`Unexpected shakemap content type ${blob.type}`);
+  }
+  await cacheShakemap(name, blob).catch(err => console.warn('Failed to cache shakemap:', err));
+  return blob;
+};
+
+// Resolves a shakemap to something an <img> can show. When the image can't be
+// fetched as a blob (e.g. the host sends no CORS headers) the plain URL is
+// handed to the <img>, which then reports failure through onError.
+export const useShakemap = (name: string | null, url: string | null) => {
+  const [state, setState] = useState<ShakemapState>({ src: null, status: 'loading' });
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!name || !url) {
+      setState({ src: null, status: 'error' });
+      return;
+    }
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    setState({ src: null, status: 'loading' });
+    loadShakemap(name, url)
+      .then(blob => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setState({ src: objectUrl, status: 'ready' });
+      })
+      .catch(err => {
+        console.warn('Falling back to the direct shakemap URL:', err);
+        if (!cancelled) setState({ src: url, status: 'ready' });
+      });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [name, url, attempt]);
+
+  const onError = useCallback(() => setState(current => ({ ...current, status: 'error' })), []);
+  const retry = useCallback(() => setAttempt(current => current + 1), []);
+
+  return { ...state, onError, retry };
+};
@@ -0,0 +1,21 @@
+let audioContext: AudioContext | null = null;
+
+// Synthesized so the app doesn't need to ship audio files
+export const playTones = (tones: number[], toneLength: number, type: OscillatorType) => {
+  if (!('AudioContext' in window)) return;
+  audioContext = audioContext || new AudioContext();
+  const context = audioContext;
+
+  tones.forEach((frequency, i) => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    const startAt = context.currentTime + i * toneLength;
+    oscillator.type = type;
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.2, startAt);
+    gain.gain.exponentialRampToValueAtTime(0.001, startAt + toneLength);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(startAt);
+    oscillator.stop(startAt + toneLength);
+  });
+};
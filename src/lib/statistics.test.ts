@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { dailyCounts, gutenbergRichter, magnitudeHistogram, parseRegionName, topRegions } from './statistics';
+import type { Quake } from '../types';
+
+const createQuake = (overrides: Partial<Quake> = {}): Quake => ({
+  id: '20250719050210',
+  time: new Date('2025-07-19T05:02:10Z'),
+  magnitude: 4.2,
+  depthKm: 11,
+  lat: 1.46,
+  lon: 125.12,
+  region: 'Pusat gempa berada di laut 25 km Timur Laut Bitung',
+  tsunami: 'none',
+  potensi: 'Tidak berpotensi tsunami',
+  felt: null,
+  shakemap: null,
+  ...overrides
+});
+
+const withMagnitudes = (magnitudes: number[]) =>
+  magnitudes.map((magnitude, i) => createQuake({ id: String(i), magnitude }));
+
+// Peaks at M4.0, with ten events from there up
+const CATALOG = withMagnitudes([3.5, 3.5, 3.5, 4, 4, 4, 4, 4, 4, 4.5, 4.5, 5, 5]);
+
+describe('magnitudeHistogram', () => {
+  it('is empty for an empty catalog', () => {
+    expect(magnitudeHistogram([])).toEqual([]);
+  });
+
+  it('puts a magnitude on a bin edge into the upper bin and keeps empty bins', () => {
+    expect(magnitudeHistogram(withMagnitudes([4.4, 4.5, 5.9]))).toEqual([
+      { magnitude: 4, count: 1 },
+      { magnitude: 4.5, count: 1 },
+      { magnitude: 5, count: 0 },
+      { magnitude: 5.5, count: 1 }
+    ]);
+  });
+
+  it('keeps one-decimal magnitudes in their own 0.1 bin', () => {
+    expect(magnitudeHistogram(withMagnitudes([4.3, 4.6]), 0.1).map(bin => bin.magnitude)).toEqual([4.3, 4.4, 4.5, 4.6]);
+  });
+});
+
+describe('gutenbergRichter', () => {
+  it('has nothing to fit in an empty catalog', () => {
+    expect(gutenbergRichter([])).toEqual({ cumulative: [], completeness: null, bValue: null, aValue: null, sampleSize: 0 });
+  });
+
+  it('counts events at or above each magnitude', () => {
+    const { cumulative } = gutenbergRichter(CATALOG);
+    expect(cumulative[0]).toEqual({ magnitude: 3.5, count: 13 });
+    expect(cumulative.find(bin => bin.magnitude === 4)).toEqual({ magnitude: 4, count: 10 });
+    expect(cumulative[cumulative.length - 1]).toEqual({ magnitude: 5, count: 2 });
+  });
+
+  it('fits the b-value above the magnitude of completeness', () => {
+    const result = gutenbergRichter(CATALOG);
+    expect(result.completeness).toBe(4);
+    expect(result.sampleSize).toBe(10);
+    // Mean 4.3 against Mc - ΔM/2 = 3.95
+    expect(result.bValue).toBeCloseTo(Math.LOG10E / 0.35, 6);
+    expect(result.aValue).toBeCloseTo(1 + result.bValue! * 4, 6);
+  });
+
+  it('leaves the b-value out below ten complete events', () => {
+    const result = gutenbergRichter(CATALOG.slice(0, -1));
+    expect(result).toMatchObject({ completeness: 4, sampleSize: 9, bValue: null, aValue: null });
+  });
+
+  it('stays finite when every event has the same magnitude, thanks to the binning correction', () => {
+    expect(gutenbergRichter(withMagnitudes(Array(12).fill(4))).bValue).toBeCloseTo(Math.LOG10E / 0.05, 6);
+  });
+});
+
+describe('dailyCounts', () => {
+  it('is empty for an empty catalog', () => {
+    expect(dailyCounts([])).toEqual([]);
+  });
+
+  it('counts by local day and keeps quiet days', () => {
+    const quakes = [
+      createQuake({ time: new Date(2025, 6, 19, 0, 5) }),
+      createQuake({ time: new Date(2025, 6, 19, 23, 55) }),
+      createQuake({ time: new Date(2025, 6, 21, 12, 0) })
+    ];
+    expect(dailyCounts(quakes)).toEqual([
+      { day: '2025-07-19', count: 2 },
+      { day: '2025-07-20', count: 0 },
+      { day: '2025-07-21', count: 1 }
+    ]);
+  });
+
+  it('crosses month ends', () => {
+    const quakes = [createQuake({ time: new Date(2025, 6, 31, 8) }), createQuake({ time: new Date(2025, 7, 1, 8) })];
+    expect(dailyCounts(quakes).map(entry => entry.day)).toEqual(['2025-07-31', '2025-08-01']);
+  });
+});
+
+describe('parseRegionName', () => {
+  it('takes the place out of both Wilayah styles', () => {
+    expect(parseRegionName('126 km BaratLaut HALMAHERABARAT-MALUT')).toBe('MALUT');
+    expect(parseRegionName('Pusat gempa berada di laut 32 km TimurLaut Ambon')).toBe('Ambon');
+    expect(parseRegionName('Pusat gempa berada di darat 18 km BaratLaut Poso')).toBe('Poso');
+  });
+
+  it('falls back to the text as given', () => {
+    expect(parseRegionName(' Laut Banda ')).toBe('Laut Banda');
+  });
+});
+
+describe('topRegions', () => {
+  it('ranks by count, then by name, up to the limit', () => {
+    const quakes = [
+      createQuake({ region: '10 km Timur KAB-BITUNG-SULUT' }),
+      createQuake({ region: '20 km Barat KOTA-AMBON-MALUKU' }),
+      createQuake({ region: '30 km Utara KAB-MINAHASA-SULUT' }),
+      createQuake({ region: '40 km Selatan KAB-JAYAPURA-PAPUA' })
+    ];
+    expect(topRegions(quakes, 2)).toEqual([{ region: 'SULUT', count: 2 }, { region: 'MALUKU', count: 1 }]);
+    expect(topRegions([])).toEqual([]);
+  });
+});
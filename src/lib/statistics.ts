@@ -0,0 +1,132 @@
+import { toLocalDay } from './filters';
+import type { Quake } from '../types';
+
+export interface HistogramBin {
+  magnitude: number;
+  count: number;
+}
+
+export interface GutenbergRichter {
+  // N(≥M) for every bin from the smallest magnitude up
+  cumulative: HistogramBin[];
+  // Magnitude of completeness, from the maximum curvature of the histogram
+  completeness: number | null;
+  bValue: number | null;
+  aValue: number | null;
+  // Events at or above the magnitude of completeness
+  sampleSize: number;
+}
+
+export interface DailyCount {
+  day: string;
+  count: number;
+}
+
+export interface RegionCount {
+  region: string;
+  count: number;
+}
+
+// BMKG reports magnitudes to one decimal
+const MAGNITUDE_STEP = 0.1;
+// Below this the maximum likelihood b-value is too noisy to be worth showing
+const MIN_B_VALUE_SAMPLE = 10;
+
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+
+const binKey = (magnitude: number, binSize: number) =>
+  Number((Math.floor(magnitude / binSize + 1e-9) * binSize).toFixed(1));
+
+export const magnitudeHistogram = (quakes: Quake[], binSize = 0.5): HistogramBin[] => {
+  if (quakes.length === 0) return [];
+  const counts = new Map<number, number>();
+  quakes.forEach(quake => {
+    const key = binKey(quake.magnitude, binSize);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  const min = Math.min(...counts.keys());
+  const max = Math.max(...counts.keys());
+  const bins: HistogramBin[] = [];
+  // Include empty bins so the x axis stays linear
+  for (let magnitude = min; magnitude <= max + 1e-9; magnitude = Number((magnitude + binSize).toFixed(1))) {
+    bins.push({ magnitude, count: counts.get(magnitude) || 0 });
+  }
+  return bins;
+};
+
+// Cumulative frequency-magnitude distribution with the Aki (1965) maximum
+// likelihood b-value, corrected for binning (Utsu 1966):
+//   b = log10(e) / (mean(M) - (Mc - ΔM / 2))
+export const gutenbergRichter = (quakes: Quake[]): GutenbergRichter => {
+  const bins = magnitudeHistogram(quakes, MAGNITUDE_STEP);
+  let total = quakes.length;
+  const cumulative = bins.map(bin => {
+    const entry = { magnitude: bin.magnitude, count: total };
+    total -= bin.count;
+    return entry;
+  });
+
+  if (bins.length === 0) {
+    return { cumulative, completeness: null, bValue: null, aValue: null, sampleSize: 0 };
+  }
+
+  const peak = bins.reduce((best, bin) => (bin.count > best.count ? bin : best), bins[0]);
+  const completeness = peak.magnitude;
+  const complete = quakes.filter(quake => roundTo(quake.magnitude, MAGNITUDE_STEP) >= completeness - 1e-9);
+  if (complete.length < MIN_B_VALUE_SAMPLE) {
+    return { cumulative, completeness, bValue: null, aValue: null, sampleSize: complete.length };
+  }
+
+  const mean = complete.reduce((sum, quake) => sum + quake.magnitude, 0) / complete.length;
+  const denominator = mean - (completeness - MAGNITUDE_STEP / 2);
+  if (denominator <= 0) {
+    return { cumulative, completeness, bValue: null, aValue: null, sampleSize: complete.length };
+  }
+  const bValue = Math.LOG10E / denominator;
+  const aValue = Math.log10(complete.length) + bValue * completeness;
+  return { cumulative, completeness, bValue, aValue, sampleSize: complete.length };
+};
+
+// One entry per calendar day between the first and last event, so quiet days
+// show up as gaps instead of disappearing
+export const dailyCounts = (quakes: Quake[]): DailyCount[] => {
+  if (quakes.length === 0) return [];
+  const counts = new Map<string, number>();
+  quakes.forEach(quake => {
+    const day = toLocalDay(quake.time);
+    counts.set(day, (counts.get(day) || 0) + 1);
+  });
+  const times = quakes.map(quake => quake.time.getTime());
+  const cursor = new Date(Math.min(...times));
+  cursor.setHours(12, 0, 0, 0);
+  const last = toLocalDay(new Date(Math.max(...times)));
+  const days: DailyCount[] = [];
+  for (let day = toLocalDay(cursor); day <= last; day = toLocalDay(cursor)) {
+    days.push({ day, count: counts.get(day) || 0 });
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return days;
+};
+
+// "126 km BaratLaut HALMAHERABARAT-MALUT" gives "MALUT";
+// "Pusat gempa berada di laut 32 km TimurLaut Ambon" gives "Ambon"
+export const parseRegionName = (wilayah: string) => {
+  const place = wilayah
+    .replace(/^Pusat gempa berada di (laut|darat)\s*/i, '')
+    .replace(/^[\d.,]+\s*km\s+\S+\s+/i, '')
+    .trim();
+  if (!place) return wilayah.trim();
+  const segments = place.split('-').map(segment => segment.trim()).filter(Boolean);
+  return segments.length > 1 ? segments[segments.length - 1] : place;
+};
+
+export const topRegions = (quakes: Quake[], limit = 10): RegionCount[] => {
+  const counts = new Map<string, number>();
+  quakes.forEach(quake => {
+    const region = parseRegionName(quake.region);
+    counts.set(region, (counts.get(region) || 0) + 1);
+  });
+  return Array.from(counts, ([region, count]) => ({ region, count }))
+    .sort((a, b) => b.count - a.count || a.region.localeCompare(b.region))
+    .slice(0, limit);
+};
@@ -0,0 +1,56 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ZONE_TIME_ZONES, getEpicenterZone, loadTimeZonePreference, saveTimeZonePreference } from './timezones';
+
+const utcOffset = (timeZone: string, date: Date) =>
+  new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'shortOffset' })
+    .formatToParts(date)
+    .find(part => part.type === 'timeZoneName')?.value;
+
+describe('ZONE_TIME_ZONES', () => {
+  it('maps each zone to a fixed offset all year', () => {
+    ['2025-01-15T00:00:00Z', '2025-07-15T00:00:00Z'].forEach(time => {
+      const date = new Date(time);
+      expect(utcOffset(ZONE_TIME_ZONES.WIB, date)).toBe('GMT+7');
+      expect(utcOffset(ZONE_TIME_ZONES.WITA, date)).toBe('GMT+8');
+      expect(utcOffset(ZONE_TIME_ZONES.WIT, date)).toBe('GMT+9');
+    });
+  });
+});
+
+describe('getEpicenterZone', () => {
+  it('uses the province named in the region', () => {
+    expect(getEpicenterZone({ lon: 140.7, region: '62 km TimurLaut KAB-JAYAPURA-PAPUA' })).toBe('WIT');
+    expect(getEpicenterZone({ lon: 115.2, region: '10 km BaratDaya KAB-BADUNG-BALI' })).toBe('WITA');
+    expect(getEpicenterZone({ lon: 124.8, region: '126 km BaratLaut HALMAHERABARAT-malut' })).toBe('WIT');
+  });
+
+  it('keeps Central Kalimantan on WIB east of the longitude boundary', () => {
+    expect(getEpicenterZone({ lon: 115, region: '20 km Utara KAB-BARITOTIMUR-KALTENG' })).toBe('WIB');
+  });
+
+  it('falls back to the longitude, boundaries going east', () => {
+    const at = (lon: number) => getEpicenterZone({ lon, region: 'Pusat gempa berada di laut 32 km TimurLaut Ambon' });
+    expect(at(114.49)).toBe('WIB');
+    expect(at(114.5)).toBe('WITA');
+    expect(at(126.99)).toBe('WITA');
+    expect(at(127)).toBe('WIT');
+  });
+});
+
+describe('loadTimeZonePreference', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('defaults to the epicenter and ignores unknown values', () => {
+    expect(loadTimeZonePreference()).toBe('epicenter');
+    localStorage.setItem('timeZonePreference', 'mars');
+    expect(loadTimeZonePreference()).toBe('epicenter');
+  });
+
+  it('reads back what was saved', () => {
+    saveTimeZonePreference('utc');
+    expect(loadTimeZonePreference()).toBe('utc');
+  });
+});
@@ -0,0 +1,68 @@
+import type { Quake } from '../types';
+
+export type IndonesianZone = 'WIB' | 'WITA' | 'WIT';
+
+// Which clock event times are shown in first; the others follow underneath
+export type TimeZonePreference = 'epicenter' | 'local' | 'utc';
+
+export const TIME_ZONE_PREFERENCES: TimeZonePreference[] = ['epicenter', 'local', 'utc'];
+
+export const ZONE_TIME_ZONES: Record<IndonesianZone, string> = {
+  WIB: 'Asia/Jakarta',
+  WITA: 'Asia/Makassar',
+  WIT: 'Asia/Jayapura'
+};
+
+// Province suffixes BMKG uses in Wilayah, e.g. "62 km TimurLaut KAB-JAYAPURA-PAPUA"
+const PROVINCE_ZONES: Record<string, IndonesianZone> = {
+  // Central Kalimantan reaches further east than the longitude rule assumes
+  KALTENG: 'WIB',
+  BALI: 'WITA',
+  NTB: 'WITA',
+  NTT: 'WITA',
+  KALSEL: 'WITA',
+  KALTIM: 'WITA',
+  KALTARA: 'WITA',
+  SULUT: 'WITA',
+  SULTENG: 'WITA',
+  SULSEL: 'WITA',
+  SULBAR: 'WITA',
+  SULTRA: 'WITA',
+  GORONTALO: 'WITA',
+  MALUKU: 'WIT',
+  MALUT: 'WIT',
+  PAPUA: 'WIT',
+  PABAR: 'WIT',
+  PAPUABARAT: 'WIT',
+  PAPUATENGAH: 'WIT',
+  PAPUASELATAN: 'WIT',
+  PAPUAPEGUNUNGAN: 'WIT',
+  PAPUABARATDAYA: 'WIT'
+};
+
+const TIME_ZONE_PREFERENCE_KEY = 'timeZonePreference';
+
+// Uses the province named in the region when there is one. Otherwise the
+// longitude decides: roughly the Bali Strait for WIB/WITA and the line between
+// Sulawesi and Halmahera for WITA/WIT, which is close enough at sea.
+export const getEpicenterZone = (quake: Pick<Quake, 'lon' | 'region'>): IndonesianZone => {
+  const province = quake.region.trim().split('-').pop()?.toUpperCase() || '';
+  if (PROVINCE_ZONES[province]) {
+    return PROVINCE_ZONES[province];
+  }
+  if (quake.lon < 114.5) return 'WIB';
+  if (quake.lon < 127) return 'WITA';
+  return 'WIT';
+};
+
+export const getViewerTimeZone = () =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const loadTimeZonePreference = (): TimeZonePreference => {
+  const saved = localStorage.getItem(TIME_ZONE_PREFERENCE_KEY);
+  return TIME_ZONE_PREFERENCES.includes(saved as TimeZonePreference) ? saved as TimeZonePreference : 'epicenter';
+};
+
+export const saveTimeZonePreference = (preference: TimeZonePreference) => {
+  localStorage.setItem(TIME_ZONE_PREFERENCE_KEY, preference);
+};
@@ -0,0 +1,50 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { processTsunamiNotices } from './tsunami';
+import type { TsunamiSettings } from './tsunami';
+import type { Quake } from '../types';
+
+const NOW = new Date('2025-07-19T07:00:00Z');
+// Sound needs an AudioContext, which jsdom doesn't have anyway
+const SETTINGS: TsunamiSettings = { notify: true, sound: false };
+
+const createQuake = (overrides: Partial<Quake> = {}): Quake => ({
+  id: '20250719063021',
+  time: new Date('2025-07-19T06:30:21Z'),
+  magnitude: 7.2,
+  depthKm: 10,
+  lat: -1.82,
+  lon: 120.14,
+  region: 'Pusat gempa berada di laut 40 km BaratLaut Poso',
+  tsunami: 'potential',
+  potensi: 'Berpotensi tsunami',
+  felt: null,
+  shakemap: null,
+  ...overrides
+});
+
+describe('processTsunamiNotices', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('notifies a current threat on the very first run', () => {
+    expect(processTsunamiNotices([createQuake()], SETTINGS, NOW).map(quake => quake.id)).toEqual(['20250719063021']);
+  });
+
+  it('records threats older than a day without notifying', () => {
+    const old = createQuake({ id: '20250717063021', time: new Date('2025-07-17T06:30:21Z') });
+    expect(processTsunamiNotices([old], SETTINGS, NOW)).toEqual([]);
+    expect(processTsunamiNotices([old], SETTINGS, NOW)).toEqual([]);
+  });
+
+  it('notifies once per event and status', () => {
+    expect(processTsunamiNotices([createQuake()], SETTINGS, NOW)).toHaveLength(1);
+    expect(processTsunamiNotices([createQuake()], SETTINGS, NOW)).toEqual([]);
+    expect(processTsunamiNotices([createQuake({ tsunami: 'warning' })], SETTINGS, NOW)).toHaveLength(1);
+  });
+
+  it('ignores events without a threat', () => {
+    expect(processTsunamiNotices([createQuake({ tsunami: 'none' }), createQuake({ tsunami: 'ended' })], SETTINGS, NOW)).toEqual([]);
+  });
+});
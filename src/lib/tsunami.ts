@@ -0,0 +1,114 @@
+import { formatMagnitude } from './format';
+import { loadLanguage, translate } from './i18n';
+import type { MessageKey } from './i18n';
+import { playTones } from './sound';
+import type { Quake, TsunamiPotential } from '../types';
+
+// Tsunami notices have their own channel: separate from the magnitude alert
+// rules, with their own sound and settings, and a banner that stays up until
+// it is dismissed.
+
+export interface TsunamiSettings {
+  notify: boolean;
+  sound: boolean;
+}
+
+export const TSUNAMI_STATUSES: TsunamiPotential[] = ['warning', 'potential', 'ended', 'none', 'unknown'];
+
+export const TSUNAMI_STATUS_LABELS: Record<TsunamiPotential, MessageKey> = {
+  warning: 'tsunami.statusWarning',
+  potential: 'tsunami.statusPotential',
+  ended: 'tsunami.statusEnded',
+  none: 'tsunami.statusNone',
+  unknown: 'tsunami.statusUnknown'
+};
+
+const SETTINGS_KEY = 'tsunamiSettings';
+const NOTIFIED_KEY = 'tsunamiNotified';
+const DISMISSED_KEY = 'tsunamiDismissed';
+const MAX_KEYS = 500;
+// Same cut-off as the alert rules: a long absence doesn't end in a burst
+const MAX_NOTIFY_AGE_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_TSUNAMI_SETTINGS: TsunamiSettings = { notify: true, sound: true };
+
+// Events the banner is about
+export const isTsunamiThreat = (quake: Quake) => quake.tsunami === 'potential' || quake.tsunami === 'warning';
+
+// Events the tsunami history lists; an ended warning is still worth keeping
+export const isTsunamiRelevant = (quake: Quake) => isTsunamiThreat(quake) || quake.tsunami === 'ended';
+
+// A warning issued after a "potential" notice is a new notice, so dismissals
+// and notifications are tracked per event and status
+export const tsunamiNoticeKey = (quake: Quake) => `${quake.id}:${quake.tsunami}`;
+
+const readKeys = (key: string): string[] => {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(key) || '[]');
+    return Array.isArray(saved) ? saved.filter((item): item is string => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeKeys = (key: string, keys: string[]) => {
+  localStorage.setItem(key, JSON.stringify(keys.slice(-MAX_KEYS)));
+};
+
+export const loadTsunamiSettings = (): TsunamiSettings => {
+  try {
+    return { ...DEFAULT_TSUNAMI_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_TSUNAMI_SETTINGS;
+  }
+};
+
+export const saveTsunamiSettings = (settings: TsunamiSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const loadDismissedTsunamis = () => readKeys(DISMISSED_KEY);
+
+export const saveDismissedTsunamis = (keys: string[]) => {
+  writeKeys(DISMISSED_KEY, keys);
+};
+
+// Longer and lower than the rule sirens so it can't be mistaken for one
+export const playTsunamiSound = () => {
+  playTones([523, 392, 523, 392, 523, 392, 523, 392], 0.6, 'square');
+};
+
+// Sends one notification per event and status, even across reloads. Unlike
+// the alert rules, the first run notifies too: a threat that is current when
+// Quakemon is opened is exactly what this channel is for. Only threats older
+// than MAX_NOTIFY_AGE_MS are recorded silently.
+export const processTsunamiNotices = (quakes: Quake[], settings: TsunamiSettings, now: Date = new Date()) => {
+  const notified = readKeys(NOTIFIED_KEY);
+  const notifiedSet = new Set(notified);
+  const language = loadLanguage();
+  const fresh: Quake[] = [];
+
+  quakes.filter(isTsunamiThreat).forEach(quake => {
+    const key = tsunamiNoticeKey(quake);
+    if (notifiedSet.has(key)) return;
+    notifiedSet.add(key);
+    notified.push(key);
+    if (now.getTime() - quake.time.getTime() > MAX_NOTIFY_AGE_MS) return;
+    fresh.push(quake);
+
+    if (settings.notify && 'Notification' in window && Notification.permission === 'granted') {
+      new Notification(`🌊 ${translate(language, TSUNAMI_STATUS_LABELS[quake.tsunami])}`, {
+        body: `M${formatMagnitude(quake.magnitude, language)} - ${quake.region}\n${quake.potensi}`,
+        icon: '/favicon.ico',
+        tag: `tsunami-${quake.id}`,
+        requireInteraction: true
+      });
+    }
+  });
+
+  writeKeys(NOTIFIED_KEY, notified);
+  if (fresh.length > 0 && settings.sound) {
+    playTsunamiSound();
+  }
+  return fresh;
+};
@@ -0,0 +1,120 @@
+// @vitest-environment node
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { parseLatestPayload } from './bmkg';
+import { BmkgParseError, parseJsonPayload, readListPayload, readXmlPayload } from './validation';
+
+// Node has no DOMParser, so autogempa.xml goes through the element matching
+// the CLI relies on
+const readFixture = (path: string) =>
+  readFileSync(resolve('public/fixtures', path), 'utf8');
+
+const catchParseError = (parse: () => unknown) => {
+  try {
+    parse();
+  } catch (err) {
+    return err;
+  }
+  throw new Error('Expected a BmkgParseError');
+};
+
+describe('readXmlPayload without a DOM', () => {
+  it('runs without DOMParser', () => {
+    expect(typeof DOMParser).toBe('undefined');
+  });
+
+  it('reads every field of autogempa.xml', () => {
+    const { record, errors } = readXmlPayload(readFixture('default/autogempa.xml'));
+    expect(errors).toEqual([]);
+    expect(record).toMatchObject({
+      Tanggal: '19 Jul 2025',
+      coordinates: '1.46,125.12',
+      Magnitude: '4.2',
+      Kedalaman: '11 km',
+      Dirasakan: 'IV Bitung, III Manado, II-III Tondano',
+      Shakemap: '20250719120210.mmi.jpg'
+    });
+  });
+
+  it('normalizes the edge cases like the browser does', () => {
+    const { quakes, malformed } = parseLatestPayload(readFixture('edge-cases/autogempa.xml'));
+    expect(malformed).toEqual([]);
+    expect(quakes[0]).toMatchObject({ lat: -8.62, lon: 117.35, magnitude: 3.8, depthKm: 14, felt: null, shakemap: null });
+    expect(quakes[0].time.toISOString()).toBe('2025-07-19T05:40:05.000Z');
+  });
+
+  it('reads both replay steps', () => {
+    expect(parseLatestPayload(readFixture('replay/autogempa-1.xml')).quakes[0].id).toBe('20250719050210');
+    expect(parseLatestPayload(readFixture('replay/autogempa-2.xml')).quakes[0].id).toBe('20250719063021');
+  });
+
+  it('decodes CDATA sections and entities', () => {
+    const { record } = readXmlPayload(`<?xml version="1.0"?>
+      <Infogempa><gempa>
+        <Wilayah><![CDATA[Pusat gempa di laut 10 km <Barat> Poso]]></Wilayah>
+        <Dirasakan>IV Poso &amp; Tentena, III Palu &#8211; Donggala</Dirasakan>
+      </gempa></Infogempa>`);
+    expect(record.Wilayah).toBe('Pusat gempa di laut 10 km <Barat> Poso');
+    expect(record.Dirasakan).toBe('IV Poso & Tentena, III Palu – Donggala');
+  });
+
+  it('reports the missing required fields of an empty event', () => {
+    const { errors } = readXmlPayload('<Infogempa><gempa></gempa></Infogempa>');
+    expect(errors.map(error => [error.code, error.field])).toEqual([
+      ['missing-field', 'Tanggal'],
+      ['missing-field', 'Jam'],
+      ['missing-field', 'Magnitude'],
+      ['missing-field', 'Kedalaman'],
+      ['missing-field', 'Wilayah'],
+      ['missing-field', 'Coordinates']
+    ]);
+  });
+
+  it('rejects an HTML maintenance page as invalid XML', () => {
+    const error = catchParseError(() => readXmlPayload(readFixture('broken/autogempa.xml')));
+    expect(error).toBeInstanceOf(BmkgParseError);
+    expect(error).toMatchObject({ code: 'invalid-xml', feed: 'latest' });
+  });
+
+  it('rejects text that is not XML at all', () => {
+    expect(catchParseError(() => readXmlPayload('Service Unavailable'))).toMatchObject({ code: 'invalid-xml' });
+  });
+
+  it('rejects a document without <gempa>', () => {
+    expect(catchParseError(() => readXmlPayload('<Infogempa></Infogempa>'))).toMatchObject({ code: 'invalid-shape', feed: 'latest' });
+  });
+});
+
+describe('readListPayload', () => {
+  it('keeps only string fields and reports the others', () => {
+    const records = readListPayload(parseJsonPayload(readFixture('edge-cases/gempaterkini.json'), 'recent'), 'recent');
+    expect(records).toHaveLength(8);
+    expect(records[5].errors.map(({ code, field, value }) => ({ code, field, value }))).toEqual([
+      { code: 'invalid-field', field: 'Magnitude', value: '5.6' }
+    ]);
+    expect(records[5].record.Magnitude).toBe('');
+    expect(records[5].raw).toMatchObject({ Magnitude: 5.6 });
+  });
+
+  it('leaves absent fields empty and keeps Dirasakan optional', () => {
+    const payload = { Infogempa: { gempa: [{ Tanggal: '19 Jul 2025', Jam: '12:02:10 WIB', Lintang: '1.46 LU', Bujur: '125.12 BT', Magnitude: '4.2', Kedalaman: '11 km', Wilayah: 'Bitung' }, 'gempa'] } };
+    const [record, notObject] = readListPayload(payload, 'felt');
+    expect(record.errors).toEqual([]);
+    expect(record.record).toMatchObject({ DateTime: '', Coordinates: '', Potensi: '', Magnitude: '4.2' });
+    expect(record.record.Dirasakan).toBeUndefined();
+    expect(notObject.errors.map(error => error.code)).toEqual(['invalid-shape']);
+    expect(notObject.record.Wilayah).toBe('');
+  });
+
+  it('rejects a gempa object where an array is expected', () => {
+    const payload = parseJsonPayload(readFixture('broken/gempaterkini.json'), 'recent');
+    expect(catchParseError(() => readListPayload(payload, 'recent'))).toMatchObject({ code: 'invalid-shape', feed: 'recent' });
+  });
+
+  it('types a truncated payload as invalid JSON', () => {
+    const error = catchParseError(() => parseJsonPayload(readFixture('broken/gempadirasakan.json'), 'felt'));
+    expect(error).toBeInstanceOf(BmkgParseError);
+    expect(error).toMatchObject({ code: 'invalid-json', feed: 'felt' });
+  });
+});
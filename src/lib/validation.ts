@@ -0,0 +1,185 @@
+import type { FeedName } from './providers';
+import type { EarthquakeData, RecentEarthquake } from '../types';
+
+// Structural checks for the raw BMKG payloads. Whole-payload problems throw a
+// BmkgParseError; problems with single records are collected so the rest of
+// the feed can still be shown.
+
+export type ParseErrorCode =
+  | 'invalid-xml'
+  | 'invalid-json'
+  | 'invalid-shape'
+  | 'missing-field'
+  | 'invalid-field';
+
+export class BmkgParseError extends Error {
+  code: ParseErrorCode;
+  feed: FeedName;
+  // Set for record-level errors
+  field: string | null;
+  index: number | null;
+  value: string | null;
+
+  constructor(code: ParseErrorCode, feed: FeedName, message: string, details: { field?: string; index?: number; value?: string } = {}) {
+    super(message);
+    this.name = 'BmkgParseError';
+    this.code = code;
+    this.feed = feed;
+    this.field = details.field ?? null;
+    this.index = details.index ?? null;
+    this.value = details.value ?? null;
+  }
+}
+
+export interface MalformedRecord {
+  feed: FeedName;
+  // Position in the payload, 0 for the single autogempa.xml event
+  index: number;
+  errors: BmkgParseError[];
+  raw: unknown;
+}
+
+export interface RawRecord<T> {
+  index: number;
+  // Only the known fields; missing and non-string ones are left empty
+  record: T;
+  errors: BmkgParseError[];
+  // As received, for logging
+  raw: unknown;
+}
+
+// DateTime and the coordinates have fallbacks (Tanggal/Jam, Lintang/Bujur),
+// so only these have to be present. Potensi, Dirasakan and Shakemap are
+// optional: the felt feed has no Potensi and small events have no Shakemap.
+const REQUIRED_FIELDS = ['Tanggal', 'Jam', 'Magnitude', 'Kedalaman', 'Wilayah'] as const;
+
+const LIST_FIELDS: (keyof RecentEarthquake)[] = [
+  'Tanggal', 'Jam', 'DateTime', 'Coordinates', 'Lintang', 'Bujur',
+  'Magnitude', 'Kedalaman', 'Wilayah', 'Potensi', 'Dirasakan'
+];
+
+const missingField = (feed: FeedName, index: number, field: string) =>
+  new BmkgParseError('missing-field', feed, `Record ${index} has no ${field}`, { field, index });
+
+const checkRequired = (feed: FeedName, index: number, record: Partial<EarthquakeData & RecentEarthquake>) => {
+  const errors: BmkgParseError[] = REQUIRED_FIELDS
+    .filter(field => !record[field]?.trim())
+    .map(field => missingField(feed, index, field));
+  const hasCoordinates = Boolean(record.Coordinates?.trim() || record.coordinates?.trim());
+  if (!hasCoordinates && !(record.Lintang?.trim() && record.Bujur?.trim())) {
+    errors.push(missingField(feed, index, 'Coordinates'));
+  }
+  return errors;
+};
+
+const notWellFormed = () => new BmkgParseError('invalid-xml', 'latest', 'autogempa.xml is not well-formed XML');
+const noGempa = () => new BmkgParseError('invalid-shape', 'latest', 'autogempa.xml has no <gempa> element');
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXmlText = (text: string) => {
+  const cdata = /^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/.exec(text);
+  if (cdata) return cdata[1];
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] !== '#') return XML_ENTITIES[entity] ?? match;
+    const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+};
+
+// Node (the CLI) has no DOMParser. autogempa.xml is flat, so matching the
+// elements by name is enough there; an HTML error page or a document without
+// <gempa> fails with the same errors as in the browser.
+const readGempaWithoutDom = (xmlText: string) => {
+  const text = xmlText.trim();
+  if (!text.startsWith('<') || /^<(!doctype\s+html|html)\b/i.test(text)) throw notWellFormed();
+  const gempa = /<gempa\b[^>]*>([\s\S]*?)<\/gempa>/.exec(text);
+  if (!gempa) throw noGempa();
+  return (tagName: string) => {
+    const element = new RegExp(`<${tagName}\\b[^>]*>([\\s\\S]*?)</${tagName}>`).exec(gempa[1]);
+    return element ? decodeXmlText(element[1]).trim() : '';
+  };
+};
+
+const readGempa = (xmlText: string) => {
+  if (typeof DOMParser === 'undefined') return readGempaWithoutDom(xmlText);
+  const xmlDoc = new DOMParser().parseFromString(xmlText, 'text/xml');
+  if (xmlDoc.querySelector('parsererror')) throw notWellFormed();
+  const gempaElement = xmlDoc.querySelector('Infogempa > gempa, gempa');
+  if (!gempaElement) throw noGempa();
+  return (tagName: string) => gempaElement.querySelector(tagName)?.textContent?.trim() || '';
+};
+
+export const readXmlPayload = (xmlText: string): RawRecord<EarthquakeData> => {
+  const getData = readGempa(xmlText);
+  const record: EarthquakeData = {
+    Tanggal: getData('Tanggal'),
+    Jam: getData('Jam'),
+    DateTime: getData('DateTime'),
+    coordinates: getData('coordinates'),
+    Lintang: getData('Lintang'),
+    Bujur: getData('Bujur'),
+    Magnitude: getData('Magnitude'),
+    Kedalaman: getData('Kedalaman'),
+    Wilayah: getData('Wilayah'),
+    Potensi: getData('Potensi'),
+    Dirasakan: getData('Dirasakan'),
+    Shakemap: getData('Shakemap')
+  };
+  return { index: 0, record, errors: checkRequired('latest', 0, record), raw: record };
+};
+
+// Fills in what the checks let through, like readXmlPayload does for
+// elements that are absent
+const toListRecord = (fields: Partial<RecentEarthquake>): RecentEarthquake => ({
+  Tanggal: fields.Tanggal ?? '',
+  Jam: fields.Jam ?? '',
+  DateTime: fields.DateTime ?? '',
+  Coordinates: fields.Coordinates ?? '',
+  Lintang: fields.Lintang ?? '',
+  Bujur: fields.Bujur ?? '',
+  Magnitude: fields.Magnitude ?? '',
+  Kedalaman: fields.Kedalaman ?? '',
+  Wilayah: fields.Wilayah ?? '',
+  Potensi: fields.Potensi ?? '',
+  Dirasakan: fields.Dirasakan
+});
+
+export const readListPayload = (payload: unknown, feed: FeedName): RawRecord<RecentEarthquake>[] => {
+  const gempa = (payload as { Infogempa?: { gempa?: unknown } } | null)?.Infogempa?.gempa;
+  if (!Array.isArray(gempa)) {
+    throw new BmkgParseError('invalid-shape', feed, 'Payload has no Infogempa.gempa array');
+  }
+
+  return gempa.map((entry: unknown, index): RawRecord<RecentEarthquake> => {
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      const error = new BmkgParseError('invalid-shape', feed, `Record ${index} is not an object`, { index });
+      return { index, record: toListRecord({}), errors: [error], raw: entry };
+    }
+    const source = entry as Record<string, unknown>;
+    const errors: BmkgParseError[] = [];
+    const fields: Partial<RecentEarthquake> = {};
+    LIST_FIELDS.forEach(field => {
+      const value = source[field];
+      if (value === undefined || value === null) return;
+      // BMKG sends everything as strings; a number here means the format changed
+      if (typeof value !== 'string') {
+        errors.push(new BmkgParseError('invalid-field', feed, `Record ${index} has a non-string ${field}`, { field, index, value: String(value) }));
+        return;
+      }
+      fields[field] = value;
+    });
+    const reported = new Set(errors.map(error => error.field));
+    errors.push(...checkRequired(feed, index, fields).filter(error => !reported.has(error.field)));
+    return { index, record: toListRecord(fields), errors, raw: entry };
+  });
+};
+
+// Keeps the single JSON.parse failure typed like the other payload errors
+export const parseJsonPayload = (text: string, feed: FeedName): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new BmkgParseError('invalid-json', feed, 'Payload is not valid JSON');
+  }
+};
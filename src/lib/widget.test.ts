@@ -0,0 +1,59 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { createWidgetProvider, parseWidgetOptions } from './widget';
+
+const attributes = (values: Record<string, string>) => (name: string) => values[name] ?? null;
+
+describe('parseWidgetOptions', () => {
+  it('falls back to the defaults for missing or unknown values', () => {
+    expect(parseWidgetOptions(attributes({ feed: 'all', 'min-magnitude': 'big', theme: 'blue', lang: 'fr', provider: 'usgs' }))).toEqual({
+      feed: 'latest',
+      minMagnitude: null,
+      theme: 'auto',
+      language: null,
+      layout: 'compact',
+      provider: 'bmkg',
+      fixtureUrl: '/fixtures/default'
+    });
+  });
+
+  it('reads every attribute', () => {
+    const options = parseWidgetOptions(attributes({
+      feed: 'felt',
+      'min-magnitude': '5.5',
+      theme: 'dark',
+      lang: 'en-GB',
+      layout: 'expanded',
+      provider: 'fixture',
+      fixture: '/fixtures/replay/'
+    }));
+    expect(options).toEqual({
+      feed: 'felt',
+      minMagnitude: 5.5,
+      theme: 'dark',
+      language: 'en',
+      layout: 'expanded',
+      provider: 'fixture',
+      fixtureUrl: '/fixtures/replay'
+    });
+  });
+});
+
+describe('createWidgetProvider', () => {
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('ignores the host page\'s provider parameters', () => {
+    window.history.replaceState(null, '', '/?provider=fixture&fixture=/fixtures/broken');
+    const provider = createWidgetProvider(parseWidgetOptions(attributes({})));
+    expect(provider.id).toBe('bmkg');
+    expect(provider.endpoints.latest).toBe('https://data.bmkg.go.id/DataMKG/TEWS/autogempa.xml');
+  });
+
+  it('uses the fixture named by its own attribute', () => {
+    const provider = createWidgetProvider(parseWidgetOptions(attributes({ provider: 'fixture', fixture: '/fixtures/tsunami' })));
+    expect(provider.id).toBe('fixture');
+    expect(provider.endpoints.recent).toBe('/fixtures/tsunami/gempaterkini.json');
+  });
+});
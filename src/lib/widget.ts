@@ -0,0 +1,72 @@
+import { FEED_NAMES } from './feeds';
+import { LANGUAGES } from './i18n';
+import type { Language } from './i18n';
+import { BMKG_BASE_URL, createBmkgProvider, createFixtureProvider } from './providers';
+import type { FeedName, QuakeProvider } from './providers';
+
+// Options of the <quakemon-widget> element, read from its attributes:
+//   feed="latest|recent|felt" min-magnitude="5" theme="light|dark|auto"
+//   lang="id|en" layout="compact|expanded" provider="bmkg|fixture"
+//   fixture="/fixtures/replay"
+export type WidgetTheme = 'light' | 'dark' | 'auto';
+export type WidgetLayout = 'compact' | 'expanded';
+export type WidgetProvider = 'bmkg' | 'fixture';
+
+export interface WidgetOptions {
+  feed: FeedName;
+  minMagnitude: number | null;
+  theme: WidgetTheme;
+  // Null follows the partner page's <html lang>, then the browser
+  language: Language | null;
+  layout: WidgetLayout;
+  provider: WidgetProvider;
+  // Fixture directory for provider="fixture"
+  fixtureUrl: string;
+}
+
+export const WIDGET_TAG = 'quakemon-widget';
+
+export const WIDGET_ATTRIBUTES = ['feed', 'min-magnitude', 'theme', 'lang', 'layout', 'provider', 'fixture'];
+
+const WIDGET_THEMES: WidgetTheme[] = ['light', 'dark', 'auto'];
+const WIDGET_LAYOUTS: WidgetLayout[] = ['compact', 'expanded'];
+const WIDGET_PROVIDERS: WidgetProvider[] = ['bmkg', 'fixture'];
+const DEFAULT_FIXTURE_URL = '/fixtures/default';
+
+// Partner sites refresh rarely looked-at pages; once a minute is plenty
+export const WIDGET_REFRESH_MS = 60 * 1000;
+// Events listed by the expanded layout of the recent and felt feeds
+export const WIDGET_LIST_SIZE = 5;
+
+const pick = <T extends string>(value: string | null, allowed: T[], fallback: T): T =>
+  allowed.includes(value as T) ? value as T : fallback;
+
+// Unknown or malformed values fall back to the defaults instead of breaking
+// the partner's page
+export const parseWidgetOptions = (getAttribute: (name: string) => string | null): WidgetOptions => {
+  const minMagnitude = parseFloat(getAttribute('min-magnitude') || '');
+  const language = getAttribute('lang')?.slice(0, 2).toLowerCase() || null;
+  return {
+    feed: pick(getAttribute('feed'), FEED_NAMES, 'latest'),
+    minMagnitude: Number.isFinite(minMagnitude) ? minMagnitude : null,
+    theme: pick(getAttribute('theme'), WIDGET_THEMES, 'auto'),
+    language: LANGUAGES.includes(language as Language) ? language as Language : null,
+    layout: pick(getAttribute('layout'), WIDGET_LAYOUTS, 'compact'),
+    provider: pick(getAttribute('provider'), WIDGET_PROVIDERS, 'bmkg'),
+    fixtureUrl: getAttribute('fixture')?.trim().replace(/\/$/, '') || DEFAULT_FIXTURE_URL
+  };
+};
+
+// Goes by the element's own attributes only. The app's ?provider= and
+// ?fixture= parameters belong to the partner's page, not to the widget.
+export const createWidgetProvider = ({ provider, fixtureUrl }: Pick<WidgetOptions, 'provider' | 'fixtureUrl'>): QuakeProvider =>
+  provider === 'fixture'
+    ? createFixtureProvider(fixtureUrl)
+    : createBmkgProvider(import.meta.env.VITE_BMKG_URL || BMKG_BASE_URL);
+
+// The widget never touches the app's saved language; it goes by the page
+export const resolveWidgetLanguage = (language: Language | null): Language => {
+  if (language) return language;
+  const pageLanguage = (document.documentElement.lang || navigator.language || '').slice(0, 2).toLowerCase();
+  return pageLanguage === 'id' || pageLanguage === 'ms' || !pageLanguage ? 'id' : 'en';
+};
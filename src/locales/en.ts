@@ -0,0 +1,349 @@
+import type { Messages } from '../lib/i18n';
+
+const en: Messages = {
+  'app.subtitle': 'Real-time data, M≥5.0 history and felt earthquakes',
+  'app.loading': 'Fetching the latest earthquake data...',
+  'app.loadingSource': 'Source: {source} XML & JSON',
+  'app.fetchError': 'Could not fetch earthquake data. Please try again.',
+  'app.connectionProblem': 'Connection Problem',
+  'app.retry': 'Try Again',
+  'app.newData': 'New Data!',
+  'app.newDataShort': 'New!',
+  'app.location': 'Location',
+  'app.autoUpdate': 'Auto Update',
+  'app.autoUpdateShort': 'Auto',
+  'app.pollInterval': 'Auto-update interval',
+  'app.pollSeconds': 'Every {count} s',
+  'app.pollMinutes': 'Every {count} min',
+  'app.online': 'Online',
+  'app.offline': 'Offline',
+  'app.darkMode': 'Dark mode',
+  'app.refresh': 'Refresh',
+  'app.language': 'Language',
+  'app.staleUnreachable': 'BMKG cannot be reached.',
+  'app.staleOffline': 'You are offline.',
+  'app.staleNotice': '{reason} Showing data as of {time}; it will refresh automatically once the connection is back.',
+  'app.sortHintNoLocation': 'Add or select a location under "My Locations" to sort by distance.',
+
+  'tabs.latest': 'Latest Earthquake',
+  'tabs.latestShort': 'Latest',
+  'tabs.recent': '15 Earthquakes M≥5.0',
+  'tabs.recentShort': 'M≥5.0',
+  'tabs.felt': '15 Felt Earthquakes',
+  'tabs.feltShort': 'Felt',
+  'tabs.map': 'Map',
+  'tabs.history': 'History',
+  'tabs.alerts': 'Alerts',
+  'tabs.tsunami': 'Tsunami',
+  'tabs.playback': 'Playback',
+  'tabs.stats': 'Statistics',
+  'tabs.unread': 'Not seen yet',
+
+  'magnitude.light': 'Light Earthquake',
+  'magnitude.moderate': 'Moderate Earthquake',
+  'magnitude.strong': 'Strong Earthquake',
+  'magnitude.label': 'Magnitude {magnitude}',
+  'magnitude.guide': 'Magnitude Classification',
+
+  'quake.added': 'New',
+  'quake.revised': 'Updated',
+  'quake.location': 'Location',
+  'quake.time': 'Origin Time',
+  'quake.depth': 'Depth',
+  'quake.felt': 'Felt',
+  'quake.coordinates': 'Coordinates',
+  'quake.distanceFrom': 'Distance from {place}',
+  'quake.direction': 'Direction: {direction}',
+  'quake.relativePosition': '{distance} {direction} of {place}',
+  'quake.tsunami': 'Tsunami Potential',
+  'quake.tsunamiUnavailable': 'Tsunami potential information not available',
+  'quake.infoUnavailable': 'Information not available',
+  'quake.shakemap': 'Shakemap',
+  'quake.viewShakemap': 'View shakemap',
+  'quake.shakemapTitle': 'Shakemap',
+  'quake.shakemapAlt': 'Shakemap of the {region} earthquake',
+  'quake.details': 'Details',
+  'quake.detailsAndShare': 'Details & share',
+  'quake.lastUpdate': 'Last Update',
+
+  'list.recentTitle': 'Latest 15 Earthquakes M≥5.0',
+  'list.recentDescription': 'Earthquakes of magnitude 5.0 or greater recorded by BMKG',
+  'list.recentEmpty': 'M≥5.0 earthquake data not available',
+  'list.feltTitle': 'Latest 15 Felt Earthquakes',
+  'list.feltDescription': 'Earthquakes felt by the public according to BMKG reports',
+  'list.feltEmpty': 'Felt earthquake data not available',
+  'list.noMatch': 'No earthquakes match the filters',
+
+  'footer.source': '📡 Data source: Indonesian Agency for Meteorology, Climatology and Geophysics (BMKG)',
+  'footer.mode': '{provider} mode',
+  'footer.updated': 'XML & JSON data refreshes automatically every 30 seconds • Last updated: {time}',
+
+  'time.local': '{zone} (your time)',
+  'time.zonePreference': 'Primary time zone',
+  'time.zoneEpicenter': 'Epicenter zone',
+  'time.zoneLocal': 'My time',
+  'time.zoneUtc': 'UTC',
+
+  'filters.search': 'Search region',
+  'filters.searchPlaceholder': 'e.g. Maluku',
+  'filters.minMagnitude': 'Min magnitude',
+  'filters.maxMagnitude': 'Max magnitude',
+  'filters.minDepth': 'Min depth (km)',
+  'filters.maxDepth': 'Max depth (km)',
+  'filters.fromDate': 'From date',
+  'filters.toDate': 'To date',
+  'filters.sort': 'Sort by',
+  'filters.sortTime': 'Most recent',
+  'filters.sortMagnitude': 'Largest magnitude',
+  'filters.sortDepth': 'Deepest',
+  'filters.sortDistance': 'Nearest',
+  'filters.tsunamiOnly': 'Tsunami potential only',
+  'filters.feltIntensity': 'Felt',
+  'filters.anyIntensity': 'Any intensity',
+  'filters.feltPlace': 'Felt in',
+  'filters.feltPlacePlaceholder': 'e.g. Manado',
+  'filters.count': '{shown} of {total} earthquakes',
+  'filters.reset': 'Reset',
+  'filters.copyLink': 'Copy link',
+  'filters.linkCopied': 'Link copied',
+
+  'history.title': 'Earthquake History',
+  'history.description': 'Every earthquake Quakemon has received on this device, including those no longer in the BMKG lists',
+  'history.searchPlaceholder': 'e.g. Ambon, Sukabumi',
+  'history.readError': 'The local archive cannot be read in this browser.',
+  'history.invalidRange': 'The end date is before the start date. Pick an end date on or after the start date.',
+  'history.pageInfo': '{total} earthquakes • Page {page} of {pages}',
+  'history.previousPage': 'Previous page',
+  'history.nextPage': 'Next page',
+  'history.empty': 'No matching earthquakes in the archive yet',
+
+  'map.title': 'Epicenter Map',
+  'map.description': '{count} earthquakes from the latest, M≥5.0 and felt data. Circle size shows magnitude, colour shows depth.',
+  'map.ariaLabel': 'Map of earthquake epicenters in Indonesia',
+  'map.zoomIn': 'Zoom in',
+  'map.zoomOut': 'Zoom out',
+  'map.resetView': 'Reset view',
+  'map.shallow': 'Shallow (≤ 70 km)',
+  'map.intermediate': 'Intermediate (70–300 km)',
+  'map.deep': 'Deep (> 300 km)',
+  'map.selectHint': 'Click an earthquake to see its details',
+
+  'locations.title': 'My Locations',
+  'locations.description': 'Distance and direction of every earthquake are measured from the selected location',
+  'locations.nameRequired': 'A location name is required.',
+  'locations.invalidCoordinates': 'Invalid coordinates. Use decimal degrees, e.g. -3.69 and 128.18.',
+  'locations.geolocationUnsupported': 'This browser does not support geolocation.',
+  'locations.geolocationDenied': 'Location permission denied. Enter the coordinates manually.',
+  'locations.defaultName': 'My location',
+  'locations.remove': 'Remove {name}',
+  'locations.namePlaceholder': 'Name, e.g. Ambon field office',
+  'locations.name': 'Location name',
+  'locations.latPlaceholder': 'Latitude, e.g. -3.69',
+  'locations.lat': 'Latitude',
+  'locations.lonPlaceholder': 'Longitude, e.g. 128.18',
+  'locations.lon': 'Longitude',
+  'locations.add': 'Add',
+  'locations.useDevice': 'Use device location',
+
+  'alerts.rulesTitle': 'Alert Rules',
+  'alerts.addRule': 'Add rule',
+  'alerts.rulesDescription': 'A notification is sent when every filled-in condition matches. Each earthquake triggers at most one notification.',
+  'alerts.enableRule': 'Enable rule',
+  'alerts.ruleName': 'Rule name',
+  'alerts.removeRule': 'Remove {name}',
+  'alerts.minMagnitude': 'Min magnitude',
+  'alerts.maxDepth': 'Max depth (km)',
+  'alerts.maxDistance': 'Max distance (km)',
+  'alerts.fromLocation': 'From location',
+  'alerts.chooseLocation': 'Choose location',
+  'alerts.regionKeywords': 'Region keywords (comma separated)',
+  'alerts.regionKeywordsPlaceholder': 'e.g. Maluku, Ambon',
+  'alerts.message': 'Notification text',
+  'alerts.sound': 'Sound',
+  'alerts.soundNone': 'No sound',
+  'alerts.soundChime': 'Chime',
+  'alerts.soundSiren': 'Siren',
+  'alerts.testSound': 'Test sound',
+  'alerts.quietHours': 'Quiet hours',
+  'alerts.tsunamiOnly': 'Tsunami potential only',
+  'alerts.noRules': 'No rules yet. No notifications will be sent.',
+  'alerts.logTitle': 'Alert Log',
+  'alerts.clearLog': 'Clear log',
+  'alerts.anyQuake': 'any earthquake',
+  'alerts.suppressed': 'Muted (quiet hours)',
+  'alerts.emptyLog': 'No alerts sent yet',
+  'alerts.defaultRuleName': 'Strong Earthquake',
+  'alerts.newRuleName': 'New rule',
+  'alerts.reasonMagnitude': 'M{magnitude} ≥ {min}',
+  'alerts.reasonDepth': 'depth {depth} ≤ {max} km',
+  'alerts.reasonDistance': '{distance} from {place}',
+  'alerts.reasonRegion': 'region contains "{keyword}"',
+  'alerts.reasonTsunami': 'tsunami potential',
+
+  'changes.title': 'Recent Changes',
+  'changes.detected': 'Detected {time}',
+  'changes.empty': 'No changes since the first visit',
+  'changes.magnitude': 'magnitude {before} → {after}',
+  'changes.depth': 'depth {before} → {after} km',
+  'changes.epicenter': 'epicenter updated',
+  'changes.feltUpdated': 'felt report updated',
+  'changes.feltAdded': 'felt report added',
+
+  'event.back': 'Back',
+  'event.share': 'Share',
+  'event.linkCopied': 'Link copied',
+  'event.loading': 'Loading earthquake data...',
+  'event.notFound': 'No earthquake with ID {id} was found in the current data or the history.',
+  'event.id': 'Event ID',
+  'event.noFeltReports': 'No felt reports yet',
+  'event.nearbyTitle': 'Earthquakes Near the Epicenter',
+  'event.nearbyDescription': 'Other earthquakes within {radius} km stored in this device\'s history',
+  'event.nearbyEmpty': 'No other earthquakes near this location yet',
+
+  'source.latest': 'Latest',
+  'source.recent': 'M≥5.0',
+  'source.felt': 'Felt',
+
+  'direction.north': 'N',
+  'direction.northEast': 'NE',
+  'direction.east': 'E',
+  'direction.southEast': 'SE',
+  'direction.south': 'S',
+  'direction.southWest': 'SW',
+  'direction.west': 'W',
+  'direction.northWest': 'NW',
+
+  'coordinates.north': 'N',
+  'coordinates.south': 'S',
+  'coordinates.east': 'E',
+  'coordinates.west': 'W',
+
+  'health.title': 'BMKG feed status',
+  'health.pending': 'Waiting',
+  'health.ok': 'OK',
+  'health.unchanged': 'Unchanged',
+  'health.cached': 'From cache',
+  'health.error': 'Failed',
+  'health.latency': '{ms} ms',
+  'health.attempts': '{count} attempts',
+  'health.lastSuccess': 'Last success {time}',
+  'health.neverSucceeded': 'Never succeeded',
+  'health.staleList': '{file} could not be loaded. This list was last updated {time}.',
+  'health.unavailableList': '{file} could not be loaded, so this list is not available yet.',
+  'health.malformed': '{count} invalid records skipped',
+  'health.malformedRecord': 'Record {index}',
+  'health.malformedMore': '…and {count} more',
+  'health.missingField': '{field} missing',
+  'health.invalidField': '{field} invalid ("{value}")',
+
+  'agencies.title': 'Other agencies',
+  'agencies.off': 'Off',
+  'agencies.count': '{count} events',
+  'agencies.failed': 'Failed: {error}',
+  'agencies.sourceTitle': 'Data sources',
+  'agencies.comparisonTitle': 'Agency comparison',
+  'agencies.agency': 'Agency',
+  'agencies.magnitude': 'Magnitude',
+  'agencies.depth': 'Depth',
+  'agencies.timeOffset': 'Time offset',
+  'agencies.locationOffset': 'Location offset',
+  'agencies.reference': 'Reference',
+  'agencies.seconds': '{seconds} s',
+
+  'tsunami.statusWarning': 'Tsunami warning',
+  'tsunami.statusPotential': 'Tsunami potential',
+  'tsunami.statusEnded': 'Warning ended',
+  'tsunami.statusNone': 'No tsunami potential',
+  'tsunami.statusUnknown': 'Unknown',
+  'tsunami.statusAll': 'All statuses',
+  'tsunami.bannerWarning': 'TSUNAMI WARNING: move away from the coast now',
+  'tsunami.bannerPotential': 'Earthquake with tsunami potential: follow BMKG and local BPBD guidance',
+  'tsunami.dismiss': 'Dismiss this notice',
+  'tsunami.dismissAll': 'Dismiss all',
+  'tsunami.title': 'Tsunami history',
+  'tsunami.description': 'Earthquakes with tsunami potential or a tsunami warning, from the live feeds and the local archive.',
+  'tsunami.channel': 'Tsunami channel',
+  'tsunami.notify': 'Notifications',
+  'tsunami.sound': 'Sound',
+  'tsunami.testSound': 'Test sound',
+  'tsunami.status': 'Status',
+  'tsunami.empty': 'No earthquakes with tsunami potential recorded yet.',
+
+  'sequence.group': 'Group sequences',
+  'sequence.title': '{region} sequence',
+  'sequence.counts': '{count} events: {aftershocks} aftershocks, {foreshocks} foreshocks',
+  'sequence.shown': '{count} shown here',
+  'sequence.largest': 'Largest M {magnitude}',
+  'sequence.sinceMainshock': 'Mainshock {time}',
+  'sequence.latestEvent': 'Latest {time}',
+  'sequence.mainshock': 'Mainshock • {count} events',
+  'sequence.aftershockOf': 'Aftershock of M {magnitude}',
+  'sequence.foreshockOf': 'Foreshock of M {magnitude}',
+  'sequence.badgeTitle': 'Part of the {region} sequence, mainshock {time}',
+
+  'playback.title': 'Timeline Playback',
+  'playback.description': 'Replay live and archived earthquakes in the order they happened. Epicenters appear as their time comes and fade into a faint trace, while the list and the magnitude chart follow along.',
+  'playback.play': 'Play',
+  'playback.pause': 'Pause',
+  'playback.restart': 'Back to the start',
+  'playback.position': 'Playback position',
+  'playback.speed': 'Speed',
+  'playback.speedMinutes': '{count} min per second',
+  'playback.speedHours': '{count} h per second',
+  'playback.speedDays': '{count} d per second',
+  'playback.mapLabel': 'Map of the epicenters up to the playback position',
+  'playback.chart': 'Magnitude over time',
+  'playback.shown': '{count} of {total} events',
+  'playback.largest': 'Largest so far M {magnitude}',
+  'playback.list': 'Events so far',
+  'playback.listEmpty': 'No earthquakes yet at this point',
+  'playback.jumpTo': 'Jump to this earthquake',
+  'playback.empty': 'No earthquakes in this date range',
+
+  'widget.loading': 'Loading earthquake data…',
+  'widget.error': 'Earthquake data from BMKG could not be loaded',
+  'widget.stale': 'Could not refresh; showing the last data received',
+  'widget.empty': 'No earthquakes in this feed yet',
+  'widget.emptyAbove': 'No recent earthquakes of M {magnitude} or more',
+  'widget.source': 'Quakemon • Data: BMKG',
+
+  'felt.intensity': 'Intensity (MMI)',
+  'felt.place': 'Place',
+  'felt.maxIntensity': 'Highest reported intensity',
+
+  'shakemap.galleryTitle': 'Shakemap Gallery',
+  'shakemap.galleryDescription': 'Compare the shakemaps of the latest significant earthquakes side by side. Images loaded before are kept on this device.',
+  'shakemap.gallerySize': 'Show',
+  'shakemap.galleryEmpty': 'No earthquakes with a shakemap yet',
+  'shakemap.unavailable': 'The shakemap could not be loaded',
+  'shakemap.retry': 'Try again',
+  'shakemap.zoomIn': 'Zoom in',
+  'shakemap.zoomOut': 'Zoom out',
+  'shakemap.reset': 'Reset zoom',
+  'shakemap.fullscreen': 'Full screen',
+  'shakemap.exitFullscreen': 'Exit full screen',
+
+  'export.label': 'Export {count} earthquakes:',
+  'export.download': 'Download as {format}',
+
+  'stats.title': 'Seismicity Statistics',
+  'stats.description': 'Computed from {count} earthquakes',
+  'stats.sourceLive': 'Current data',
+  'stats.sourceArchive': 'Including history',
+  'stats.empty': 'No earthquakes to compute yet',
+  'stats.histogram': 'Magnitude Distribution',
+  'stats.histogramHint': 'Earthquakes per 0.5 magnitude range',
+  'stats.gutenbergRichter': 'Cumulative Gutenberg–Richter',
+  'stats.bValue': 'b-value = {b} (Mc = {mc}, {n} earthquakes)',
+  'stats.bValueUnavailable': 'Too few earthquakes to estimate a b-value',
+  'stats.depthScatter': 'Depth vs Magnitude',
+  'stats.daily': 'Daily Earthquake Count',
+  'stats.topRegions': 'Most Active Regions',
+  'stats.topRegionsHint': 'By the last place name in the BMKG Wilayah description',
+  'stats.magnitude': 'Magnitude',
+  'stats.count': 'Count',
+  'stats.depthKm': 'Depth (km)',
+  'stats.date': 'Date'
+};
+
+export default en;
@@ -0,0 +1,349 @@
+// Bahasa Indonesia catalog. Keys are grouped by the screen that uses them.
+const id = {
+  'app.subtitle': 'Data Real-time, Riwayat M≥5.0, dan Gempa Dirasakan',
+  'app.loading': 'Mengambil data gempa terbaru...',
+  'app.loadingSource': 'Sumber: {source} XML & JSON',
+  'app.fetchError': 'Gagal mengambil data gempa. Silakan coba lagi.',
+  'app.connectionProblem': 'Koneksi Bermasalah',
+  'app.retry': 'Coba Lagi',
+  'app.newData': 'Data Baru!',
+  'app.newDataShort': 'Baru!',
+  'app.location': 'Lokasi',
+  'app.autoUpdate': 'Auto Update',
+  'app.autoUpdateShort': 'Auto',
+  'app.pollInterval': 'Interval pembaruan otomatis',
+  'app.pollSeconds': 'Tiap {count} dtk',
+  'app.pollMinutes': 'Tiap {count} mnt',
+  'app.online': 'Online',
+  'app.offline': 'Offline',
+  'app.darkMode': 'Mode gelap',
+  'app.refresh': 'Muat ulang',
+  'app.language': 'Bahasa',
+  'app.staleUnreachable': 'BMKG tidak dapat dihubungi.',
+  'app.staleOffline': 'Anda sedang offline.',
+  'app.staleNotice': '{reason} Menampilkan data per {time}, akan diperbarui otomatis saat koneksi kembali.',
+  'app.sortHintNoLocation': 'Tambahkan atau pilih lokasi di "Lokasi Saya" untuk mengurutkan berdasarkan jarak.',
+
+  'tabs.latest': 'Gempa Terbaru',
+  'tabs.latestShort': 'Terbaru',
+  'tabs.recent': '15 Gempa M≥5.0',
+  'tabs.recentShort': 'M≥5.0',
+  'tabs.felt': '15 Gempa Dirasakan',
+  'tabs.feltShort': 'Dirasakan',
+  'tabs.map': 'Peta',
+  'tabs.history': 'Riwayat',
+  'tabs.alerts': 'Peringatan',
+  'tabs.tsunami': 'Tsunami',
+  'tabs.playback': 'Putar Ulang',
+  'tabs.stats': 'Statistik',
+  'tabs.unread': 'Belum dilihat',
+
+  'magnitude.light': 'Gempa Ringan',
+  'magnitude.moderate': 'Gempa Sedang',
+  'magnitude.strong': 'Gempa Kuat',
+  'magnitude.label': 'Magnitudo {magnitude}',
+  'magnitude.guide': 'Klasifikasi Magnitudo',
+
+  'quake.added': 'Baru',
+  'quake.revised': 'Diperbarui',
+  'quake.location': 'Lokasi',
+  'quake.time': 'Waktu Kejadian',
+  'quake.depth': 'Kedalaman',
+  'quake.felt': 'Dirasakan',
+  'quake.coordinates': 'Koordinat',
+  'quake.distanceFrom': 'Jarak dari {place}',
+  'quake.direction': 'Arah {direction}',
+  'quake.relativePosition': '{distance} {direction} dari {place}',
+  'quake.tsunami': 'Potensi Tsunami',
+  'quake.tsunamiUnavailable': 'Informasi potensi tsunami tidak tersedia',
+  'quake.infoUnavailable': 'Informasi tidak tersedia',
+  'quake.shakemap': 'Shakemap',
+  'quake.viewShakemap': 'Lihat Peta Guncangan',
+  'quake.shakemapTitle': 'Peta Guncangan (Shakemap)',
+  'quake.shakemapAlt': 'Shakemap gempa {region}',
+  'quake.details': 'Detail',
+  'quake.detailsAndShare': 'Detail & bagikan',
+  'quake.lastUpdate': 'Terakhir Update',
+
+  'list.recentTitle': '15 Gempa M≥5.0 Terbaru',
+  'list.recentDescription': 'Daftar gempa dengan magnitudo 5.0 atau lebih yang tercatat BMKG',
+  'list.recentEmpty': 'Data gempa M≥5.0 tidak tersedia',
+  'list.feltTitle': '15 Gempa Dirasakan Terbaru',
+  'list.feltDescription': 'Daftar gempa yang dirasakan masyarakat berdasarkan laporan BMKG',
+  'list.feltEmpty': 'Data gempa dirasakan tidak tersedia',
+  'list.noMatch': 'Tidak ada gempa yang cocok dengan filter',
+
+  'footer.source': '📡 Sumber data: Badan Meteorologi, Klimatologi, dan Geofisika (BMKG)',
+  'footer.mode': 'Mode {provider}',
+  'footer.updated': 'Data XML & JSON diperbarui otomatis setiap 30 detik • Terakhir diperbarui: {time}',
+
+  'time.local': '{zone} (waktu Anda)',
+  'time.zonePreference': 'Zona waktu utama',
+  'time.zoneEpicenter': 'Zona episenter',
+  'time.zoneLocal': 'Waktu saya',
+  'time.zoneUtc': 'UTC',
+
+  'filters.search': 'Cari wilayah',
+  'filters.searchPlaceholder': 'mis. Maluku',
+  'filters.minMagnitude': 'Magnitudo min',
+  'filters.maxMagnitude': 'Magnitudo maks',
+  'filters.minDepth': 'Kedalaman min (km)',
+  'filters.maxDepth': 'Kedalaman maks (km)',
+  'filters.fromDate': 'Dari tanggal',
+  'filters.toDate': 'Sampai tanggal',
+  'filters.sort': 'Urutkan',
+  'filters.sortTime': 'Waktu terbaru',
+  'filters.sortMagnitude': 'Magnitudo terbesar',
+  'filters.sortDepth': 'Kedalaman terdalam',
+  'filters.sortDistance': 'Jarak terdekat',
+  'filters.tsunamiOnly': 'Hanya berpotensi tsunami',
+  'filters.feltIntensity': 'Dirasakan',
+  'filters.anyIntensity': 'Semua intensitas',
+  'filters.feltPlace': 'Dirasakan di',
+  'filters.feltPlacePlaceholder': 'mis. Manado',
+  'filters.count': '{shown} dari {total} gempa',
+  'filters.reset': 'Reset',
+  'filters.copyLink': 'Salin tautan',
+  'filters.linkCopied': 'Tautan disalin',
+
+  'history.title': 'Riwayat Gempa',
+  'history.description': 'Semua gempa yang pernah diterima Quakemon di perangkat ini, termasuk yang sudah tidak ada di daftar BMKG',
+  'history.searchPlaceholder': 'mis. Ambon, Sukabumi',
+  'history.readError': 'Arsip lokal tidak dapat dibaca di browser ini.',
+  'history.invalidRange': 'Tanggal akhir lebih awal dari tanggal mulai. Pilih tanggal akhir yang sama dengan atau setelah tanggal mulai.',
+  'history.pageInfo': '{total} gempa • Halaman {page} dari {pages}',
+  'history.previousPage': 'Halaman sebelumnya',
+  'history.nextPage': 'Halaman berikutnya',
+  'history.empty': 'Belum ada gempa yang cocok di arsip',
+
+  'map.title': 'Peta Episenter',
+  'map.description': '{count} gempa dari data terbaru, M≥5.0, dan dirasakan. Ukuran lingkaran menunjukkan magnitudo, warna menunjukkan kedalaman.',
+  'map.ariaLabel': 'Peta episenter gempa di Indonesia',
+  'map.zoomIn': 'Perbesar',
+  'map.zoomOut': 'Perkecil',
+  'map.resetView': 'Atur ulang tampilan',
+  'map.shallow': 'Dangkal (≤ 70 km)',
+  'map.intermediate': 'Menengah (70–300 km)',
+  'map.deep': 'Dalam (> 300 km)',
+  'map.selectHint': 'Klik salah satu titik gempa untuk melihat detailnya',
+
+  'locations.title': 'Lokasi Saya',
+  'locations.description': 'Jarak dan arah setiap gempa dihitung dari lokasi yang dipilih',
+  'locations.nameRequired': 'Nama lokasi wajib diisi.',
+  'locations.invalidCoordinates': 'Koordinat tidak valid. Gunakan derajat desimal, mis. -3.69 dan 128.18.',
+  'locations.geolocationUnsupported': 'Browser ini tidak mendukung lokasi.',
+  'locations.geolocationDenied': 'Izin lokasi ditolak. Masukkan koordinat secara manual.',
+  'locations.defaultName': 'Lokasi saya',
+  'locations.remove': 'Hapus {name}',
+  'locations.namePlaceholder': 'Nama, mis. Posko Ambon',
+  'locations.name': 'Nama lokasi',
+  'locations.latPlaceholder': 'Lintang, mis. -3.69',
+  'locations.lat': 'Lintang',
+  'locations.lonPlaceholder': 'Bujur, mis. 128.18',
+  'locations.lon': 'Bujur',
+  'locations.add': 'Tambah',
+  'locations.useDevice': 'Gunakan lokasi perangkat',
+
+  'alerts.rulesTitle': 'Aturan Peringatan',
+  'alerts.addRule': 'Tambah aturan',
+  'alerts.rulesDescription': 'Notifikasi dikirim jika semua syarat yang diisi terpenuhi. Setiap gempa hanya memicu satu notifikasi.',
+  'alerts.enableRule': 'Aktifkan aturan',
+  'alerts.ruleName': 'Nama aturan',
+  'alerts.removeRule': 'Hapus {name}',
+  'alerts.minMagnitude': 'Magnitudo min',
+  'alerts.maxDepth': 'Kedalaman maks (km)',
+  'alerts.maxDistance': 'Jarak maks (km)',
+  'alerts.fromLocation': 'Dari lokasi',
+  'alerts.chooseLocation': 'Pilih lokasi',
+  'alerts.regionKeywords': 'Kata kunci wilayah (pisahkan dengan koma)',
+  'alerts.regionKeywordsPlaceholder': 'mis. Maluku, Ambon',
+  'alerts.message': 'Teks notifikasi',
+  'alerts.sound': 'Suara',
+  'alerts.soundNone': 'Tanpa suara',
+  'alerts.soundChime': 'Nada',
+  'alerts.soundSiren': 'Sirene',
+  'alerts.testSound': 'Coba suara',
+  'alerts.quietHours': 'Jam tenang',
+  'alerts.tsunamiOnly': 'Hanya berpotensi tsunami',
+  'alerts.noRules': 'Belum ada aturan. Tidak ada notifikasi yang akan dikirim.',
+  'alerts.logTitle': 'Log Peringatan',
+  'alerts.clearLog': 'Hapus log',
+  'alerts.anyQuake': 'semua gempa',
+  'alerts.suppressed': 'Dibisukan (jam tenang)',
+  'alerts.emptyLog': 'Belum ada peringatan yang terkirim',
+  'alerts.defaultRuleName': 'Gempa Kuat',
+  'alerts.newRuleName': 'Aturan baru',
+  'alerts.reasonMagnitude': 'M{magnitude} ≥ {min}',
+  'alerts.reasonDepth': 'kedalaman {depth} ≤ {max} km',
+  'alerts.reasonDistance': '{distance} dari {place}',
+  'alerts.reasonRegion': 'wilayah memuat "{keyword}"',
+  'alerts.reasonTsunami': 'berpotensi tsunami',
+
+  'changes.title': 'Perubahan Terbaru',
+  'changes.detected': 'Terdeteksi {time}',
+  'changes.empty': 'Belum ada perubahan sejak kunjungan pertama',
+  'changes.magnitude': 'magnitudo {before} → {after}',
+  'changes.depth': 'kedalaman {before} → {after} km',
+  'changes.epicenter': 'episenter diperbarui',
+  'changes.feltUpdated': 'laporan dirasakan diperbarui',
+  'changes.feltAdded': 'laporan dirasakan ditambahkan',
+
+  'event.back': 'Kembali',
+  'event.share': 'Bagikan',
+  'event.linkCopied': 'Tautan disalin',
+  'event.loading': 'Memuat data gempa...',
+  'event.notFound': 'Gempa dengan ID {id} tidak ditemukan di data terkini maupun riwayat.',
+  'event.id': 'ID Kejadian',
+  'event.noFeltReports': 'Belum ada laporan dirasakan',
+  'event.nearbyTitle': 'Gempa di Sekitar Episenter',
+  'event.nearbyDescription': 'Gempa lain dalam radius {radius} km yang tersimpan di riwayat perangkat ini',
+  'event.nearbyEmpty': 'Belum ada gempa lain di sekitar lokasi ini',
+
+  'source.latest': 'Terbaru',
+  'source.recent': 'M≥5.0',
+  'source.felt': 'Dirasakan',
+
+  // Eight-point compass in the same wording BMKG uses in Wilayah descriptions
+  'direction.north': 'Utara',
+  'direction.northEast': 'TimurLaut',
+  'direction.east': 'Timur',
+  'direction.southEast': 'Tenggara',
+  'direction.south': 'Selatan',
+  'direction.southWest': 'BaratDaya',
+  'direction.west': 'Barat',
+  'direction.northWest': 'BaratLaut',
+
+  'coordinates.north': 'LU',
+  'coordinates.south': 'LS',
+  'coordinates.east': 'BT',
+  'coordinates.west': 'BB',
+
+  'health.title': 'Status umpan BMKG',
+  'health.pending': 'Menunggu',
+  'health.ok': 'Normal',
+  'health.unchanged': 'Tidak berubah',
+  'health.cached': 'Dari cache',
+  'health.error': 'Gagal',
+  'health.latency': '{ms} ms',
+  'health.attempts': '{count} percobaan',
+  'health.lastSuccess': 'Terakhir berhasil {time}',
+  'health.neverSucceeded': 'Belum pernah berhasil',
+  'health.staleList': '{file} tidak dapat dimuat. Daftar ini terakhir diperbarui {time}.',
+  'health.unavailableList': '{file} tidak dapat dimuat, jadi daftar ini belum tersedia.',
+  'health.malformed': '{count} record tidak valid dilewati',
+  'health.malformedRecord': 'Record {index}',
+  'health.malformedMore': '…dan {count} lainnya',
+  'health.missingField': '{field} tidak ada',
+  'health.invalidField': '{field} tidak valid ("{value}")',
+
+  'agencies.title': 'Lembaga lain',
+  'agencies.off': 'Nonaktif',
+  'agencies.count': '{count} kejadian',
+  'agencies.failed': 'Gagal: {error}',
+  'agencies.sourceTitle': 'Sumber data',
+  'agencies.comparisonTitle': 'Perbandingan antarlembaga',
+  'agencies.agency': 'Lembaga',
+  'agencies.magnitude': 'Magnitudo',
+  'agencies.depth': 'Kedalaman',
+  'agencies.timeOffset': 'Selisih waktu',
+  'agencies.locationOffset': 'Selisih lokasi',
+  'agencies.reference': 'Acuan',
+  'agencies.seconds': '{seconds} dtk',
+
+  'tsunami.statusWarning': 'Peringatan dini tsunami',
+  'tsunami.statusPotential': 'Berpotensi tsunami',
+  'tsunami.statusEnded': 'Peringatan berakhir',
+  'tsunami.statusNone': 'Tidak berpotensi tsunami',
+  'tsunami.statusUnknown': 'Tidak diketahui',
+  'tsunami.statusAll': 'Semua status',
+  'tsunami.bannerWarning': 'PERINGATAN DINI TSUNAMI: segera menjauh dari pantai',
+  'tsunami.bannerPotential': 'Gempa berpotensi tsunami: ikuti arahan BMKG dan BPBD setempat',
+  'tsunami.dismiss': 'Tutup pemberitahuan ini',
+  'tsunami.dismissAll': 'Tutup semua',
+  'tsunami.title': 'Riwayat tsunami',
+  'tsunami.description': 'Gempa dengan potensi atau peringatan tsunami dari umpan langsung dan arsip lokal.',
+  'tsunami.channel': 'Saluran tsunami',
+  'tsunami.notify': 'Notifikasi',
+  'tsunami.sound': 'Suara',
+  'tsunami.testSound': 'Uji suara',
+  'tsunami.status': 'Status',
+  'tsunami.empty': 'Belum ada gempa dengan potensi tsunami yang tercatat.',
+
+  'sequence.group': 'Kelompokkan rangkaian gempa',
+  'sequence.title': 'Rangkaian gempa {region}',
+  'sequence.counts': '{count} kejadian: {aftershocks} gempa susulan, {foreshocks} gempa pendahuluan',
+  'sequence.shown': '{count} ditampilkan di sini',
+  'sequence.largest': 'Terbesar M {magnitude}',
+  'sequence.sinceMainshock': 'Gempa utama {time}',
+  'sequence.latestEvent': 'Terakhir {time}',
+  'sequence.mainshock': 'Gempa utama • {count} kejadian',
+  'sequence.aftershockOf': 'Susulan M {magnitude}',
+  'sequence.foreshockOf': 'Pendahuluan M {magnitude}',
+  'sequence.badgeTitle': 'Bagian dari rangkaian gempa {region}, gempa utama {time}',
+
+  'playback.title': 'Putar Ulang Linimasa',
+  'playback.description': 'Putar ulang gempa terkini dan arsip sesuai urutan kejadiannya. Episentrum muncul saat waktunya tiba lalu memudar menjadi jejak samar, sementara daftar dan grafik magnitudo ikut berjalan.',
+  'playback.play': 'Putar',
+  'playback.pause': 'Jeda',
+  'playback.restart': 'Kembali ke awal',
+  'playback.position': 'Posisi pemutaran',
+  'playback.speed': 'Kecepatan',
+  'playback.speedMinutes': '{count} menit per detik',
+  'playback.speedHours': '{count} jam per detik',
+  'playback.speedDays': '{count} hari per detik',
+  'playback.mapLabel': 'Peta episentrum hingga posisi pemutaran',
+  'playback.chart': 'Magnitudo dari waktu ke waktu',
+  'playback.shown': '{count} dari {total} kejadian',
+  'playback.largest': 'Terbesar sejauh ini M {magnitude}',
+  'playback.list': 'Kejadian sejauh ini',
+  'playback.listEmpty': 'Belum ada gempa pada titik ini',
+  'playback.jumpTo': 'Lompat ke gempa ini',
+  'playback.empty': 'Tidak ada gempa dalam rentang tanggal ini',
+
+  'widget.loading': 'Memuat data gempa…',
+  'widget.error': 'Data gempa dari BMKG tidak dapat dimuat',
+  'widget.stale': 'Gagal memperbarui; menampilkan data terakhir yang diterima',
+  'widget.empty': 'Belum ada gempa di feed ini',
+  'widget.emptyAbove': 'Tidak ada gempa terkini M {magnitude} atau lebih',
+  'widget.source': 'Quakemon • Data: BMKG',
+
+  'felt.intensity': 'Intensitas (MMI)',
+  'felt.place': 'Lokasi',
+  'felt.maxIntensity': 'Intensitas tertinggi yang dilaporkan',
+
+  'shakemap.galleryTitle': 'Galeri Shakemap',
+  'shakemap.galleryDescription': 'Bandingkan shakemap gempa signifikan terakhir secara berdampingan. Gambar yang pernah dimuat disimpan di perangkat ini.',
+  'shakemap.gallerySize': 'Tampilkan',
+  'shakemap.galleryEmpty': 'Belum ada gempa dengan shakemap',
+  'shakemap.unavailable': 'Shakemap tidak dapat dimuat',
+  'shakemap.retry': 'Coba lagi',
+  'shakemap.zoomIn': 'Perbesar',
+  'shakemap.zoomOut': 'Perkecil',
+  'shakemap.reset': 'Kembalikan ukuran',
+  'shakemap.fullscreen': 'Layar penuh',
+  'shakemap.exitFullscreen': 'Keluar dari layar penuh',
+
+  'export.label': 'Ekspor {count} gempa:',
+  'export.download': 'Unduh sebagai {format}',
+
+  'stats.title': 'Statistik Kegempaan',
+  'stats.description': 'Dihitung dari {count} gempa',
+  'stats.sourceLive': 'Data terkini',
+  'stats.sourceArchive': 'Termasuk riwayat',
+  'stats.empty': 'Belum ada gempa untuk dihitung',
+  'stats.histogram': 'Distribusi Magnitudo',
+  'stats.histogramHint': 'Jumlah gempa per rentang 0,5 magnitudo',
+  'stats.gutenbergRichter': 'Gutenberg–Richter Kumulatif',
+  'stats.bValue': 'Nilai b = {b} (Mc = {mc}, {n} gempa)',
+  'stats.bValueUnavailable': 'Terlalu sedikit gempa untuk menghitung nilai b',
+  'stats.depthScatter': 'Kedalaman terhadap Magnitudo',
+  'stats.daily': 'Jumlah Gempa Harian',
+  'stats.topRegions': 'Wilayah Teraktif',
+  'stats.topRegionsHint': 'Berdasarkan nama wilayah terakhir di keterangan Wilayah BMKG',
+  'stats.magnitude': 'Magnitudo',
+  'stats.count': 'Jumlah',
+  'stats.depthKm': 'Kedalaman (km)',
+  'stats.date': 'Tanggal'
+};
+
+export default id;
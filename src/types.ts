@@ -0,0 +1,75 @@
+export interface EarthquakeData {
+  Tanggal: string;
+  Jam: string;
+  DateTime: string;
+  coordinates: string;
+  Lintang: string;
+  Bujur: string;
+  Magnitude: string;
+  Kedalaman: string;
+  Wilayah: string;
+  Potensi: string;
+  Dirasakan: string;
+  Shakemap: string;
+}
+
+export interface RecentEarthquake {
+  Tanggal: string;
+  Jam: string;
+  DateTime: string;
+  Coordinates: string;
+  Lintang: string;
+  Bujur: string;
+  Magnitude: string;
+  Kedalaman: string;
+  Wilayah: string;
+  Potensi: string;
+  Dirasakan?: string;
+}
+
+export interface RecentEarthquakeData {
+  Infogempa: {
+    gempa: RecentEarthquake[];
+  };
+}
+
+// 'potential' is BMKG's "berpotensi tsunami", 'warning' a tsunami early
+// warning in force (or a tsunami observed), 'ended' a warning called off
+export type TsunamiPotential = 'none' | 'potential' | 'warning' | 'ended' | 'unknown';
+
+export type AgencyId = 'bmkg' | 'usgs' | 'emsc';
+
+// Another agency's location and magnitude for an event
+export interface AgencySolution {
+  agency: AgencyId;
+  eventId: string;
+  time: Date;
+  magnitude: number;
+  // As the agency reports it, e.g. "mb", "Mww", "M"
+  magnitudeType: string;
+  depthKm: number;
+  lat: number;
+  lon: number;
+  region: string;
+  url: string | null;
+}
+
+// Normalized earthquake event. Every BMKG payload (XML or JSON) is converted
+// into this shape once, so the rest of the app never touches raw strings.
+export interface Quake {
+  id: string;
+  time: Date;
+  magnitude: number;
+  depthKm: number;
+  lat: number;
+  lon: number;
+  region: string;
+  tsunami: TsunamiPotential;
+  potensi: string;
+  felt: string | null;
+  shakemap: string | null;
+  // Agency the fields above come from; BMKG when absent
+  source?: AgencyId;
+  // Other agencies' solutions for the same event, matched by time and place
+  solutions?: AgencySolution[];
+}
@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_QUAKE_PROVIDER?: 'bmkg' | 'fixture';
+  readonly VITE_BMKG_URL?: string;
+  readonly VITE_FIXTURE_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,47 @@
+import { StrictMode } from 'react';
+import { createRoot } from 'react-dom/client';
+import type { Root } from 'react-dom/client';
+import QuakemonWidget from './components/QuakemonWidget.tsx';
+import { WIDGET_ATTRIBUTES, WIDGET_TAG, parseWidgetOptions } from './lib/widget';
+import styles from './index.css?inline';
+
+// Entry of the widget build (vite.widget.config.ts). The element renders into
+// a shadow root with its own copy of the Tailwind styles, so the partner's
+// CSS and ours can't leak into each other.
+class QuakemonWidgetElement extends HTMLElement {
+  static observedAttributes = WIDGET_ATTRIBUTES;
+
+  private root: Root | null = null;
+
+  connectedCallback() {
+    const shadow = this.shadowRoot || this.attachShadow({ mode: 'open' });
+    shadow.replaceChildren();
+    const style = document.createElement('style');
+    style.textContent = styles;
+    const container = document.createElement('div');
+    shadow.append(style, container);
+    this.root = createRoot(container);
+    this.render();
+  }
+
+  disconnectedCallback() {
+    this.root?.unmount();
+    this.root = null;
+  }
+
+  attributeChangedCallback() {
+    this.render();
+  }
+
+  private render() {
+    this.root?.render(
+      <StrictMode>
+        <QuakemonWidget options={parseWidgetOptions(name => this.getAttribute(name))} />
+      </StrictMode>
+    );
+  }
+}
+
+if (!customElements.get(WIDGET_TAG)) {
+  customElements.define(WIDGET_TAG, QuakemonWidgetElement);
+}
@@ -0,0 +1,24 @@
+import { defineConfig } from 'vite';
+
+// Third build target: the `quakemon` command for Node 18+, bundled into one
+// file with the app's feed, parsing and filter code. Its own output
+// directory, since the app build empties dist/.
+//   npm run build:cli -> dist-cli/quakemon.js
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: 'cli/quakemon.ts',
+    outDir: 'dist-cli',
+    target: 'node18',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'quakemon.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+  // Bundle everything; only Node's own modules stay imports
+  ssr: {
+    noExternal: true,
+  },
+});
@@ -1,9 +1,40 @@
+import { createHash } from 'node:crypto';
+import { readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
 import { defineConfig } from 'vite';
+import type { Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Writes the hashed JS and CSS of the build into the copy of public/sw.js in
+// the output, so the service worker precaches them on install and a new
+// deploy gets a fresh shell cache.
+const precacheAssets = (): Plugin => {
+  let base = '/';
+  return {
+    name: 'quakemon:precache-assets',
+    apply: 'build',
+    configResolved(config) {
+      base = config.base;
+    },
+    async writeBundle(options, bundle) {
+      const assets = Object.keys(bundle).filter(fileName => /\.(js|css)$/.test(fileName)).sort().map(fileName => base + fileName);
+      const buildId = createHash('sha1').update(assets.join('\n')).digest('hex').slice(0, 8);
+      const path = join(options.dir || 'dist', 'sw.js');
+      const source = await readFile(path, 'utf8');
+      const injected = source
+        .replace("const BUILD_ID = 'dev';", `const BUILD_ID = '${buildId}';`)
+        .replace('const BUILD_ASSETS = [];', `const BUILD_ASSETS = ${JSON.stringify(assets)};`);
+      if (!injected.includes(buildId) || assets.some(asset => !injected.includes(asset))) {
+        this.error('public/sw.js has no BUILD_ID or BUILD_ASSETS to fill in');
+      }
+      await writeFile(path, injected);
+    },
+  };
+};
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheAssets()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
@@ -0,0 +1,25 @@
+import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+// Second build target: <quakemon-widget> as a single self-contained script,
+// with React and the styles bundled in, for partner sites to embed.
+// Its own output directory, since the app build empties dist/.
+//   npm run build:widget -> dist-widget/quakemon-widget.js (ES module)
+//                           dist-widget/quakemon-widget.iife.js (classic <script>)
+export default defineConfig({
+  plugins: [react()],
+  // Library mode leaves process.env alone, which React reads
+  define: {
+    'process.env.NODE_ENV': JSON.stringify('production'),
+  },
+  publicDir: false,
+  build: {
+    outDir: 'dist-widget',
+    lib: {
+      entry: 'src/widget.tsx',
+      name: 'QuakemonWidget',
+      formats: ['es', 'iife'],
+      fileName: format => (format === 'es' ? 'quakemon-widget.js' : `quakemon-widget.${format}.js`),
+    },
+  },
+});